@@ -0,0 +1,124 @@
+// Deterministic stand-in for an LLM backend, for development and tests.
+// Serves both the OpenAI chat completions API and Ollama's /api/chat, and
+// answers with tool calls picked by simple keyword rules, so the same prompt
+// always produces the same operations.
+//
+//   npm run mock:llm            # listens on http://localhost:8787
+//   VITE_ASSISTANT_PROVIDER=openai VITE_ASSISTANT_MODEL=mock \
+//   VITE_ASSISTANT_BASE_URL=http://localhost:8787/v1 npm run dev
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.MOCK_LLM_PORT || 8787);
+
+// The whole page needs no scope.
+const scope = (phrase) => (!phrase || /^(?:diagram|everything|page)$/i.test(phrase) ? undefined : phrase);
+
+// "A, B and C" -> ['A', 'B', 'C'].
+const list = (phrase) => phrase.split(/\s*,\s*(?:and\s+)?|\s+and\s+/i).map((name) => name.trim()).filter(Boolean);
+
+const RULES = [
+  [/^align\s+(?:the\s+)?(.+?)\s+(?:(?:to|on|at)\s+the\s+)?(left|right|top|bottom|center|centre|middle)(?:\s+edges?)?$/i, (m) => ['alignComponents', { components: list(m[1]), edge: m[2].toLowerCase().replace('centre', 'center') }]],
+  [/^(?:distribute|space\s+out)\s+(?:the\s+)?(.+?)(?:\s+(horizontally|vertically))?$/i, (m) => ['distributeComponents', { components: list(m[1]), axis: m[2] && (/^h/i.test(m[2]) ? 'horizontal' : 'vertical') }]],
+  [/^make\s+(?:the\s+)?(.+?)\s+the\s+same\s+(width|height|size)$/i, (m) => ['matchSize', { components: list(m[1]), dimension: /^size$/i.test(m[2]) ? 'both' : m[2].toLowerCase() }]],
+  [/^snap\s+(?:(.+?)\s+)?to\s+(?:the\s+)?grid$/i, (m) => ['snapToGrid', { components: scope(m[1]) && list(m[1]) }]],
+  [/^(?:remove\s+(?:the\s+)?overlaps|declutter)(?:\s+in)?(?:\s+(?:the\s+)?(.+?))?$/i, (m) => ['layoutDiagram', { algorithm: 'declutter', scope: scope(m[1]) }]],
+  [/^(?:auto-?layout|layout|lay\s+out|arrange|tidy\s+up)(?:\s+(?:the\s+)?(.+?))?(?:\s+as\s+(?:a\s+)?(layered|grid|compact))?$/i, (m) => ['layoutDiagram', { algorithm: (m[2] || 'layered').toLowerCase(), scope: scope(m[1]) }]],
+  [/^group\s+(?:the\s+)?(.+?)\s+(?:into|as)\s+(?:a\s+)?(?:(?:group|container)\s+(?:called|named)\s+)?['"]?(.+?)['"]?$/i, (m) => ['groupComponents', { components: list(m[1]), name: m[2] }]],
+  [/^group\s+(?:the\s+)?(.+?)(?:\s+together)?$/i, (m) => ['groupComponents', { components: list(m[1]) }]],
+  [/^ungroup\s+(?:the\s+)?(.+)$/i, (m) => ['ungroupComponent', { component: m[1] }]],
+  [/^(?:move|take)\s+(?:the\s+)?(.+?)\s+out(?:\s+of\s+(?:the\s+)?(.+))?$/i, (m) => ['moveComponents', { components: list(m[1]), outOf: m[2] }]],
+  [/^(?:move|put)\s+(?:the\s+)?(.+?)\s+(?:into|inside)\s+(?:the\s+)?(.+)$/i, (m) => ['moveComponents', { components: list(m[1]), into: m[2] }]],
+  [/^(?:remove|delete)\s+(?:the\s+)?(?:arrow|connection|line|wire)s?\s+between\s+(.+?)\s+and\s+(.+)$/i, (m) => ['removeConnections', { from: m[1], to: m[2] }]],
+  [/^disconnect\s+(.+?)\s+(?:from|and)\s+(.+)$/i, (m) => ['removeConnections', { from: m[1], to: m[2] }]],
+  [/^(?:remove|delete)\s+(?:all\s+)?(?:the\s+)?(?:arrows|connections|lines|wires)$/i, () => ['removeConnections', {}]],
+  [/^add\s+(?:a\s+)?(?:bidirectional|two-way)\s+(?:link|connection|arrow)\s+between\s+(.+?)\s+and\s+(.+)$/i, (m) => ['connectComponents', { from: m[1], to: m[2], bidirectional: true }]],
+  [/^route\s+(.+?)\s+from\s+(.+?)\s+to\s+(.+?)(?:\s+with\s+label\s+['"]?(.+?)['"]?)?$/i, (m) => ['connectComponents', { from: m[2], to: m[3], label: m[4] || m[1] }]],
+  [/^(?:connect|link)\s+(.+?)\s+(?:to|and|with)\s+(.+?)(?:\s+with\s+label\s+['"]?(.+?)['"]?)?$/i, (m) => ['connectComponents', { from: m[1], to: m[2], label: m[3] }]],
+  [/^(?:remove|delete)\s+(?:the\s+)?(.+?)(?:\s+(?:block|component))?$/i, (m) => ['removeComponent', { component: m[1] }]],
+  [/^(?:rename|change|replace)\s+(?:the\s+)?(.+?)\s+(?:to|with)\s+(.+)$/i, (m) => ['renameComponent', { from: m[1], to: m[2] }]],
+  [/^(?:resize|make)\s+(.+?)\s+(?:to\s+)?(\d+)$/i, (m) => ['setSize', { component: m[1], size: Number(m[2]) }]],
+  [/^(?:make|color|colour)\s+(.+?)\s+(red|blue|green|yellow|orange|purple|pink|gray|#[0-9a-f]{6})$/i, (m) => ['setColor', { component: m[1], color: m[2] }]],
+  [/^add\s+(?:a\s+|an\s+)?(.+?)\s+(?:to\s+the\s+)?(right|left|above|below|inside)(?:\s+of)?\s+(?:the\s+)?(.+?)(?:\s+and\s+connect\s+it\s+to\s+(.+))?$/i, (m) => ['addComponent', { name: m[1], position: m[2].toLowerCase(), relativeTo: m[3], connectTo: m[4] }]],
+  [/^add\s+(?:a\s+|an\s+)?(.+?)\s+and\s+connect\s+it\s+to\s+(.+)$/i, (m) => ['addComponent', { name: m[1], connectTo: m[2] }]],
+  [/^add\s+(?:a\s+|an\s+)?(.+?)(?:\s+(?:block|component))?$/i, (m) => ['addComponent', { name: m[1] }]],
+];
+
+const plan = (prompt) => {
+  const command = prompt.trim().replace(/[.!?]+$/, '');
+  for (const [pattern, build] of RULES) {
+    const match = command.match(pattern);
+    if (match) return build(match);
+  }
+  return null;
+};
+
+const lastUserMessage = (messages = []) =>
+  [...messages].reverse().find((message) => message.role === 'user')?.content || '';
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+
+const send = (response, status, payload) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  response.end(JSON.stringify(payload));
+};
+
+const server = createServer(async (request, response) => {
+  if (request.method === 'OPTIONS') return send(response, 204, {});
+  if (request.method !== 'POST') return send(response, 404, { error: 'not found' });
+
+  let body;
+  try {
+    body = await readBody(request);
+  } catch {
+    return send(response, 400, { error: 'invalid JSON' });
+  }
+
+  const call = plan(lastUserMessage(body.messages));
+  const content = call ? '' : "I can't map that to a diagram edit.";
+  console.log(`${request.url} ${JSON.stringify(lastUserMessage(body.messages))} -> ${call ? call[0] : 'reply'}`);
+
+  if (request.url === '/v1/chat/completions' || request.url === '/chat/completions') {
+    return send(response, 200, {
+      id: 'mock-completion',
+      object: 'chat.completion',
+      model: body.model,
+      choices: [{
+        index: 0,
+        finish_reason: call ? 'tool_calls' : 'stop',
+        message: {
+          role: 'assistant',
+          content,
+          tool_calls: call ? [{ id: 'call_0', type: 'function', function: { name: call[0], arguments: JSON.stringify(call[1]) } }] : undefined,
+        },
+      }],
+    });
+  }
+
+  if (request.url === '/api/chat') {
+    return send(response, 200, {
+      model: body.model,
+      done: true,
+      message: { role: 'assistant', content, tool_calls: call ? [{ function: { name: call[0], arguments: call[1] } }] : undefined },
+    });
+  }
+
+  return send(response, 404, { error: 'not found' });
+});
+
+server.listen(PORT, () => console.log(`Mock LLM server listening on http://localhost:${PORT}`));
@@ -1,30 +1,247 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FileUploader } from "./FileUploader";
 import { ArchitectureViewer } from "./ArchitectureViewer";
 import { ChatInterface } from "./ChatInterface";
 import { XmlEditor } from "./XmlEditor";
-import { Upload, MessageSquare, FileText, Image } from "lucide-react";
+import { HistoryPanel } from "./HistoryPanel";
+import { InspectorPanel } from "./InspectorPanel";
+import { MergeDialog } from "./MergeDialog";
+import type { PageSwitcherProps } from "./PageSwitcher";
+import { Upload, MessageSquare, FileText, Image, History, SlidersHorizontal } from "lucide-react";
+import { toast } from "sonner";
+import { useDiagramHistory, type HistoryEntry } from "@/hooks/use-diagram-history";
+import { inflateDiagramXml } from "@/lib/diagram/compression";
+import { applyPatch, PatchError, type DiagramPatch } from "@/lib/diagram/patch";
+import { buildDiagramContext } from "@/lib/assistant/context";
+import { describeArrangeAction, type ArrangeAction } from "@/lib/diagram/arrange";
+import { arrangeComponents, layoutComponents } from "@/lib/diagram/edits";
+import { LAYOUT_ALGORITHMS, type LayoutAlgorithm } from "@/lib/diagram/layout";
+import { getCells, parseDiagram, type DiagramCell } from "@/lib/diagram/model";
+import {
+  addPage,
+  deletePage,
+  duplicatePage,
+  getPageXml,
+  listPages,
+  renamePage,
+  setPageXml,
+} from "@/lib/diagram/pages";
 
 interface UploadedFiles {
   image?: File;
   xml?: File;
 }
 
+const pageXmlAt = (entry: HistoryEntry | undefined, pageId: string): string | undefined => {
+  if (!entry) return undefined;
+  try {
+    return listPages(entry.xml).some((page) => page.id === pageId) ? getPageXml(entry.xml, pageId) : undefined;
+  } catch (error) {
+    console.error('Failed to read an earlier version:', error);
+    return undefined;
+  }
+};
+
 export const ArchitectureChatbot = () => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFiles>({});
-  const [xmlContent, setXmlContent] = useState<string>("");
+  const history = useDiagramHistory();
+  const xmlContent = history.xml;
+  const [isCompressedSource, setIsCompressedSource] = useState(false);
+  const [activePageId, setActivePageId] = useState<string>("");
+  // Blocks chat wants pointed out, e.g. while asking which one a name meant.
+  const [highlight, setHighlight] = useState<{ pageId: string; ids: string[] }>({ pageId: "", ids: [] });
+  // Cells picked in the viewer or the XML editor, which chat's "this" and
+  // "these" and the layout and arrange toolbars work on.
+  const [selection, setSelection] = useState<{ pageId: string; ids: string[] }>({ pageId: "", ids: [] });
+
+  const pages = useMemo(() => listPages(xmlContent), [xmlContent]);
+  const currentPageId = pages.some((page) => page.id === activePageId) ? activePageId : pages[0]?.id || "";
+
+  // The viewer and editor work on the active page's model; chat gets the
+  // whole file so it can target other pages by name.
+  const pageXml = useMemo(() => {
+    if (!xmlContent || pages.length === 0) return xmlContent;
+    try {
+      return getPageXml(xmlContent, currentPageId);
+    } catch (error) {
+      console.error('Failed to read page:', error);
+      return xmlContent;
+    }
+  }, [xmlContent, pages, currentPageId]);
+
+  // The same page in earlier versions, for the viewer's change overlay.
+  const originalPageXml = useMemo(() => pageXmlAt(history.entries[0], currentPageId), [history.entries, currentPageId]);
+  const previousPageXml = useMemo(
+    () => pageXmlAt(history.entries[history.index - 1], currentPageId),
+    [history.entries, history.index, currentPageId],
+  );
+
+  // Chat, the XML editor and the inspector change pages through patches.
+  const applyPagePatch = (pageId: string, patch: DiagramPatch): boolean => {
+    try {
+      const before = getPageXml(xmlContent, pageId);
+      history.record(setPageXml(xmlContent, pageId, applyPatch(before, patch)), patch.source, patch.summary, pageId);
+      return true;
+    } catch (error) {
+      console.error('Failed to apply patch:', error, patch);
+      toast.error(error instanceof PatchError ? error.message : "The change could not be applied to this page");
+      return false;
+    }
+  };
+
+  // Blocks and connections on the page, the only cells that can be selected.
+  const pageCells = useMemo(() => {
+    if (!pageXml) return new Map<string, DiagramCell>();
+    try {
+      return new Map(getCells(parseDiagram(pageXml)).filter((cell) => cell.vertex || cell.edge).map((cell) => [cell.id, cell]));
+    } catch (error) {
+      console.error('Failed to read page cells:', error);
+      return new Map<string, DiagramCell>();
+    }
+  }, [pageXml]);
+
+  // Cells an edit removed drop out of the selection.
+  const selectedIds = useMemo(
+    () => (selection.pageId === currentPageId ? selection.ids.filter((id) => pageCells.has(id)) : []),
+    [selection, currentPageId, pageCells],
+  );
+  const selectedBlocks = selectedIds.filter((id) => pageCells.get(id)!.vertex);
+  const handleSelect = (ids: string[]) => setSelection({ pageId: currentPageId, ids: ids.filter((id) => pageCells.has(id)) });
+
+  const handleLayout = (algorithm: LayoutAlgorithm) => {
+    const scope = selectedBlocks.length > 0 ? { name: 'selection', ids: selectedBlocks } : undefined;
+    const plan = layoutComponents(pageXml, algorithm, scope);
+    if (!plan.success) {
+      toast.info(plan.message);
+      return;
+    }
+    const summary = `${LAYOUT_ALGORITHMS[algorithm].label} layout`;
+    if (applyPagePatch(currentPageId, { source: 'editor', summary, operations: plan.operations })) {
+      toast.success(plan.message);
+    }
+  };
+
+  const pageComponents = useMemo(() => {
+    if (!pageXml) return [];
+    try {
+      return buildDiagramContext(pageXml).components;
+    } catch (error) {
+      console.error('Failed to list components:', error);
+      return [];
+    }
+  }, [pageXml]);
+
+  // Selected blocks without a label can be arranged too, by id.
+  const arrangeableComponents = [
+    ...pageComponents,
+    ...selectedBlocks.filter((id) => !pageComponents.some((component) => component.id === id)).map((id) => ({ id, name: id })),
+  ];
+
+  const handleArrange = (action: ArrangeAction, ids: string[]) => {
+    const refs = ids.map((id) => ({ name: pageComponents.find((component) => component.id === id)?.name ?? id, ids: [id] }));
+    const plan = arrangeComponents(pageXml, action, refs);
+    if (!plan.success) {
+      toast.info(plan.message);
+      return;
+    }
+    if (applyPagePatch(currentPageId, { source: 'editor', summary: describeArrangeAction(action), operations: plan.operations })) {
+      toast.success(plan.message);
+    }
+  };
+
+  const pageName = (pageId: string) => pages.find((page) => page.id === pageId)?.name || pageId;
+
+  const runPageOperation = (summary: string, operation: () => string | { xml: string; pageId: string }) => {
+    try {
+      const result = operation();
+      if (typeof result === 'string') {
+        history.record(result, 'pages', summary);
+      } else {
+        history.record(result.xml, 'pages', summary, result.pageId);
+        setActivePageId(result.pageId);
+      }
+    } catch (error) {
+      console.error('Page operation failed:', error);
+      toast.error(error instanceof Error ? error.message : "Page operation failed");
+    }
+  };
+
+  const pageSwitcher: PageSwitcherProps | undefined = xmlContent && pages.length > 0 ? {
+    pages,
+    activePageId: currentPageId,
+    onSelect: setActivePageId,
+    onAdd: (name) => runPageOperation(`Added page "${name}"`, () => addPage(xmlContent, name)),
+    onRename: (pageId, name) => runPageOperation(`Renamed page to "${name}"`, () => renamePage(xmlContent, pageId, name)),
+    onDuplicate: (pageId) => runPageOperation(`Duplicated page "${pageName(pageId)}"`, () => duplicatePage(xmlContent, pageId)),
+    onDelete: (pageId) => runPageOperation(`Deleted page "${pageName(pageId)}"`, () => deletePage(xmlContent, pageId)),
+  } : undefined;
+
+  // Shows the page a restored change was made on, if it still exists.
+  const revealEntry = (entry: HistoryEntry | undefined) => {
+    if (entry?.pageId) setActivePageId(entry.pageId);
+  };
+
+  const handleUndo = () => {
+    const entry = history.undo();
+    if (!entry) return;
+    revealEntry(entry);
+    toast.info(`Undid: ${entry.summary}`);
+  };
+
+  const handleRedo = () => {
+    const entry = history.redo();
+    if (!entry) return;
+    revealEntry(entry);
+    toast.info(`Redid: ${entry.summary}`);
+  };
+
+  // Text fields keep their own undo; everywhere else Ctrl+Z steps through
+  // diagram versions.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
   const handleFilesUploaded = (files: UploadedFiles) => {
     setUploadedFiles(files);
     if (files.xml) {
+      const file = files.xml;
       const reader = new FileReader();
       reader.onload = (e) => {
         const content = e.target?.result as string;
-        setXmlContent(content);
+        // diagrams.net often saves pages compressed; inflate them so the
+        // editor, renderer and chat all work on plain mxGraphModel XML.
+        setActivePageId("");
+        try {
+          const { xml, compressed } = inflateDiagramXml(content);
+          history.reset(xml, `Uploaded ${file.name}`);
+          setIsCompressedSource(compressed);
+          if (compressed) {
+            toast.info("Decompressed draw.io pages for editing");
+          }
+        } catch (error) {
+          console.error('Failed to decompress diagram:', error);
+          history.reset(content, `Uploaded ${file.name}`);
+          setIsCompressedSource(false);
+        }
       };
-      reader.readAsText(files.xml);
+      reader.readAsText(file);
     }
   };
 
@@ -67,16 +284,27 @@ export const ArchitectureChatbot = () => {
             <TabsContent value="viewer" className="flex-1 p-4">
               <ArchitectureViewer 
                 imageFile={uploadedFiles.image}
-                xmlContent={xmlContent}
+                xmlContent={pageXml}
+                fileContent={xmlContent}
+                pageSwitcher={pageSwitcher}
+                originalXml={originalPageXml}
+                previousXml={previousPageXml}
+                onLayout={xmlContent ? handleLayout : undefined}
+                components={arrangeableComponents}
+                onArrange={xmlContent ? handleArrange : undefined}
+                highlightIds={highlight.pageId === currentPageId ? highlight.ids : []}
+                selectedIds={selectedIds}
+                selectedBlocks={selectedBlocks}
+                onSelect={xmlContent ? handleSelect : undefined}
               />
             </TabsContent>
           </Tabs>
         </Card>
 
-        {/* Right Panel - Chat & XML Editor */}
+        {/* Right Panel - Chat, XML Editor & Inspector */}
         <Card className="bg-gradient-card border-border/50 flex flex-col">
           <Tabs defaultValue="chat" className="flex-1 flex flex-col">
-            <TabsList className="grid w-full grid-cols-2 bg-secondary/50">
+            <TabsList className="grid w-full grid-cols-4 bg-secondary/50">
               <TabsTrigger value="chat" className="flex items-center gap-2">
                 <MessageSquare className="w-4 h-4" />
                 Chat
@@ -85,20 +313,65 @@ export const ArchitectureChatbot = () => {
                 <FileText className="w-4 h-4" />
                 XML Code
               </TabsTrigger>
+              <TabsTrigger value="inspector" className="flex items-center gap-2">
+                <SlidersHorizontal className="w-4 h-4" />
+                Inspector
+              </TabsTrigger>
+              <TabsTrigger value="history" className="flex items-center gap-2">
+                <History className="w-4 h-4" />
+                History
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="chat" className="flex-1 p-4">
               <ChatInterface 
                 hasFiles={hasFiles}
                 xmlContent={xmlContent}
-                onXmlUpdate={setXmlContent}
+                activePageId={currentPageId}
+                onApplyPatch={applyPagePatch}
+                onHighlight={(pageId, ids) => setHighlight({ pageId, ids })}
+                selectedIds={selectedIds}
               />
             </TabsContent>
             
             <TabsContent value="xml" className="flex-1 p-4">
               <XmlEditor 
-                content={xmlContent}
-                onChange={setXmlContent}
+                content={pageXml}
+                pageId={currentPageId}
+                fileContent={xmlContent}
+                onApplyPatch={applyPagePatch}
+                pageSwitcher={pageSwitcher}
+                defaultCompressed={isCompressedSource}
+                selectedIds={selectedIds}
+                onSelect={handleSelect}
+              />
+            </TabsContent>
+
+            <TabsContent value="inspector" className="flex-1 p-4">
+              <InspectorPanel
+                xml={pageXml}
+                selectedIds={selectedIds}
+                onSelect={handleSelect}
+                onApplyPatch={(patch) => applyPagePatch(currentPageId, patch)}
+              />
+            </TabsContent>
+
+            <TabsContent value="history" className="flex-1 p-4">
+              <HistoryPanel
+                entries={history.entries}
+                index={history.index}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onJump={(index) => revealEntry(history.jumpTo(index))}
+                actions={
+                  <MergeDialog
+                    current={xmlContent}
+                    uploaded={history.entries[0]?.xml}
+                    onMerge={(xml, summary) => history.record(xml, 'merge', summary)}
+                  />
+                }
               />
             </TabsContent>
           </Tabs>
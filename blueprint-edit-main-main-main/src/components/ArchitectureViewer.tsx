@@ -1,29 +1,109 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ZoomIn, ZoomOut, RotateCcw, Download } from "lucide-react";
+import { ZoomIn, ZoomOut, RotateCcw, Download, WifiOff, GitCompare, MousePointer2 } from "lucide-react";
+import { useLocalStorage } from "@/hooks/use-local-storage";
 import sampleArchitecture from "@/assets/sample-architecture.png";
+import { diffCells, type CellChange } from "@/lib/diagram/diff";
+import { DiagramCanvas, type CanvasMark } from "./DiagramCanvas";
 import { DiagramViewer } from "./DiagramViewer";
+import { ChangeLegend, ChangeList, DiagramDiffView } from "./DiagramDiff";
+import { PageSwitcher, type PageSwitcherProps } from "./PageSwitcher";
+import { LayoutMenu } from "./LayoutMenu";
+import { ArrangeMenu } from "./ArrangeMenu";
+import type { ArrangeAction } from "@/lib/diagram/arrange";
+import type { LayoutAlgorithm } from "@/lib/diagram/layout";
+
+type ViewMode = 'original' | 'updated' | 'changes';
+type Baseline = 'upload' | 'previous';
 interface ArchitectureViewerProps {
   imageFile?: File;
+  // The active page's model, which is what gets rendered.
   xmlContent?: string;
+  // The whole file including every page, used for downloads.
+  fileContent?: string;
+  pageSwitcher?: PageSwitcherProps;
+  // The active page as uploaded and before the latest change; undefined when
+  // the page did not exist yet.
+  originalXml?: string;
+  previousXml?: string;
+  // Rearranges the active page; the layout toolbar is hidden without it.
+  onLayout?: (algorithm: LayoutAlgorithm) => void;
+  // Blocks on the active page the arrange toolbar can pick from.
+  components?: Array<{ id: string; name: string }>;
+  onArrange?: (action: ArrangeAction, ids: string[]) => void;
+  // Outlined on the local rendering, e.g. candidates chat is asking about.
+  highlightIds?: string[];
+  // Cells picked on the updated diagram; `selectedBlocks` is the vertices
+  // among them, which the layout and arrange toolbars work on.
+  selectedIds?: string[];
+  selectedBlocks?: string[];
+  onSelect?: (ids: string[]) => void;
 }
 
-export const ArchitectureViewer = ({ imageFile, xmlContent }: ArchitectureViewerProps) => {
+export const ArchitectureViewer = ({
+  imageFile,
+  xmlContent,
+  fileContent,
+  pageSwitcher,
+  originalXml,
+  previousXml,
+  onLayout,
+  components = [],
+  onArrange,
+  highlightIds = [],
+  selectedIds = [],
+  selectedBlocks = [],
+  onSelect,
+}: ArchitectureViewerProps) => {
   const [imageUrl, setImageUrl] = useState<string>(sampleArchitecture);
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [isShowingUpdate, setIsShowingUpdate] = useState(false);
+  const [view, setView] = useState<ViewMode>('original');
+  const [baseline, setBaseline] = useState<Baseline>('upload');
+  const isShowingUpdate = view !== 'original';
+  const setIsShowingUpdate = (updated: boolean) => setView(updated ? 'updated' : 'original');
+  // Air-gapped installs can default this on with VITE_OFFLINE_RENDERING=true.
+  const [offlineRendering, setOfflineRendering] = useLocalStorage(
+    'architecture-viewer.offline-rendering',
+    import.meta.env.VITE_OFFLINE_RENDERING === 'true'
+  );
 
   // Switch to XML view when XML content changes
   useEffect(() => {
     if (xmlContent) {
-      setIsShowingUpdate(true);
+      setView((current) => (current === 'original' ? 'updated' : current));
     }
   }, [xmlContent]);
 
+  const highlightMarks = useMemo<CanvasMark[]>(
+    () => highlightIds.map((id) => ({ id, color: '#f59e0b', title: 'Is this the one you meant?' })),
+    [highlightIds],
+  );
+  const isHighlighting = highlightMarks.length > 0;
+  // Picking cells needs the local rendering; a selection made in the XML
+  // editor switches to it as well.
+  const [selectMode, setSelectMode] = useState(false);
+  const isSelecting = !!onSelect && (selectMode || selectedIds.length > 0);
+
+  // Highlights and the selection are drawn on the updated diagram, so bring it up.
+  useEffect(() => {
+    if (isHighlighting || isSelecting) setView('updated');
+  }, [isHighlighting, isSelecting]);
+
+  const baselineXml = baseline === 'upload' ? originalXml : previousXml;
+  const changes = useMemo<CellChange[] | null>(() => {
+    if (!xmlContent || !baselineXml) return null;
+    try {
+      return diffCells(baselineXml, xmlContent);
+    } catch (error) {
+      console.error('Failed to compare diagram versions:', error);
+      return null;
+    }
+  }, [baselineXml, xmlContent]);
+
   useEffect(() => {
     if (imageFile) {
       const url = URL.createObjectURL(imageFile);
@@ -59,7 +139,7 @@ export const ArchitectureViewer = ({ imageFile, xmlContent }: ArchitectureViewer
   const downloadImage = () => {
     if (isShowingUpdate && xmlContent) {
       // For updated version, trigger download of XML
-      const blob = new Blob([xmlContent], { type: 'application/xml' });
+      const blob = new Blob([fileContent || xmlContent], { type: 'application/xml' });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
@@ -99,6 +179,39 @@ export const ArchitectureViewer = ({ imageFile, xmlContent }: ArchitectureViewer
         </div>
         
         <div className="flex items-center gap-2">
+          {pageSwitcher && <PageSwitcher {...pageSwitcher} />}
+          {onSelect && (
+            <Button
+              variant={isSelecting ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => {
+                if (isSelecting) onSelect([]);
+                setSelectMode(!isSelecting);
+              }}
+              disabled={!xmlContent}
+              title={isSelecting ? 'Stop selecting and clear the selection' : 'Select blocks and connections on the diagram'}
+            >
+              <MousePointer2 className="w-4 h-4" />
+            </Button>
+          )}
+          {onLayout && <LayoutMenu onLayout={onLayout} selectedCount={selectedBlocks.length} disabled={!xmlContent} />}
+          {onArrange && (
+            <ArrangeMenu
+              components={components}
+              selected={selectedBlocks}
+              onSelectedChange={(ids) => onSelect?.(ids)}
+              onArrange={onArrange}
+              disabled={!xmlContent}
+            />
+          )}
+          <Button
+            variant={offlineRendering ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setOfflineRendering(prev => !prev)}
+            title={offlineRendering ? 'Rendering locally; click to allow the diagrams.net viewer' : 'Render locally without contacting diagrams.net'}
+          >
+            <WifiOff className="w-4 h-4" />
+          </Button>
           {xmlContent && (
             <div className="flex items-center gap-1 mr-2">
               <Button
@@ -109,12 +222,20 @@ export const ArchitectureViewer = ({ imageFile, xmlContent }: ArchitectureViewer
                 Original
               </Button>
               <Button
-                variant={isShowingUpdate ? 'secondary' : 'outline'}
+                variant={view === 'updated' ? 'secondary' : 'outline'}
                 size="sm"
                 onClick={() => setIsShowingUpdate(true)}
               >
                 Updated
               </Button>
+              <Button
+                variant={view === 'changes' ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setView('changes')}
+              >
+                <GitCompare className="w-4 h-4 mr-1" />
+                Changes
+              </Button>
             </div>
           )}
           <Button variant="outline" size="sm" onClick={downloadImage}>
@@ -152,13 +273,23 @@ export const ArchitectureViewer = ({ imageFile, xmlContent }: ArchitectureViewer
           {/* Updated Diagram Layer */}
           <div
             className={`absolute inset-0 transition-opacity duration-300 ${
-              isShowingUpdate ? 'opacity-100' : 'opacity-0 pointer-events-none'
+              view === 'updated' ? 'opacity-100' : 'opacity-0 pointer-events-none'
             }`}
           >
-            {xmlContent ? (
+            {xmlContent && (isHighlighting || isSelecting) ? (
+              // The remote viewer cannot draw marks or report clicks, so these are always local.
+              <DiagramCanvas
+                xml={xmlContent}
+                marks={highlightMarks}
+                selectedIds={isSelecting ? selectedIds : undefined}
+                onSelect={isSelecting ? onSelect : undefined}
+                className="bg-white rounded-lg shadow-xl"
+              />
+            ) : xmlContent ? (
               <DiagramViewer
                 key={xmlContent}
                 xml={xmlContent}
+                offline={offlineRendering}
                 className="w-full h-full bg-white rounded-lg shadow-xl"
               />
             ) : (
@@ -167,6 +298,26 @@ export const ArchitectureViewer = ({ imageFile, xmlContent }: ArchitectureViewer
               </div>
             )}
           </div>
+
+          {/* Changes Overlay Layer, always drawn locally */}
+          <div
+            className={`absolute inset-0 transition-opacity duration-300 ${
+              view === 'changes' ? 'opacity-100' : 'opacity-0 pointer-events-none'
+            }`}
+          >
+            {view === 'changes' && xmlContent && baselineXml && changes ? (
+              <DiagramDiffView
+                before={baselineXml}
+                after={xmlContent}
+                changes={changes}
+                className="bg-white rounded-lg shadow-xl"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center p-4 text-sm text-muted-foreground">
+                {baseline === 'upload' ? 'This page was not part of the uploaded file.' : 'There is no earlier version to compare with.'}
+              </div>
+            )}
+          </div>
         </div>
         
         {/* View Controls */}
@@ -185,13 +336,23 @@ export const ArchitectureViewer = ({ imageFile, xmlContent }: ArchitectureViewer
             <button
               onClick={() => setIsShowingUpdate(true)}
               className={`text-sm px-3 py-1 rounded-md transition-colors ${
-                isShowingUpdate 
+                view === 'updated'
                   ? 'bg-primary text-primary-foreground' 
                   : 'hover:bg-secondary'
               }`}
             >
               Updated
             </button>
+            <button
+              onClick={() => setView('changes')}
+              className={`text-sm px-3 py-1 rounded-md transition-colors ${
+                view === 'changes'
+                  ? 'bg-primary text-primary-foreground'
+                  : 'hover:bg-secondary'
+              }`}
+            >
+              Changes
+            </button>
           </div>
           <div className="bg-background/80 backdrop-blur-sm px-3 py-2 rounded-lg text-sm">
             {!isShowingUpdate ? (
@@ -200,6 +361,14 @@ export const ArchitectureViewer = ({ imageFile, xmlContent }: ArchitectureViewer
               ) : (
                 <span className="text-muted-foreground">Sample Architecture</span>
               )
+            ) : view === 'changes' ? (
+              <ChangeLegend changes={changes || []} />
+            ) : isHighlighting ? (
+              <span className="text-amber-500">{highlightMarks.length} block(s) highlighted</span>
+            ) : isSelecting ? (
+              <span className="text-blue-600" title="Shift or Ctrl-click to add or remove; Shift-drag to select an area">
+                {selectedIds.length} selected
+              </span>
             ) : (
               <span className="text-green-500">Viewing Updated Design</span>
             )}
@@ -217,16 +386,28 @@ export const ArchitectureViewer = ({ imageFile, xmlContent }: ArchitectureViewer
             </span>
           </div>
           
-          {/* Show if XML has been modified */}
-          {xmlContent.includes('CPU') && !imageFile?.name.includes('CPU') && (
-            <div className="p-2 bg-primary/10 border border-primary/20 rounded text-xs">
-              <div className="flex items-center gap-1 text-primary font-medium mb-1">
-                <span className="w-2 h-2 bg-primary rounded-full animate-pulse"></span>
-                XML Updated!
-              </div>
-              <p className="text-muted-foreground">
-                Changes made to XML code. To see visual updates, export the modified XML from draw.io or re-upload the updated diagram.
-              </p>
+          {/* What changed on this page, from the parsed models */}
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">
+              {!changes
+                ? 'No earlier version of this page'
+                : changes.length === 0
+                  ? `No changes ${baseline === 'upload' ? 'since the upload' : 'in the last edit'}`
+                  : `${changes.length} change(s) ${baseline === 'upload' ? 'since the upload' : 'in the last edit'}`}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button variant={baseline === 'upload' ? 'secondary' : 'outline'} size="sm" onClick={() => setBaseline('upload')}>
+                Since upload
+              </Button>
+              <Button variant={baseline === 'previous' ? 'secondary' : 'outline'} size="sm" onClick={() => setBaseline('previous')}>
+                Last edit
+              </Button>
+            </div>
+          </div>
+          {changes && changes.length > 0 && (
+            <div className="p-2 bg-primary/10 border border-primary/20 rounded space-y-2 max-h-40 overflow-auto">
+              <ChangeLegend changes={changes} />
+              <ChangeList changes={changes} />
             </div>
           )}
         </Card>
@@ -0,0 +1,102 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  Grid3x3,
+  Maximize2,
+  StretchHorizontal,
+  StretchVertical,
+  type LucideIcon,
+} from "lucide-react";
+import { describeArrangeAction, MINIMUM_CELLS, type ArrangeAction } from "@/lib/diagram/arrange";
+
+interface ArrangeMenuProps {
+  components: Array<{ id: string; name: string }>;
+  // The ticked blocks, shared with the viewer's selection.
+  selected: string[];
+  onSelectedChange: (ids: string[]) => void;
+  // `ids` is empty when snapping with nothing ticked, meaning every block.
+  onArrange: (action: ArrangeAction, ids: string[]) => void;
+  disabled?: boolean;
+}
+
+const ACTIONS: Array<{ action: ArrangeAction; icon: LucideIcon }> = [
+  { action: { kind: 'align', edge: 'left' }, icon: AlignStartVertical },
+  { action: { kind: 'align', edge: 'center' }, icon: AlignCenterVertical },
+  { action: { kind: 'align', edge: 'right' }, icon: AlignEndVertical },
+  { action: { kind: 'align', edge: 'top' }, icon: AlignStartHorizontal },
+  { action: { kind: 'align', edge: 'middle' }, icon: AlignCenterHorizontal },
+  { action: { kind: 'align', edge: 'bottom' }, icon: AlignEndHorizontal },
+  { action: { kind: 'distribute', axis: 'horizontal' }, icon: AlignHorizontalDistributeCenter },
+  { action: { kind: 'distribute', axis: 'vertical' }, icon: AlignVerticalDistributeCenter },
+  { action: { kind: 'matchSize', dimension: 'width' }, icon: StretchHorizontal },
+  { action: { kind: 'matchSize', dimension: 'height' }, icon: StretchVertical },
+  { action: { kind: 'matchSize', dimension: 'both' }, icon: Maximize2 },
+  { action: { kind: 'snap' }, icon: Grid3x3 },
+];
+
+export const ArrangeMenu = ({ components, selected: ids, onSelectedChange, onArrange, disabled }: ArrangeMenuProps) => {
+  const toggle = (id: string, checked: boolean) =>
+    onSelectedChange(checked ? [...ids.filter((other) => other !== id), id] : ids.filter((other) => other !== id));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} title="Align, distribute or resize blocks">
+          <AlignStartVertical className="w-4 h-4 mr-1" />
+          Arrange
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-3">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium">{ids.length} selected</span>
+          {ids.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onSelectedChange([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+        <ScrollArea className="h-40 rounded border border-border/50">
+          <div className="p-2 space-y-1">
+            {components.map((component) => (
+              <label key={component.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={ids.includes(component.id)} onCheckedChange={(checked) => toggle(component.id, checked === true)} />
+                <span className="truncate">{component.name}</span>
+              </label>
+            ))}
+            {components.length === 0 && <p className="text-xs text-muted-foreground">No named blocks on this page</p>}
+          </div>
+        </ScrollArea>
+        <div className="grid grid-cols-6 gap-1 mt-3">
+          {ACTIONS.map(({ action, icon: Icon }) => {
+            const usable = action.kind === 'snap' || ids.length >= MINIMUM_CELLS[action.kind];
+            const label = action.kind === 'snap' && ids.length === 0 ? 'Snap every block to grid' : describeArrangeAction(action);
+            return (
+              <Button
+                key={label}
+                variant="outline"
+                size="sm"
+                className="h-8 px-0"
+                disabled={!usable}
+                title={label}
+                aria-label={label}
+                onClick={() => onArrange(action, ids)}
+              >
+                <Icon className="w-4 h-4" />
+              </Button>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,129 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AlertTriangle, Check, Pencil, X } from "lucide-react";
+import { reviewPatch, type PatchReview } from "@/lib/assistant/review";
+import { describeOperation, PatchError, type DiagramPatch } from "@/lib/diagram/patch";
+import { DiagramCanvas } from "./DiagramCanvas";
+import { ChangeList, DiagramDiffView } from "./DiagramDiff";
+
+export type ProposalStatus = 'pending' | 'applied' | 'rejected' | 'expired';
+
+export interface Proposal {
+  pageId: string;
+  // Page XML the patch was planned against.
+  before: string;
+  patch: DiagramPatch;
+  status: ProposalStatus;
+}
+
+interface ChangeProposalProps {
+  proposal: Proposal;
+  onApply: (patch: DiagramPatch) => void;
+  onReject: () => void;
+}
+
+const STATUS_LABELS: Record<ProposalStatus, string> = {
+  pending: 'Awaiting review',
+  applied: 'Applied',
+  rejected: 'Rejected',
+  expired: 'Out of date',
+};
+
+export const ChangeProposal = ({ proposal, onApply, onReject }: ChangeProposalProps) => {
+  const { patch, before, status } = proposal;
+  const [isEditing, setIsEditing] = useState(false);
+  // Indexes of the operations the user kept.
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(patch.operations.map((_, index) => index)));
+  const isPending = status === 'pending';
+
+  const edited = useMemo<DiagramPatch>(
+    () => ({ ...patch, operations: patch.operations.filter((_, index) => selected.has(index)) }),
+    [patch, selected],
+  );
+
+  const review = useMemo<PatchReview | string>(() => {
+    try {
+      return reviewPatch(before, edited);
+    } catch (error) {
+      return error instanceof PatchError ? error.message : 'These operations cannot be applied together';
+    }
+  }, [before, edited]);
+
+  const toggle = (index: number) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="mt-3 space-y-3 border-t border-border/50 pt-3">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium uppercase tracking-wide opacity-70">Proposed change</span>
+        <Badge variant={isPending ? 'default' : 'secondary'} className="ml-auto">{STATUS_LABELS[status]}</Badge>
+      </div>
+
+      <ol className="space-y-1 text-xs">
+        {patch.operations.map((operation, index) => (
+          <li key={index} className={`flex items-center gap-2 ${selected.has(index) ? '' : 'line-through opacity-50'}`}>
+            {isEditing && <Checkbox checked={selected.has(index)} onCheckedChange={() => toggle(index)} />}
+            <span className="font-mono">{describeOperation(operation)}</span>
+          </li>
+        ))}
+      </ol>
+
+      {typeof review === 'string' ? (
+        <p className="text-xs text-destructive">{review}</p>
+      ) : (
+        <>
+          {review.cascaded.length > 0 && (
+            <div className="flex gap-2 rounded-md border border-destructive/20 bg-destructive/10 p-2 text-xs text-destructive">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>
+                Also removes {review.cascaded.length} attached cell(s): {review.cascaded.map((change) => change.name).join(', ')}
+              </span>
+            </div>
+          )}
+
+          <ChangeList changes={review.changes} />
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="rounded-md border border-border/50 bg-background">
+              <span className="block px-2 pt-1 text-xs opacity-70">Before</span>
+              <div className="h-40">
+                <DiagramCanvas xml={before} />
+              </div>
+            </div>
+            <div className="rounded-md border border-border/50 bg-background">
+              <span className="block px-2 pt-1 text-xs opacity-70">After</span>
+              <div className="h-40">
+                <DiagramDiffView before={before} after={review.after} changes={review.changes} />
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      {isPending && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => onApply(edited)} disabled={typeof review === 'string' || edited.operations.length === 0}>
+            <Check className="w-4 h-4 mr-1" />
+            Apply
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setIsEditing(!isEditing)}>
+            <Pencil className="w-4 h-4 mr-1" />
+            {isEditing ? 'Done' : 'Edit'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onReject}>
+            <X className="w-4 h-4 mr-1" />
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
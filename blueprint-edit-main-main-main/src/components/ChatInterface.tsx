@@ -1,25 +1,48 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Send, Bot, User, Zap } from "lucide-react";
 import { toast } from "sonner";
+import { findPageByName, getPageXml, parsePageDirective } from "@/lib/diagram/pages";
+import { getCellDisplayName } from "@/lib/diagram/labels";
+import { planEditOperations, withChoice } from "@/lib/assistant/operations";
+import type { DiagramPatch } from "@/lib/diagram/patch";
+import { askAssistant, createAssistantProvider } from "@/lib/assistant/providers";
+import { reviewPatch } from "@/lib/assistant/review";
+import { getVertices, parseDiagram } from "@/lib/diagram/model";
+import { ChangeProposal, type Proposal, type ProposalStatus } from "./ChangeProposal";
+import { ClarifyingQuestion, type Clarification, type ClarificationStatus } from "./ClarifyingQuestion";
 
 interface Message {
   id: string;
   type: 'user' | 'ai';
   content: string;
   timestamp: Date;
+  // Set when the reply is a change waiting for the user's approval.
+  proposal?: Proposal;
+  // Set when the reply asks which block a name meant.
+  clarification?: Clarification;
 }
 
 interface ChatInterfaceProps {
   hasFiles: boolean;
   xmlContent: string;
-  onXmlUpdate: (content: string) => void;
+  // Commands apply to this page unless the message names another one.
+  activePageId: string;
+  // Returns false when the patch could not be applied.
+  onApplyPatch: (pageId: string, patch: DiagramPatch) => boolean;
+  // Blocks to point out on a page, e.g. the candidates for an ambiguous name;
+  // empty to clear.
+  onHighlight?: (pageId: string, ids: string[]) => void;
+  // Cells selected on the active page; "this" and "these" refer to them.
+  selectedIds?: string[];
 }
 
-export const ChatInterface = ({ hasFiles, xmlContent, onXmlUpdate }: ChatInterfaceProps) => {
+export const ChatInterface = ({ hasFiles, xmlContent, activePageId, onApplyPatch, onHighlight, selectedIds = [] }: ChatInterfaceProps) => {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -30,7 +53,15 @@ export const ChatInterface = ({ hasFiles, xmlContent, onXmlUpdate }: ChatInterfa
   ]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Lasts for this session only; removals and restructuring always wait for review.
+  const [autoApplySafe, setAutoApplySafe] = useState(false);
+  const provider = useMemo(() => createAssistantProvider(), []);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  // A reply can take a while to arrive, and the page may be edited meanwhile
+  // in the editor, the inspector or by undo; it is planned and applied
+  // against the file as it is then, not as it was when the message was sent.
+  const latest = useRef({ xmlContent, onApplyPatch });
+  latest.current = { xmlContent, onApplyPatch };
 
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -57,362 +88,191 @@ export const ChatInterface = ({ hasFiles, xmlContent, onXmlUpdate }: ChatInterfa
     setInputValue('');
     setIsLoading(true);
 
-    // Process AI request and make actual changes
-    setTimeout(() => {
-      let actualChanges: string[] = [];
-      let modifiedXml = xmlContent;
-
-      // Make actual XML changes if content exists
-      if (xmlContent) {
-        // Ensure XML is properly formatted for draw.io
-        if (!xmlContent.includes('mxGraphModel')) {
-          toast.error("The uploaded file doesn't seem to be a valid draw.io diagram");
-          setIsLoading(false);
-          return;
-        }
-        const result = makeActualXmlChanges(inputValue, xmlContent);
-        modifiedXml = result.modifiedXml;
-        actualChanges = result.changes;
-
-        console.log('AI Processing:', {
-          input: inputValue,
-          changes: actualChanges,
-          xmlLength: xmlContent.length,
-          modifiedLength: modifiedXml.length
-        });
-
-        // Update XML content if changes were made
-        if (actualChanges.length > 0) {
-          onXmlUpdate(modifiedXml);
-          toast.success(`✅ XML Updated! Made ${actualChanges.length} change(s). Check the XML Code tab to see changes.`);
-        } else {
-          console.log('No changes made. Input may not match patterns.');
-        }
-      }
-
-      const aiResponse: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'ai',
-        content: generateAIResponse(inputValue, xmlContent, actualChanges),
-        timestamp: new Date()
-      };
-
-      setMessages(prev => [...prev, aiResponse]);
-      setIsLoading(false);
-    }, 1500);
-  };
-
-  const makeActualXmlChanges = (userInput: string, xml: string): { modifiedXml: string; changes: string[] } => {
-    const lowerInput = userInput.toLowerCase();
-    let modifiedXml = xml;
-    const changes: string[] = [];
+    const { pageName, command } = parsePageDirective(inputValue);
+    let aiResponse: Message | undefined;
 
-    // Dynamic AI-powered XML modification system
-    try {
-      // 1. COMPONENT REMOVAL - Remove blocks/components
-      const removePatterns = [
-        /remove\s+(?:the\s+)?(\w+)(?:\s+block|\s+component)?/i,
-        /delete\s+(?:the\s+)?(\w+)(?:\s+block|\s+component)?/i,
-        /take\s+out\s+(?:the\s+)?(\w+)/i,
-        /eliminate\s+(?:the\s+)?(\w+)/i
-      ];
-
-      for (const pattern of removePatterns) {
-        const match = userInput.match(pattern);
-        if (match) {
-          const componentToRemove = match[1];
-          const result = removeComponent(modifiedXml, componentToRemove);
-          if (result.success) {
-            modifiedXml = result.xml;
-            changes.push(`Removed ${componentToRemove.toUpperCase()} component and its connections`);
-            return { modifiedXml, changes };
-          }
-        }
+    if (xmlContent) {
+      // Ensure XML is properly formatted for draw.io
+      if (!xmlContent.includes('mxGraphModel')) {
+        toast.error("The uploaded file doesn't seem to be a valid draw.io diagram");
+        setIsLoading(false);
+        return;
       }
 
-      // 2. COMPONENT RENAMING/REPLACEMENT - Dynamic pattern matching
-      const changePatterns = [
-        /(?:change|rename|replace|convert|switch|update|make|turn)\s+(?:the\s+)?(\w+)(?:\s+(?:to|as|into|with|by))\s+(?:a\s+|an\s+)?(\w+)/i,
-        /(\w+)\s+(?:to|as|into|→|->)\s+(\w+)/i,
-        /replace\s+(\w+)\s+with\s+(\w+)/i
-      ];
-
-      for (const pattern of changePatterns) {
-        const match = userInput.match(pattern);
-        if (match) {
-          const [, fromComponent, toComponent] = match;
-          const result = replaceComponent(modifiedXml, fromComponent, toComponent);
-          if (result.success) {
-            modifiedXml = result.xml;
-            changes.push(`Changed ${result.count} instance(s) of "${fromComponent.toUpperCase()}" to "${toComponent.toUpperCase()}"`);
-            return { modifiedXml, changes };
-          }
-        }
+      const targetPage = pageName ? findPageByName(xmlContent, pageName) : undefined;
+      if (pageName && !targetPage) {
+        setMessages(prev => [...prev, {
+          id: (Date.now() + 1).toString(),
+          type: 'ai',
+          content: `📄 I couldn't find a page named "${pageName}". Check the page list in the viewer and try again.`,
+          timestamp: new Date()
+        }]);
+        setIsLoading(false);
+        return;
       }
 
-      // 3. CONNECTION/ARROW REMOVAL
-      const connectionRemovePatterns = [
-        /remove\s+(?:the\s+)?(?:arrow|connection|line|wire)(?:\s+between\s+(\w+)\s+and\s+(\w+))?/i,
-        /delete\s+(?:the\s+)?(?:arrow|connection|line|wire)(?:\s+between\s+(\w+)\s+and\s+(\w+))?/i,
-        /disconnect\s+(\w+)(?:\s+(?:from|and)\s+(\w+))?/i
-      ];
-
-      for (const pattern of connectionRemovePatterns) {
-        const match = userInput.match(pattern);
-        if (match) {
-          const result = removeConnections(modifiedXml, match[1], match[2]);
-          if (result.success) {
-            modifiedXml = result.xml;
-            changes.push(result.message);
-            return { modifiedXml, changes };
-          }
+      const pageId = targetPage?.id || activePageId;
+      // The selection belongs to the active page.
+      const selection = pageId === activePageId ? selectedIds : [];
+      try {
+        const result = await askAssistant(provider, command, getPageXml(xmlContent, pageId), selection);
+        if (result.fallbackReason) {
+          toast.warning(`${provider.label} is unavailable, used the built-in command patterns instead`);
         }
+        const pageXml = getPageXml(latest.current.xmlContent, pageId);
+        aiResponse = respond({ pageId, before: pageXml, command, operations: result.operations, reply: result.reply, choices: {}, selection });
+      } catch (error) {
+        console.error('Failed to read diagram page:', error);
+        toast.error("The diagram XML could not be parsed");
+        setIsLoading(false);
+        return;
       }
+    }
 
-      // 4. COMPONENT ADDITION
-      const addPatterns = [
-        /add\s+(?:a\s+|an\s+)?(\w+)(?:\s+(?:component|block|unit))?/i,
-        /insert\s+(?:a\s+|an\s+)?(\w+)/i,
-        /create\s+(?:a\s+|an\s+)?(\w+)/i
-      ];
-
-      for (const pattern of addPatterns) {
-        const match = userInput.match(pattern);
-        if (match) {
-          const componentToAdd = match[1];
-          const result = addComponent(modifiedXml, componentToAdd);
-          if (result.success) {
-            modifiedXml = result.xml;
-            changes.push(`Added new ${componentToAdd.toUpperCase()} component to the architecture`);
-            return { modifiedXml, changes };
-          }
-        }
-      }
+    setMessages(prev => [...prev, aiResponse ?? {
+      id: (Date.now() + 1).toString(),
+      type: 'ai',
+      content: generateAIResponse(command, xmlContent, [], []),
+      timestamp: new Date()
+    }]);
+    setIsLoading(false);
+  };
 
-      // 5. PROPERTY MODIFICATIONS
-      const propertyPatterns = [
-        /(?:make|set|change)\s+(\w+)\s+(?:size|width|height)\s+(?:to\s+)?(\d+)/i,
-        /resize\s+(\w+)\s+to\s+(\d+)/i,
-        /(?:make|set)\s+(\w+)\s+(?:color|colour)\s+(?:to\s+)?(\w+)/i
-      ];
-
-      for (const pattern of propertyPatterns) {
-        const match = userInput.match(pattern);
-        if (match) {
-          const [, component, value] = match;
-          const result = modifyComponentProperty(modifiedXml, component, value, userInput);
-          if (result.success) {
-            modifiedXml = result.xml;
-            changes.push(result.message);
-            return { modifiedXml, changes };
-          }
-        }
+  // Plans the assistant's operations against the page and turns the result
+  // into a reply: a question when a name fits several blocks, otherwise the
+  // change, applied straight away or proposed for review.
+  const respond = (request: Omit<Clarification, 'ambiguity' | 'status'>): Message => {
+    const { pageId, before: pageXml, command, operations, reply, choices, selection } = request;
+    const planned = planEditOperations(pageXml, operations, 'chat', command, choices, selection);
+    const id = (Date.now() + 1).toString();
+
+    // Nothing changes until every name is settled.
+    const unclear = planned.steps.find((step) => step.ambiguity);
+    if (unclear) {
+      onHighlight?.(pageId, unclear.ambiguity!.candidates.map((candidate) => candidate.id));
+      return {
+        id,
+        type: 'ai',
+        content: `🤔 ${unclear.message}`,
+        timestamp: new Date(),
+        clarification: { ...request, ambiguity: unclear.ambiguity!, status: 'pending' }
+      };
+    }
+    onHighlight?.(pageId, []);
+
+    const patch = planned.patch;
+    let actualChanges = planned.changes;
+    // One line per change, or per step when the message had several.
+    let report = planned.steps.length > 1
+      ? planned.steps.map((step, index) => `${step.success ? '✅' : '⚠️'} Step ${index + 1}: ${step.message}`)
+      : actualChanges.map(change => `• ${change}`);
+    let proposal: Proposal | undefined;
+
+    console.log('AI Processing:', {
+      input: command,
+      changes: actualChanges,
+      operations: patch.operations
+    });
+
+    // Safe edits may go straight in; everything else is proposed for review
+    if (patch.operations.length > 0) {
+      let safe = false;
+      try {
+        safe = reviewPatch(pageXml, patch).safe;
+      } catch (error) {
+        console.error('Planned patch does not apply:', error);
       }
-
-      // 6. SMART CONTEXTUAL CHANGES - Analyze the entire input for context
-      const contextualResult = handleContextualChanges(modifiedXml, userInput);
-      if (contextualResult.success) {
-        modifiedXml = contextualResult.xml;
-        changes.push(...contextualResult.changes);
-        return { modifiedXml, changes };
+      if (!(autoApplySafe && safe)) {
+        proposal = { pageId, before: pageXml, patch, status: 'pending' };
+      } else if (!latest.current.onApplyPatch(pageId, patch)) {
+        actualChanges = [];
+        report = [];
+      } else {
+        toast.success(`✅ XML Updated! Made ${actualChanges.length} change(s). Check the XML Code tab to see changes.`);
       }
-
-    } catch (error) {
-      console.error('Error in XML processing:', error);
+    } else {
+      console.log('No changes made. Input may not match patterns.');
     }
 
-    return { modifiedXml, changes };
+    return {
+      id,
+      type: 'ai',
+      content: proposal
+        ? [reply || "Here's what I'd change. Review it below and apply it when it looks right:", ...report].join('\n')
+        : reply
+          ? [reply, ...report].join('\n')
+          : actualChanges.length === 0 && report.length > 0
+            ? ["I couldn't apply any of those steps:", ...report].join('\n')
+            : generateAIResponse(command, pageXml, actualChanges, report),
+      timestamp: new Date(),
+      proposal
+    };
   };
 
-  // Helper function to remove components from XML
-  const removeComponent = (xml: string, componentName: string): { success: boolean; xml: string } => {
-    try {
-      const componentRegex = new RegExp(`<mxCell[^>]*value="[^"]*${componentName}[^"]*"[^>]*>.*?</mxCell>`, 'gis');
-      const matches = xml.match(componentRegex);
-      
-      if (matches && matches.length > 0) {
-        let modifiedXml = xml;
-        matches.forEach(match => {
-          modifiedXml = modifiedXml.replace(match, '');
-        });
-        
-        // Also remove any connections to this component
-        const idMatches = xml.match(new RegExp(`id="([^"]*)"[^>]*value="[^"]*${componentName}[^"]*"`, 'i'));
-        if (idMatches) {
-          const componentId = idMatches[1];
-          const connectionRegex = new RegExp(`<mxCell[^>]*(?:source|target)="${componentId}"[^>]*>.*?</mxCell>`, 'gis');
-          modifiedXml = modifiedXml.replace(connectionRegex, '');
-        }
-        
-        return { success: true, xml: modifiedXml };
-      }
-    } catch (error) {
-      console.error('Error removing component:', error);
-    }
-    return { success: false, xml };
+  const setClarificationStatus = (messageId: string, status: ClarificationStatus, answer?: string) => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId && message.clarification ? { ...message, clarification: { ...message.clarification, status, answer } } : message
+    ));
   };
 
-  // Helper function to replace components in XML
-  const replaceComponent = (xml: string, fromComponent: string, toComponent: string): { success: boolean; xml: string; count: number } => {
+  // Plans the held command again with the user's pick, which may raise the
+  // next question if another name in it is ambiguous too.
+  const handleChoose = (messageId: string, clarification: Clarification, ids: string[], answer: string) => {
+    let current: string | undefined;
     try {
-      const regex = new RegExp(`\\b${fromComponent}\\b`, 'gi');
-      const matches = xml.match(regex);
-      
-      if (matches && matches.length > 0) {
-        const modifiedXml = xml.replace(regex, toComponent.toUpperCase());
-        return { success: true, xml: modifiedXml, count: matches.length };
-      }
+      current = getPageXml(xmlContent, clarification.pageId);
     } catch (error) {
-      console.error('Error replacing component:', error);
+      console.error('Failed to read diagram page:', error);
     }
-    return { success: false, xml, count: 0 };
-  };
-
-  // Helper function to remove connections
-  const removeConnections = (xml: string, component1?: string, component2?: string): { success: boolean; xml: string; message: string } => {
-    try {
-      let modifiedXml = xml;
-      let removedCount = 0;
-
-      if (component1 && component2) {
-        // Remove specific connection between two components
-        const connectionRegex = new RegExp(`<mxCell[^>]*edge="1"[^>]*>.*?</mxCell>`, 'gis');
-        const connections = xml.match(connectionRegex) || [];
-        
-        connections.forEach(connection => {
-          if (connection.includes(component1) && connection.includes(component2)) {
-            modifiedXml = modifiedXml.replace(connection, '');
-            removedCount++;
-          }
-        });
-        
-        return { 
-          success: removedCount > 0, 
-          xml: modifiedXml, 
-          message: `Removed ${removedCount} connection(s) between ${component1.toUpperCase()} and ${component2.toUpperCase()}` 
-        };
-      } else {
-        // Remove all arrows/connections
-        const arrowRegex = /<mxCell[^>]*edge="1"[^>]*>.*?<\/mxCell>/gis;
-        const arrows = xml.match(arrowRegex) || [];
-        removedCount = arrows.length;
-        
-        if (removedCount > 0) {
-          modifiedXml = xml.replace(arrowRegex, '');
-          return { 
-            success: true, 
-            xml: modifiedXml, 
-            message: `Removed ${removedCount} arrow(s)/connection(s) from the diagram` 
-          };
-        }
-      }
-    } catch (error) {
-      console.error('Error removing connections:', error);
+    if (current !== clarification.before) {
+      setClarificationStatus(messageId, 'expired');
+      onHighlight?.(clarification.pageId, []);
+      toast.error("The page has changed since I asked. Send the command again.");
+      return;
     }
-    return { success: false, xml, message: 'No connections found to remove' };
+
+    setClarificationStatus(messageId, 'answered', answer);
+    const choice: Message = { id: Date.now().toString(), type: 'user', content: answer, timestamp: new Date() };
+    const aiResponse = respond({ ...clarification, choices: withChoice(clarification.choices, clarification.ambiguity.name, ids) });
+    setMessages(prev => [...prev, choice, aiResponse]);
   };
 
-  // Helper function to add components
-  const addComponent = (xml: string, componentName: string): { success: boolean; xml: string } => {
-    try {
-      // Find the last mxCell to get the next ID
-      const cellMatches = xml.match(/id="(\d+)"/g) || [];
-      const maxId = Math.max(...cellMatches.map(match => parseInt(match.match(/\d+/)?.[0] || '0')));
-      const newId = maxId + 1;
-      
-      // Create new component XML
-      const newComponent = `
-        <mxCell id="${newId}" value="${componentName.toUpperCase()}" style="rounded=1;whiteSpace=wrap;html=1;fillColor=#dae8fc;strokeColor=#6c8ebf;" vertex="1" parent="1">
-          <mxGeometry x="400" y="200" width="120" height="60" as="geometry" />
-        </mxCell>`;
-      
-      // Insert before the closing mxGraphModel tag
-      const modifiedXml = xml.replace('</mxGraphModel>', newComponent + '\n  </mxGraphModel>');
-      return { success: true, xml: modifiedXml };
-    } catch (error) {
-      console.error('Error adding component:', error);
-    }
-    return { success: false, xml };
+  // Hovering a choice highlights just that block.
+  const handleFocusCandidate = (clarification: Clarification, id?: string) => {
+    onHighlight?.(clarification.pageId, id ? [id] : clarification.ambiguity.candidates.map((candidate) => candidate.id));
   };
 
-  // Helper function to modify component properties
-  const modifyComponentProperty = (xml: string, component: string, value: string, userInput: string): { success: boolean; xml: string; message: string } => {
-    try {
-      const lowerInput = userInput.toLowerCase();
-      let modifiedXml = xml;
-      
-      if (lowerInput.includes('size') || lowerInput.includes('width') || lowerInput.includes('height')) {
-        const sizeRegex = new RegExp(`(<mxCell[^>]*value="[^"]*${component}[^"]*"[^>]*>.*?<mxGeometry[^>]*width=")[^"]*("[^>]*height=")[^"]*(".*?</mxCell>)`, 'gis');
-        modifiedXml = xml.replace(sizeRegex, `$1${value}$2${value}$3`);
-        return { success: true, xml: modifiedXml, message: `Changed ${component.toUpperCase()} size to ${value}x${value}` };
-      }
-      
-      if (lowerInput.includes('color') || lowerInput.includes('colour')) {
-        const colorMap: { [key: string]: string } = {
-          'red': '#ff0000', 'blue': '#0000ff', 'green': '#00ff00', 'yellow': '#ffff00',
-          'orange': '#ffa500', 'purple': '#800080', 'pink': '#ffc0cb', 'gray': '#808080'
-        };
-        const colorCode = colorMap[value.toLowerCase()] || value;
-        const colorRegex = new RegExp(`(<mxCell[^>]*value="[^"]*${component}[^"]*"[^>]*style="[^"]*fillColor=)[^;]*(;[^"]*"[^>]*>.*?</mxCell>)`, 'gis');
-        modifiedXml = xml.replace(colorRegex, `$1${colorCode}$2`);
-        return { success: true, xml: modifiedXml, message: `Changed ${component.toUpperCase()} color to ${value}` };
-      }
-    } catch (error) {
-      console.error('Error modifying component property:', error);
-    }
-    return { success: false, xml, message: 'Property modification failed' };
+  const setProposalStatus = (messageId: string, status: ProposalStatus) => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId && message.proposal ? { ...message, proposal: { ...message.proposal, status } } : message
+    ));
   };
 
-  // Advanced contextual analysis for complex requests
-  const handleContextualChanges = (xml: string, userInput: string): { success: boolean; xml: string; changes: string[] } => {
-    const changes: string[] = [];
-    let modifiedXml = xml;
-    
+  // A proposal is only valid for the page it was planned against.
+  const handleApplyProposal = (messageId: string, proposal: Proposal, patch: DiagramPatch) => {
+    let current: string | undefined;
     try {
-      // Extract all components mentioned in the input
-      const words = userInput.toLowerCase().split(/\s+/);
-      const potentialComponents = words.filter(word => 
-        word.length > 2 && 
-        !['the', 'and', 'or', 'to', 'from', 'with', 'by', 'as', 'into', 'remove', 'add', 'change', 'make'].includes(word)
-      );
-      
-      // Check if any of these components exist in the XML
-      for (const component of potentialComponents) {
-        const componentExists = xml.toLowerCase().includes(component);
-        if (componentExists) {
-          // Apply intelligent modifications based on context
-          if (userInput.toLowerCase().includes('bigger') || userInput.toLowerCase().includes('larger')) {
-            const result = modifyComponentProperty(modifiedXml, component, '150', 'make bigger');
-            if (result.success) {
-              modifiedXml = result.xml;
-              changes.push(`Made ${component.toUpperCase()} larger`);
-            }
-          }
-          
-          if (userInput.toLowerCase().includes('smaller')) {
-            const result = modifyComponentProperty(modifiedXml, component, '80', 'make smaller');
-            if (result.success) {
-              modifiedXml = result.xml;
-              changes.push(`Made ${component.toUpperCase()} smaller`);
-            }
-          }
-        }
-      }
-      
-      return { success: changes.length > 0, xml: modifiedXml, changes };
+      current = getPageXml(xmlContent, proposal.pageId);
     } catch (error) {
-      console.error('Error in contextual analysis:', error);
+      console.error('Failed to read diagram page:', error);
+    }
+    if (current !== proposal.before) {
+      setProposalStatus(messageId, 'expired');
+      toast.error("The page has changed since this was proposed. Send the command again.");
+      return;
+    }
+    if (onApplyPatch(proposal.pageId, patch)) {
+      setProposalStatus(messageId, 'applied');
+      toast.success(`✅ XML Updated! Applied ${patch.operations.length} operation(s).`);
     }
-    
-    return { success: false, xml, changes: [] };
   };
 
-  const generateAIResponse = (userInput: string, xml: string, actualChanges: string[]): string => {
+  const generateAIResponse = (userInput: string, xml: string, actualChanges: string[], report: string[]): string => {
     const lowerInput = userInput.toLowerCase();
     
     // If we made actual changes, report them with detailed feedback
     if (actualChanges.length > 0) {
-      return `✅ **Architecture Successfully Updated!**\n\nHere's what I accomplished:\n${actualChanges.map(change => `• ${change}`).join('\n')}\n\n🔍 **How to View Changes:**\n1. Switch to the "Viewer" tab to see your updated diagram\n2. Click "Updated" to view the modified architecture\n3. Click "Original" to compare with the previous version\n4. Check the "XML Code" tab to see the underlying changes\n\n💡 **What's Next?**\nI can help you make additional modifications:\n• Add more components\n• Remove other elements\n• Change colors, sizes, or properties\n• Modify connections between components\n• Restructure the layout\n\nJust tell me what you'd like to change next!`;
+      return `✅ **Architecture Successfully Updated!**\n\nHere's what I accomplished:\n${report.join('\n')}\n\n🔍 **How to View Changes:**\n1. Switch to the "Viewer" tab to see your updated diagram\n2. Click "Updated" to view the modified architecture\n3. Click "Original" to compare with the previous version\n4. Check the "XML Code" tab to see the underlying changes\n\n💡 **What's Next?**\nI can help you make additional modifications:\n• Add more components\n• Remove other elements\n• Change colors, sizes, or properties\n• Modify connections between components\n• Restructure the layout\n\nJust tell me what you'd like to change next!`;
     }
 
     // Enhanced response generation based on user intent
@@ -426,7 +286,7 @@ export const ChatInterface = ({ hasFiles, xmlContent, onXmlUpdate }: ChatInterfa
       },
       {
         keywords: ['add', 'insert', 'create', 'new'],
-        response: () => `➕ **Add New Components**\n\nI can add new components to your architecture! Here's what I can do:\n\n🔧 **Component Types:**\n• Processing units (CPU, GPU, DSP)\n• Memory components (RAM, Cache, Storage)\n• Interface modules (USB, Ethernet, SPI)\n• Custom components (any name you specify)\n\n💬 **Example Commands:**\n• "add a RAM component"\n• "insert new GPU block"\n• "create ethernet interface"\n\n✨ **Features:**\n• Automatic positioning\n• Professional styling\n• Unique ID generation\n• Ready for connections\n\nWhat component would you like me to add?`
+        response: () => `➕ **Add New Components**\n\nI can add new components to your architecture! Here's what I can do:\n\n🔧 **Component Types:**\n• Processing units (CPU, GPU, DSP)\n• Memory components (RAM, Cache, Storage)\n• Interface modules (USB, Ethernet, SPI)\n• Custom components (any name you specify)\n\n💬 **Example Commands:**\n• "add a RAM component"\n• "insert new GPU block"\n• "create ethernet interface"\n• "add a cache to the right of NVIC"\n• "add an FPU inside the core"\n\n✨ **Features:**\n• Automatic positioning in free space\n• Professional styling\n• Unique ID generation\n• Ready for connections\n\nWhat component would you like me to add?`
       },
       {
         keywords: ['change', 'rename', 'replace', 'convert', 'switch', 'update', 'make', 'turn'],
@@ -437,7 +297,7 @@ export const ChatInterface = ({ hasFiles, xmlContent, onXmlUpdate }: ChatInterfa
       },
       {
         keywords: ['arrow', 'connection', 'line', 'wire', 'link', 'connect'],
-        response: () => `🔗 **Connection Management**\n\nI can manage all connections in your architecture:\n\n⚡ **Connection Operations:**\n• Remove specific arrows between components\n• Delete all connections\n• Disconnect components\n• Clean up orphaned connections\n\n💬 **Example Commands:**\n• "remove arrow between CPU and GPU"\n• "delete all connections"\n• "disconnect memory from CPU"\n• "remove the wire"\n\n🎯 **Smart Features:**\n• Automatic connection cleanup\n• Maintains diagram integrity\n• Preserves component positions\n\nWhat connection changes would you like me to make?`
+        response: () => `🔗 **Connection Management**\n\nI can manage all connections in your architecture:\n\n⚡ **Connection Operations:**\n• Connect components, optionally labelled or both ways\n• Remove specific arrows between components\n• Delete all connections\n• Disconnect components\n• Clean up orphaned connections\n\n💬 **Example Commands:**\n• "connect CPU to Bus Matrix"\n• "add a bidirectional link between DAP and NVIC"\n• "route AHB from CPU to SRAM with label 'AHB-Lite'"\n• "remove arrow between CPU and GPU"\n• "delete all connections"\n• "disconnect memory from CPU"\n• "remove the wire"\n\n🎯 **Smart Features:**\n• Automatic connection cleanup\n• Maintains diagram integrity\n• Preserves component positions\n\nWhat connection changes would you like me to make?`
       },
       {
         keywords: ['color', 'colour', 'size', 'resize', 'bigger', 'smaller', 'larger'],
@@ -457,17 +317,16 @@ export const ChatInterface = ({ hasFiles, xmlContent, onXmlUpdate }: ChatInterfa
 
     // Default comprehensive response
     const components = extractComponentsFromXml(xml);
-    return `🤖 **Architecture AI Assistant**\n\nI'm ready to help you modify your architecture! I can understand natural language commands and make precise changes to your diagram.\n\n📋 **Current Components:**\n${components.map(comp => `• ${comp}`).join('\n')}\n\n🛠️ **What I Can Do:**\n• **Add** new components (processors, memory, interfaces)\n• **Remove** existing components and their connections\n• **Rename/Replace** components (GPU → CPU, etc.)\n• **Modify** properties (colors, sizes, styling)\n• **Manage** connections and arrows\n• **Restructure** layout and organization\n\n💬 **Just tell me what you want!**\nExamples:\n• "remove GPU block"\n• "change memory to storage"\n• "add ethernet interface"\n• "make CPU bigger and red"\n• "delete all arrows"\n\nWhat would you like me to change in your architecture?`;
+    return `🤖 **Architecture AI Assistant**\n\nI'm ready to help you modify your architecture! I can understand natural language commands and make precise changes to your diagram.\n\n📋 **Current Components:**\n${components.map(comp => `• ${comp}`).join('\n')}\n\n🛠️ **What I Can Do:**\n• **Add** new components (processors, memory, interfaces)\n• **Remove** existing components and their connections\n• **Rename/Replace** components (GPU → CPU, etc.)\n• **Modify** properties (colors, sizes, styling)\n• **Manage** connections and arrows\n• **Restructure** layout and organization\n\n💬 **Just tell me what you want!**\nExamples:\n• "remove GPU block"\n• "change memory to storage"\n• "add ethernet interface"\n• "make CPU bigger and red"\n• "delete all arrows"\n• "auto-layout the diagram as a grid"\n• "align CPU, GPU and DSP to the left"\n• "group ETM, DAP and TPIU into 'Debug Subsystem'"\n• "make these red" (with blocks selected in the viewer)\n\nWhat would you like me to change in your architecture?`;
   };
 
   // Helper function to extract component names from XML
   const extractComponentsFromXml = (xml: string): string[] => {
     try {
-      const valueMatches = xml.match(/value="([^"]+)"/g) || [];
-      const components = valueMatches
-        .map(match => match.replace(/value="|"/g, ''))
-        .filter(value => value && value.length > 0 && !value.includes('<') && !value.includes('mxCell'))
-        .filter((value, index, array) => array.indexOf(value) === index) // Remove duplicates
+      const components = getVertices(parseDiagram(xml))
+        .map(getCellDisplayName)
+        .filter(name => name.length > 0)
+        .filter((name, index, array) => array.indexOf(name) === index) // Remove duplicates
         .slice(0, 10); // Limit to first 10 components
       
       return components.length > 0 ? components : ['No components detected'];
@@ -512,6 +371,20 @@ export const ChatInterface = ({ hasFiles, xmlContent, onXmlUpdate }: ChatInterfa
                   }`}
                 >
                   <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  {message.clarification && (
+                    <ClarifyingQuestion
+                      clarification={message.clarification}
+                      onChoose={(ids, answer) => handleChoose(message.id, message.clarification!, ids, answer)}
+                      onFocus={(id) => handleFocusCandidate(message.clarification!, id)}
+                    />
+                  )}
+                  {message.proposal && (
+                    <ChangeProposal
+                      proposal={message.proposal}
+                      onApply={(patch) => handleApplyProposal(message.id, message.proposal!, patch)}
+                      onReject={() => setProposalStatus(message.id, 'rejected')}
+                    />
+                  )}
                   <span className="text-xs opacity-70 mt-2 block">
                     {message.timestamp.toLocaleTimeString()}
                   </span>
@@ -552,6 +425,12 @@ export const ChatInterface = ({ hasFiles, xmlContent, onXmlUpdate }: ChatInterfa
             </Card>
           )}
           
+          {hasFiles && selectedIds.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {selectedIds.length} cell(s) selected in the viewer; say "this" or "these" to refer to them
+            </p>
+          )}
+
           <div className="flex gap-2">
             <Input
               value={inputValue}
@@ -569,6 +448,15 @@ export const ChatInterface = ({ hasFiles, xmlContent, onXmlUpdate }: ChatInterfa
               <Send className="w-4 h-4" />
             </Button>
           </div>
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">Assistant: {provider.label}</p>
+            <div className="flex items-center gap-2">
+              <Switch id="auto-apply-safe" checked={autoApplySafe} onCheckedChange={setAutoApplySafe} />
+              <Label htmlFor="auto-apply-safe" className="text-xs text-muted-foreground">
+                Auto-apply safe edits (renames, colors, resizing one block)
+              </Label>
+            </div>
+          </div>
         </div>
       </div>
     </div>
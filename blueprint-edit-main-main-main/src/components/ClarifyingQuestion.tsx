@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { EditOperation } from "@/lib/assistant/types";
+import type { NameChoices } from "@/lib/assistant/operations";
+import type { Ambiguity, MatchKind } from "@/lib/diagram/matching";
+
+export type ClarificationStatus = 'pending' | 'answered' | 'expired';
+
+// A command on hold until the user says which block a name meant.
+export interface Clarification {
+  pageId: string;
+  // Page XML the command was planned against.
+  before: string;
+  command: string;
+  operations: EditOperation[];
+  reply?: string;
+  // Names answered earlier for the same command.
+  choices: NameChoices;
+  // Cells selected when the command was sent, which "this" and "these" mean.
+  selection: string[];
+  ambiguity: Ambiguity;
+  status: ClarificationStatus;
+  // What the user picked, once answered.
+  answer?: string;
+}
+
+interface ClarifyingQuestionProps {
+  clarification: Clarification;
+  onChoose: (ids: string[], answer: string) => void;
+  // Called with the candidate under the pointer, or undefined when it leaves.
+  onFocus: (id?: string) => void;
+}
+
+const KIND_LABELS: Record<MatchKind, string> = {
+  exact: 'exact',
+  words: 'whole word',
+  partial: 'partial',
+  similar: 'similar',
+};
+
+export const ClarifyingQuestion = ({ clarification, onChoose, onFocus }: ClarifyingQuestionProps) => {
+  const { ambiguity, status } = clarification;
+  const isPending = status === 'pending';
+  const all = ambiguity.candidates.map((candidate) => candidate.id);
+
+  if (!isPending) {
+    return (
+      <div className="mt-3 border-t border-border/50 pt-3 text-xs opacity-70">
+        {status === 'answered' ? `Answered: ${clarification.answer}` : 'The page has changed since this was asked'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-border/50 pt-3" onMouseLeave={() => onFocus(undefined)}>
+      <span className="text-xs font-medium uppercase tracking-wide opacity-70">Highlighted in the viewer</span>
+      <div className="flex flex-col gap-1">
+        {ambiguity.candidates.map((candidate) => (
+          <Button
+            key={candidate.id}
+            size="sm"
+            variant="outline"
+            className="justify-between h-auto py-1"
+            onMouseEnter={() => onFocus(candidate.id)}
+            onClick={() => onChoose([candidate.id], candidate.name)}
+          >
+            <span className="truncate">{candidate.name || candidate.id}</span>
+            <Badge variant="secondary" className="ml-2">{KIND_LABELS[candidate.kind]}</Badge>
+          </Button>
+        ))}
+        {ambiguity.candidates.length > 1 && (
+          <Button size="sm" variant="ghost" onClick={() => onChoose(all, `all ${ambiguity.candidates.length}`)}>
+            All of them
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
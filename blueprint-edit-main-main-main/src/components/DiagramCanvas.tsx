@@ -0,0 +1,324 @@
+import { useMemo, useRef, useState } from "react";
+import { buildScene, edgeLabelPoint, unionBounds, type Bounds, type Scene, type SceneEdge, type SceneVertex } from "@/lib/diagram/render";
+import {
+  labelContainerStyle,
+  resolveEdgeAppearance,
+  resolveVertexAppearance,
+  type LabelAppearance,
+} from "@/lib/diagram/appearance";
+import { getCellDisplayName, sanitizeLabelHtml } from "@/lib/diagram/labels";
+import { getStyleNumber } from "@/lib/diagram/style";
+import type { DiagramPoint } from "@/lib/diagram/model";
+import { DiagramShape } from "./DiagramShape";
+
+// An outline drawn over a cell, e.g. to show what changed. Without `bounds`
+// or `points` it follows the cell as currently drawn; with them it can mark
+// where a cell used to be.
+export interface CanvasMark {
+  id: string;
+  color: string;
+  title?: string;
+  dashed?: boolean;
+  bounds?: Bounds;
+  points?: DiagramPoint[];
+}
+
+interface DiagramCanvasProps {
+  xml: string;
+  className?: string;
+  marks?: CanvasMark[];
+  // With `onSelect` cells can be picked: a click selects one, Shift or
+  // Ctrl/Cmd-click adds or removes one, and Shift-dragging over empty space
+  // adds everything inside the box.
+  selectedIds?: string[];
+  onSelect?: (ids: string[]) => void;
+}
+
+const PADDING = 20;
+const MARK_INSET = 4;
+const SELECTION_COLOR = '#2563eb';
+// Pointer travel, in screen pixels, below which a press counts as a click.
+const CLICK_TOLERANCE = 4;
+
+const resolveMark = (mark: CanvasMark, scene: Scene): CanvasMark | null => {
+  if (mark.bounds || mark.points) return mark;
+  const item = scene.items.find((candidate) => candidate.id === mark.id);
+  if (!item) return null;
+  return item.kind === 'vertex' ? { ...mark, bounds: item.bounds } : { ...mark, points: item.points };
+};
+
+const markBounds = (mark: CanvasMark): Bounds =>
+  mark.bounds ?? unionBounds((mark.points ?? []).map((point) => ({ ...point, width: 0, height: 0 })));
+
+const boxBetween = (from: DiagramPoint, to: DiagramPoint): Bounds => ({
+  x: Math.min(from.x, to.x),
+  y: Math.min(from.y, to.y),
+  width: Math.abs(to.x - from.x),
+  height: Math.abs(to.y - from.y),
+});
+
+const isPointInside = (box: Bounds, point: DiagramPoint): boolean =>
+  point.x >= box.x && point.y >= box.y && point.x <= box.x + box.width && point.y <= box.y + box.height;
+
+// Cells drawn entirely inside the box.
+const itemsInside = (scene: Scene, box: Bounds): string[] =>
+  scene.items
+    .filter((item) =>
+      item.kind === 'vertex'
+        ? isPointInside(box, item.bounds) && isPointInside(box, { x: item.bounds.x + item.bounds.width, y: item.bounds.y + item.bounds.height })
+        : item.points.every((point) => isPointInside(box, point)),
+    )
+    .map((item) => item.id);
+
+const MarkView = ({ mark }: { mark: CanvasMark }) => {
+  const dash = mark.dashed ? '6 4' : undefined;
+  return (
+    <g pointerEvents="none" data-mark-id={mark.id}>
+      {mark.title && <title>{mark.title}</title>}
+      {mark.bounds ? (
+        <rect
+          x={mark.bounds.x - MARK_INSET}
+          y={mark.bounds.y - MARK_INSET}
+          width={mark.bounds.width + MARK_INSET * 2}
+          height={mark.bounds.height + MARK_INSET * 2}
+          rx={4}
+          fill={mark.color}
+          fillOpacity={mark.dashed ? 0.05 : 0.12}
+          stroke={mark.color}
+          strokeWidth={3}
+          strokeDasharray={dash}
+        />
+      ) : (
+        <polyline
+          points={(mark.points ?? []).map((point) => `${point.x},${point.y}`).join(' ')}
+          fill="none"
+          stroke={mark.color}
+          strokeOpacity={0.6}
+          strokeWidth={6}
+          strokeDasharray={dash}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      )}
+    </g>
+  );
+};
+
+const LabelContent = ({ value, label }: { value: string; label: LabelAppearance }) =>
+  label.html ? (
+    <div dangerouslySetInnerHTML={{ __html: sanitizeLabelHtml(value) }} />
+  ) : (
+    <div>{value}</div>
+  );
+
+// Arrowheads are drawn as geometry rather than SVG markers so they pick up
+// each edge's own stroke colour.
+const ArrowHead = ({ from, to, kind, color, strokeWidth }: { from: DiagramPoint; to: DiagramPoint; kind: string; color: string; strokeWidth: number }) => {
+  if (kind === 'none') return null;
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const size = 6 + strokeWidth * 2;
+  const at = (distance: number, spread: number): string => {
+    const x = to.x - distance * Math.cos(angle) - spread * Math.sin(angle);
+    const y = to.y - distance * Math.sin(angle) + spread * Math.cos(angle);
+    return `${x},${y}`;
+  };
+
+  if (kind === 'open') {
+    return <polyline points={`${at(size, size / 2)} ${to.x},${to.y} ${at(size, -size / 2)}`} fill="none" stroke={color} strokeWidth={strokeWidth} />;
+  }
+  if (kind === 'oval') {
+    return <circle cx={to.x - (size / 2) * Math.cos(angle)} cy={to.y - (size / 2) * Math.sin(angle)} r={size / 2} fill={color} />;
+  }
+  if (kind === 'diamond' || kind === 'diamondThin') {
+    return <polygon points={`${to.x},${to.y} ${at(size, size / 3)} ${at(size * 2, 0)} ${at(size, -size / 3)}`} fill={color} stroke={color} />;
+  }
+  const tip = kind === 'classic' ? `${at(size * 0.7, 0)} ` : '';
+  return <polygon points={`${to.x},${to.y} ${at(size, size / 2)} ${tip}${at(size, -size / 2)}`} fill={color} stroke={color} strokeWidth={1} />;
+};
+
+const VertexView = ({ item }: { item: SceneVertex }) => {
+  const { bounds, cell } = item;
+  const appearance = resolveVertexAppearance(cell.style);
+  // Swimlane titles sit in the header band rather than the middle of the box.
+  const labelHeight = appearance.shape === 'swimlane' ? getStyleNumber(cell.style, 'startSize', 23) : bounds.height;
+
+  return (
+    <g transform={`translate(${bounds.x} ${bounds.y})`} data-cell-id={cell.id}>
+      {cell.value && <title>{getCellDisplayName(cell)}</title>}
+      {/* Keeps unfilled shapes clickable across their whole box. */}
+      <rect width={bounds.width} height={bounds.height} fill="transparent" />
+      <DiagramShape appearance={appearance} style={cell.style} width={bounds.width} height={bounds.height} />
+      {cell.value && cell.style.noLabel !== '1' && (
+        <foreignObject width={bounds.width} height={labelHeight} overflow="visible" pointerEvents="none">
+          <div style={labelContainerStyle(appearance.label)}>
+            <LabelContent value={cell.value} label={appearance.label} />
+          </div>
+        </foreignObject>
+      )}
+    </g>
+  );
+};
+
+const EdgeView = ({ item }: { item: SceneEdge }) => {
+  const { points, cell } = item;
+  const appearance = resolveEdgeAppearance(cell.style);
+  const d = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${point.x},${point.y}`).join(' ');
+  const mid = edgeLabelPoint(cell.geometry, points);
+
+  return (
+    <g data-cell-id={cell.id} opacity={appearance.opacity}>
+      <path d={d} fill="none" stroke="transparent" strokeWidth={12} />
+      <path
+        d={d}
+        fill="none"
+        stroke={appearance.stroke}
+        strokeWidth={appearance.strokeWidth}
+        strokeDasharray={appearance.dashArray}
+        strokeLinejoin={appearance.rounded ? 'round' : 'miter'}
+      />
+      <ArrowHead from={points[points.length - 2]} to={points[points.length - 1]} kind={appearance.endArrow} color={appearance.stroke} strokeWidth={appearance.strokeWidth} />
+      <ArrowHead from={points[1]} to={points[0]} kind={appearance.startArrow} color={appearance.stroke} strokeWidth={appearance.strokeWidth} />
+      {cell.value && (
+        <foreignObject x={mid.x - 100} y={mid.y - 20} width={200} height={40} overflow="visible" pointerEvents="none">
+          <div style={labelContainerStyle({ ...appearance.label, align: 'center', verticalAlign: 'middle' })}>
+            <span style={{ background: appearance.label.background }}>
+              <LabelContent value={cell.value} label={appearance.label} />
+            </span>
+          </div>
+        </foreignObject>
+      )}
+    </g>
+  );
+};
+
+// Draws the diagram locally as SVG, without contacting any remote viewer.
+export const DiagramCanvas = ({ xml, className, marks, selectedIds = [], onSelect }: DiagramCanvasProps) => {
+  const [scale, setScale] = useState(1);
+  const [position, setPosition] = useState({ x: 0, y: 0 });
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  // The rubber band being dragged, in diagram coordinates.
+  const [band, setBand] = useState<{ from: DiagramPoint; to: DiagramPoint } | null>(null);
+  const press = useRef<{ x: number; y: number; cellId?: string; additive: boolean } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const scene = useMemo(() => {
+    try {
+      return buildScene(xml);
+    } catch (error) {
+      console.error('Failed to build diagram scene:', error);
+      return null;
+    }
+  }, [xml]);
+
+  const resolvedMarks = useMemo(() => {
+    if (!scene) return [];
+    const selection = selectedIds.map((id): CanvasMark => ({ id, color: SELECTION_COLOR, title: 'Selected' }));
+    return [...selection, ...(marks ?? [])].map((mark) => resolveMark(mark, scene)).filter((mark): mark is CanvasMark => mark !== null);
+  }, [scene, marks, selectedIds]);
+
+  if (!scene || scene.items.length + resolvedMarks.length === 0) {
+    return (
+      <div className="w-full h-full flex items-center justify-center p-4 text-sm text-muted-foreground">
+        Unable to render diagram.
+      </div>
+    );
+  }
+
+  // Marks can sit outside the drawing, e.g. where a removed cell used to be.
+  const bounds = scene.items.length > 0
+    ? unionBounds([scene.bounds, ...resolvedMarks.map(markBounds)])
+    : unionBounds(resolvedMarks.map(markBounds));
+  const viewBox = `${bounds.x - PADDING} ${bounds.y - PADDING} ${bounds.width + PADDING * 2} ${bounds.height + PADDING * 2}`;
+
+  const toDiagramPoint = (clientX: number, clientY: number): DiagramPoint => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return { x: clientX, y: clientY };
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const cellId = (e.target as Element).closest('[data-cell-id]')?.getAttribute('data-cell-id') ?? undefined;
+    press.current = { x: e.clientX, y: e.clientY, cellId, additive: e.shiftKey || e.ctrlKey || e.metaKey };
+    if (onSelect && e.shiftKey && !cellId) {
+      const from = toDiagramPoint(e.clientX, e.clientY);
+      setBand({ from, to: from });
+      return;
+    }
+    setDragStart({ x: e.clientX - position.x, y: e.clientY - position.y });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (band) setBand({ ...band, to: toDiagramPoint(e.clientX, e.clientY) });
+    else if (dragStart) setPosition({ x: e.clientX - dragStart.x, y: e.clientY - dragStart.y });
+  };
+
+  // A press that barely moved is a click; anything else was a pan.
+  const handleMouseUp = (e: React.MouseEvent) => {
+    const pressed = press.current;
+    press.current = null;
+    setDragStart(null);
+    if (!onSelect || !pressed) return;
+
+    if (band) {
+      setBand(null);
+      const inside = itemsInside(scene, boxBetween(band.from, band.to));
+      onSelect([...selectedIds, ...inside.filter((id) => !selectedIds.includes(id))]);
+      return;
+    }
+    if (Math.hypot(e.clientX - pressed.x, e.clientY - pressed.y) >= CLICK_TOLERANCE) return;
+    const { cellId, additive } = pressed;
+    if (!additive) onSelect(cellId ? [cellId] : []);
+    else if (cellId) onSelect(selectedIds.includes(cellId) ? selectedIds.filter((id) => id !== cellId) : [...selectedIds, cellId]);
+  };
+
+  const handleMouseLeave = () => {
+    press.current = null;
+    setDragStart(null);
+    setBand(null);
+  };
+
+  const bandBox = band && boxBetween(band.from, band.to);
+
+  return (
+    <div
+      className={`w-full h-full overflow-hidden select-none ${className || ''}`}
+      style={{ cursor: dragStart ? 'grabbing' : band ? 'crosshair' : 'grab' }}
+      onWheel={(e) => setScale((prev) => Math.min(4, Math.max(0.25, prev * (e.deltaY < 0 ? 1.1 : 0.9))))}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      onMouseLeave={handleMouseLeave}
+      onDoubleClick={() => {
+        setScale(1);
+        setPosition({ x: 0, y: 0 });
+      }}
+    >
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        className={onSelect ? '[&_[data-cell-id]]:cursor-pointer' : undefined}
+        viewBox={viewBox}
+        width="100%"
+        height="100%"
+        style={{ transform: `translate(${position.x}px, ${position.y}px) scale(${scale})` }}
+      >
+        {scene.items.map((item) =>
+          item.kind === 'vertex' ? <VertexView key={item.id} item={item} /> : <EdgeView key={item.id} item={item} />,
+        )}
+        {resolvedMarks.map((mark, index) => <MarkView key={`${mark.id}-${index}`} mark={mark} />)}
+        {bandBox && (
+          <rect
+            {...bandBox}
+            fill={SELECTION_COLOR}
+            fillOpacity={0.08}
+            stroke={SELECTION_COLOR}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+            pointerEvents="none"
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import { useMemo } from "react";
+import { buildScene } from "@/lib/diagram/render";
+import { changeCategory, describeCellChange, type CellChange, type ChangeCategory } from "@/lib/diagram/diff";
+import { DiagramCanvas, type CanvasMark } from "./DiagramCanvas";
+
+const CHANGE_COLORS: Record<ChangeCategory, string> = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  renamed: '#3b82f6',
+  restyled: '#a855f7',
+  moved: '#f59e0b',
+  resized: '#f97316',
+  reconnected: '#06b6d4',
+};
+
+const CATEGORY_ORDER = Object.keys(CHANGE_COLORS) as ChangeCategory[];
+
+// Cells that are gone, and where moved cells used to be, are drawn dashed at
+// their old positions.
+const buildMarks = (before: string, changes: CellChange[]): CanvasMark[] => {
+  let previous: ReturnType<typeof buildScene> | null = null;
+  try {
+    previous = buildScene(before);
+  } catch (error) {
+    console.error('Failed to build the earlier diagram:', error);
+  }
+  const ghostOf = (change: CellChange, color: string): CanvasMark | null => {
+    const item = previous?.items.find((candidate) => candidate.id === change.id);
+    if (!item) return null;
+    const geometry = item.kind === 'vertex' ? { bounds: item.bounds } : { points: item.points };
+    return { id: change.id, color, dashed: true, title: describeCellChange(change), ...geometry };
+  };
+
+  return changes.flatMap((change) => {
+    const color = CHANGE_COLORS[changeCategory(change)];
+    const title = describeCellChange(change);
+    if (change.kind === 'removed') return [ghostOf(change, color)].filter((mark): mark is CanvasMark => mark !== null);
+    const current: CanvasMark = { id: change.id, color, title };
+    const ghost = change.aspects.includes('moved') ? ghostOf(change, color) : null;
+    return ghost ? [ghost, current] : [current];
+  });
+};
+
+interface DiagramDiffViewProps {
+  before: string;
+  after: string;
+  changes: CellChange[];
+  className?: string;
+}
+
+// The later version with every change outlined in its category's colour.
+export const DiagramDiffView = ({ before, after, changes, className }: DiagramDiffViewProps) => {
+  const marks = useMemo(() => buildMarks(before, changes), [before, changes]);
+  return <DiagramCanvas xml={after} marks={marks} className={className} />;
+};
+
+export const ChangeLegend = ({ changes }: { changes: CellChange[] }) => {
+  const counts = new Map<ChangeCategory, number>();
+  changes.forEach((change) => counts.set(changeCategory(change), (counts.get(changeCategory(change)) || 0) + 1));
+
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+      {CATEGORY_ORDER.filter((category) => counts.has(category)).map((category) => (
+        <span key={category} className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-full" style={{ background: CHANGE_COLORS[category] }} />
+          {counts.get(category)} {category}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export const ChangeList = ({ changes }: { changes: CellChange[] }) => (
+  <ul className="space-y-1 text-xs">
+    {changes.map((change) => (
+      <li key={change.id} className="flex items-center gap-2">
+        <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ background: CHANGE_COLORS[changeCategory(change)] }} />
+        <span className="truncate" title={change.id}>{describeCellChange(change)}</span>
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,33 @@
+import { BaseEdge, type EdgeProps } from "reactflow";
+import type { DiagramPoint } from "@/lib/diagram/model";
+
+export interface PolylineEdgeData {
+  // Absolute route from the source end to the target end, waypoints included.
+  points: DiagramPoint[];
+  labelPoint: DiagramPoint;
+}
+
+// Follows the route resolved from the diagram instead of ReactFlow's own
+// handle positions, so waypoints, ports and floating ends are kept.
+export const PolylineEdge = ({ id, data, style, markerStart, markerEnd, label, labelStyle, labelBgStyle }: EdgeProps<PolylineEdgeData>) => {
+  const points = data?.points ?? [];
+  if (points.length < 2) return null;
+
+  const path = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${point.x},${point.y}`).join(' ');
+
+  return (
+    <BaseEdge
+      id={id}
+      path={path}
+      style={style}
+      markerStart={markerStart}
+      markerEnd={markerEnd}
+      label={label}
+      labelX={data.labelPoint.x}
+      labelY={data.labelPoint.y}
+      labelStyle={labelStyle}
+      labelBgStyle={labelBgStyle}
+      labelShowBg={!!labelBgStyle}
+    />
+  );
+};
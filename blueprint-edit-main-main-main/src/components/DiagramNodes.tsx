@@ -0,0 +1,51 @@
+import { Handle, Position, type NodeProps } from "reactflow";
+import { labelContainerStyle, type VertexAppearance } from "@/lib/diagram/appearance";
+import { labelDisplayName, sanitizeLabelHtml } from "@/lib/diagram/labels";
+import { getStyleNumber, type StyleMap } from "@/lib/diagram/style";
+import { DiagramShape } from "./DiagramShape";
+
+export interface ShapeNodeData {
+  label: string;
+  style: StyleMap;
+  appearance: VertexAppearance;
+  width: number;
+  height: number;
+}
+
+// Edges attach to the node centre; the handles are invisible anchors only.
+const hiddenHandle = { opacity: 0, top: '50%', left: '50%', width: 1, height: 1, minWidth: 0, minHeight: 0, border: 0 };
+
+// Draws an mxGraph vertex inside ReactFlow with the same shape and label
+// styling as the offline SVG renderer.
+export const ShapeNode = ({ data, selected }: NodeProps<ShapeNodeData>) => {
+  const { appearance, width, height, label } = data;
+  // Swimlane titles sit in the header band rather than the middle of the box.
+  const labelHeight = appearance.shape === 'swimlane' ? getStyleNumber(data.style, 'startSize', 23) : height;
+
+  return (
+    <div title={label ? labelDisplayName(label, appearance.label.html) : undefined} style={{ width, height, position: 'relative', outline: selected ? '2px solid hsl(var(--primary))' : undefined }}>
+      <svg width={width} height={height} style={{ position: 'absolute', inset: 0, overflow: 'visible' }}>
+        <DiagramShape appearance={appearance} style={data.style} width={width} height={height} />
+      </svg>
+      {label && data.style.noLabel !== '1' && (
+        <div style={{ ...labelContainerStyle(appearance.label), position: 'absolute', top: 0, left: 0, height: labelHeight }}>
+          {appearance.label.html ? (
+            <div dangerouslySetInnerHTML={{ __html: sanitizeLabelHtml(label) }} />
+          ) : (
+            <div>{label}</div>
+          )}
+        </div>
+      )}
+      <Handle type="target" position={Position.Top} style={hiddenHandle} isConnectable={false} />
+      <Handle type="source" position={Position.Bottom} style={hiddenHandle} isConnectable={false} />
+    </div>
+  );
+};
+
+// Stands in for the missing terminal of a floating edge so ReactFlow keeps the edge.
+export const AnchorNode = () => (
+  <div style={{ width: 1, height: 1 }}>
+    <Handle type="target" position={Position.Top} style={hiddenHandle} isConnectable={false} />
+    <Handle type="source" position={Position.Bottom} style={hiddenHandle} isConnectable={false} />
+  </div>
+);
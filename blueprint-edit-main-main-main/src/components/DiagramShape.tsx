@@ -0,0 +1,134 @@
+import type { VertexAppearance } from "@/lib/diagram/appearance";
+import { getStyleNumber, type StyleMap } from "@/lib/diagram/style";
+
+interface DiagramShapeProps {
+  appearance: VertexAppearance;
+  style: StyleMap;
+  width: number;
+  height: number;
+}
+
+const DIRECTION_ANGLES = { east: 0, south: 90, west: 180, north: 270 };
+
+const polygon = (points: Array<[number, number]>): string => points.map(([x, y]) => `${x},${y}`).join(' ');
+
+// Outline of the shape in a frame of `w` x `h` pointing east; the caller
+// rotates the frame for other directions, the way mxGraph does.
+const renderOutline = (shape: string, style: StyleMap, w: number, h: number, appearance: VertexAppearance) => {
+  switch (shape) {
+    case 'ellipse':
+    case 'cloud':
+      return <ellipse cx={w / 2} cy={h / 2} rx={w / 2} ry={h / 2} />;
+    case 'rhombus':
+      return <polygon points={polygon([[w / 2, 0], [w, h / 2], [w / 2, h], [0, h / 2]])} />;
+    case 'triangle':
+      return <polygon points={polygon([[0, 0], [w, h / 2], [0, h]])} />;
+    case 'hexagon': {
+      const size = Math.min(w / 2, getStyleNumber(style, 'size', 0.25) * w);
+      return <polygon points={polygon([[size, 0], [w - size, 0], [w, h / 2], [w - size, h], [size, h], [0, h / 2]])} />;
+    }
+    case 'parallelogram': {
+      const size = Math.min(w / 2, getStyleNumber(style, 'size', 0.2) * w);
+      return <polygon points={polygon([[size, 0], [w, 0], [w - size, h], [0, h]])} />;
+    }
+    case 'cylinder':
+    case 'cylinder3': {
+      const ry = Math.min(h / 4, getStyleNumber(style, 'size', 15) / 2);
+      return (
+        <>
+          <path d={`M0,${ry} A${w / 2},${ry} 0 0 1 ${w},${ry} L${w},${h - ry} A${w / 2},${ry} 0 0 1 0,${h - ry} Z`} />
+          <path d={`M0,${ry} A${w / 2},${ry} 0 0 0 ${w},${ry}`} fill="none" />
+        </>
+      );
+    }
+    case 'process': {
+      const inset = w * 0.1;
+      return (
+        <>
+          <rect width={w} height={h} />
+          <line x1={inset} y1={0} x2={inset} y2={h} />
+          <line x1={w - inset} y1={0} x2={w - inset} y2={h} />
+        </>
+      );
+    }
+    case 'document': {
+      const wave = h * 0.15;
+      return <path d={`M0,0 H${w} V${h - wave} Q${w * 0.75},${h - wave * 2} ${w / 2},${h - wave} T0,${h - wave} Z`} />;
+    }
+    case 'line':
+      return <line x1={0} y1={h / 2} x2={w} y2={h / 2} />;
+    case 'swimlane': {
+      const header = Math.min(h, getStyleNumber(style, 'startSize', 23));
+      return (
+        <>
+          <rect width={w} height={h} />
+          <line x1={0} y1={header} x2={w} y2={header} />
+        </>
+      );
+    }
+    case 'mxgraph.arrows2.twoWayArrow': {
+      const dy = (h / 2) * Math.max(0, Math.min(1, getStyleNumber(style, 'dy', 0.6)));
+      const dx = Math.max(0, Math.min(w / 2, getStyleNumber(style, 'dx', 35)));
+      return (
+        <polygon
+          points={polygon([
+            [dx, dy], [w - dx, dy], [w - dx, 0], [w, h / 2], [w - dx, h], [w - dx, h - dy],
+            [dx, h - dy], [dx, h], [0, h / 2], [dx, 0],
+          ])}
+        />
+      );
+    }
+    case 'mxgraph.arrows2.arrow': {
+      const dy = (h / 2) * Math.max(0, Math.min(1, getStyleNumber(style, 'dy', 0.6)));
+      const dx = Math.max(0, Math.min(w, getStyleNumber(style, 'dx', 40)));
+      const notch = Math.max(0, Math.min(w - dx, getStyleNumber(style, 'notch', 0)));
+      return (
+        <polygon
+          points={polygon([[0, dy], [w - dx, dy], [w - dx, 0], [w, h / 2], [w - dx, h], [w - dx, h - dy], [0, h - dy], [notch, h / 2]])}
+        />
+      );
+    }
+    case 'singleArrow':
+    case 'doubleArrow': {
+      const body = (h * (1 - getStyleNumber(style, 'arrowWidth', 0.3))) / 2;
+      const head = Math.min(w / 2, w * getStyleNumber(style, 'arrowSize', 0.2));
+      const right: Array<[number, number]> = [[w - head, body], [w - head, 0], [w, h / 2], [w - head, h], [w - head, h - body]];
+      const left: Array<[number, number]> = shape === 'doubleArrow'
+        ? [[head, h - body], [head, h], [0, h / 2], [head, 0], [head, body]]
+        : [[0, h - body], [0, body]];
+      return <polygon points={polygon([...right, ...left])} />;
+    }
+    default: {
+      const radius = appearance.rounded ? Math.min(w, h) * (appearance.arcSize / 100) : 0;
+      return <rect width={w} height={h} rx={radius} ry={radius} />;
+    }
+  }
+};
+
+export const DiagramShape = ({ appearance, style, width, height }: DiagramShapeProps) => {
+  if (appearance.shape === 'text' || appearance.shape === 'label') {
+    // Text cells draw only a fill/stroke if one was set explicitly.
+    if (appearance.fill === 'none' && appearance.stroke === 'none') return null;
+  }
+
+  const angle = DIRECTION_ANGLES[appearance.direction];
+  const vertical = angle === 90 || angle === 270;
+  const frameWidth = vertical ? height : width;
+  const frameHeight = vertical ? width : height;
+  const transform = angle
+    ? `translate(${width / 2} ${height / 2}) rotate(${angle}) translate(${-frameWidth / 2} ${-frameHeight / 2})`
+    : undefined;
+
+  return (
+    <g
+      transform={transform}
+      fill={appearance.fill}
+      stroke={appearance.stroke}
+      strokeWidth={appearance.strokeWidth}
+      strokeDasharray={appearance.dashArray}
+      opacity={appearance.opacity}
+    >
+      {renderOutline(appearance.shape, style, frameWidth, frameHeight, appearance)}
+    </g>
+  );
+};
@@ -1,53 +1,103 @@
 import { useEffect, useRef, useState } from 'react';
 import { Card } from "@/components/ui/card";
-import { Loader2 } from "lucide-react";
-import { deflateRaw } from 'pako';
+import { Loader2, WifiOff } from "lucide-react";
+import { encodeDiagramPayload } from "@/lib/diagram/compression";
+import { DiagramCanvas } from "./DiagramCanvas";
 
 interface DiagramViewerProps {
   xml: string;
   className?: string;
+  // Never contact the remote viewer; render locally instead.
+  offline?: boolean;
 }
 
-// Convert Uint8Array to base64 string
-function uint8ToBase64(bytes: Uint8Array): string {
-  let binary = '';
-  const chunk = 0x8000;
-  for (let i = 0; i < bytes.length; i += chunk) {
-    const sub = bytes.subarray(i, i + chunk);
-    binary += String.fromCharCode.apply(null, Array.from(sub));
+type RenderMode = 'checking' | 'remote' | 'local';
+
+const REMOTE_VIEWER_ORIGIN = 'https://viewer.diagrams.net';
+const PROBE_TIMEOUT_MS = 4000;
+const LOAD_TIMEOUT_MS = 15000;
+
+let remoteProbe: Promise<boolean> | null = null;
+
+// Checked once per session. A no-cors request only tells us the host answered,
+// which is all we need; no diagram data is sent with it.
+const isRemoteViewerReachable = (): Promise<boolean> => {
+  if (!navigator.onLine) return Promise.resolve(false);
+  if (!remoteProbe) {
+    remoteProbe = new Promise((resolve) => {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+      fetch(`${REMOTE_VIEWER_ORIGIN}/favicon.ico`, { mode: 'no-cors', cache: 'no-store', signal: controller.signal })
+        .then(() => resolve(true))
+        .catch(() => resolve(false))
+        .finally(() => clearTimeout(timer));
+    });
   }
-  return btoa(binary);
-}
+  return remoteProbe;
+};
 
-export const DiagramViewer = ({ xml, className }: DiagramViewerProps) => {
+export const DiagramViewer = ({ xml, className, offline = false }: DiagramViewerProps) => {
+  const [mode, setMode] = useState<RenderMode>(offline ? 'local' : 'checking');
   const [isLoading, setIsLoading] = useState(true);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const [viewerUrl, setViewerUrl] = useState('');
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (!xml) return;
+    if (offline) {
+      setMode('local');
+      return;
+    }
+    let cancelled = false;
+    setMode('checking');
+    isRemoteViewerReachable().then((reachable) => {
+      if (!cancelled) setMode(reachable ? 'remote' : 'local');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [offline]);
+
+  // Fall back to the local renderer if the iframe never finishes loading.
+  useEffect(() => {
+    if (mode !== 'remote' || !isLoading) return;
+    const timer = setTimeout(() => setMode('local'), LOAD_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [mode, isLoading]);
+
+  useEffect(() => {
+    // The diagram is only encoded into a URL once the remote viewer is in use.
+    if (!xml || mode !== 'remote') return;
 
     try {
       // Process XML for draw.io viewer
-      const data = encodeURIComponent(xml);
-      const compressed = deflateRaw(data, { level: 9 });
-      const base64 = uint8ToBase64(compressed);
-      const hash = `R${base64}`;
-      
+      const hash = `R${encodeDiagramPayload(xml)}`;
+
       // Create viewer URL with specific settings for best visualization
-      const url = `https://viewer.diagrams.net/?highlight=0000ff&nav=1&layers=1&lightbox=1&edit=_blank&spin=1#${hash}`;
+      const url = `${REMOTE_VIEWER_ORIGIN}/?highlight=0000ff&nav=1&layers=1&lightbox=1&edit=_blank&spin=1#${hash}`;
       setViewerUrl(url);
       setError(null);
     } catch (error) {
       console.error('Failed to create diagram URL:', error);
       setError('Failed to render diagram');
     }
-  }, [xml]);
+  }, [xml, mode]);
+
+  if (mode === 'local') {
+    return (
+      <div className={`relative w-full h-full ${className}`}>
+        <DiagramCanvas xml={xml} />
+        <div className="absolute bottom-2 right-2 flex items-center gap-1 px-2 py-1 rounded bg-background/80 text-xs text-muted-foreground">
+          <WifiOff className="w-3 h-3" />
+          {offline ? 'Offline renderer' : 'Remote viewer unreachable, rendered locally'}
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className={`relative w-full h-full ${className}`}>
-      {isLoading && (
+      {(isLoading || mode === 'checking') && (
         <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10">
           <Card className="p-4 flex items-center gap-2">
             <Loader2 className="w-4 h-4 animate-spin" />
@@ -73,4 +123,4 @@ export const DiagramViewer = ({ xml, className }: DiagramViewerProps) => {
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -4,6 +4,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Upload, FileImage, FileCode, CheckCircle } from "lucide-react";
 import { toast } from "sonner";
+import { extractDiagramFromImage } from "@/lib/diagram/imageExport";
 
 interface UploadedFiles {
   image?: File;
@@ -17,20 +18,30 @@ interface FileUploaderProps {
 export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFiles>({});
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const newFiles: UploadedFiles = { ...uploadedFiles };
+    const hasXmlFile = acceptedFiles.some((file) => file.name.endsWith('.xml') || file.name.endsWith('.drawio'));
     
-    acceptedFiles.forEach((file) => {
+    for (const file of acceptedFiles) {
       if (file.type.startsWith('image/')) {
         newFiles.image = file;
-        toast.success(`Image uploaded: ${file.name}`);
+        // Editable PNG/SVG exports from diagrams.net carry the diagram XML too;
+        // an XML file dropped alongside takes precedence.
+        const embeddedXml = hasXmlFile ? null : await extractDiagramFromImage(file);
+        if (embeddedXml) {
+          const baseName = file.name.replace(/\.[^.]+$/, '').replace(/\.drawio$/, '');
+          newFiles.xml = new File([embeddedXml], `${baseName}.drawio`, { type: 'application/xml' });
+          toast.success(`Editable diagram found in ${file.name}`);
+        } else {
+          toast.success(`Image uploaded: ${file.name}`);
+        }
       } else if (file.name.endsWith('.xml') || file.name.endsWith('.drawio')) {
         newFiles.xml = file;
         toast.success(`XML file uploaded: ${file.name}`);
       } else {
         toast.error(`Unsupported file type: ${file.name}`);
       }
-    });
+    }
 
     setUploadedFiles(newFiles);
     onFilesUploaded(newFiles);
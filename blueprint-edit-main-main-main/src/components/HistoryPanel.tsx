@@ -0,0 +1,86 @@
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { FileText, GitMerge, Layers, MessageSquare, Redo2, SlidersHorizontal, Undo2, Upload } from "lucide-react";
+import type { HistoryEntry, HistorySource } from "@/hooks/use-diagram-history";
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+  // Extra toolbar buttons.
+  actions?: ReactNode;
+}
+
+const SOURCES: Record<HistorySource, { label: string; icon: typeof Upload }> = {
+  upload: { label: 'Upload', icon: Upload },
+  chat: { label: 'Chat', icon: MessageSquare },
+  editor: { label: 'Manual edit', icon: FileText },
+  inspector: { label: 'Inspector', icon: SlidersHorizontal },
+  pages: { label: 'Pages', icon: Layers },
+  merge: { label: 'Merge', icon: GitMerge },
+};
+
+export const HistoryPanel = ({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump, actions }: HistoryPanelProps) => {
+  if (entries.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+        Upload an XML file to start tracking changes
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+          <Undo2 className="w-4 h-4 mr-2" />
+          Undo
+        </Button>
+        <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="w-4 h-4 mr-2" />
+          Redo
+        </Button>
+        {actions}
+        <span className="ml-auto text-xs text-muted-foreground">
+          Version {index + 1} of {entries.length}
+        </span>
+      </div>
+
+      <ScrollArea className="flex-1 pr-4">
+        {/* Newest first; versions after the current one can still be redone. */}
+        <ol className="space-y-2">
+          {entries.map((entry, position) => ({ entry, position })).reverse().map(({ entry, position }) => {
+            const { label, icon: Icon } = SOURCES[entry.source];
+            const isCurrent = position === index;
+            return (
+              <li key={entry.id}>
+                <button
+                  type="button"
+                  onClick={() => onJump(position)}
+                  className={`w-full text-left rounded-md border p-3 transition-colors hover:bg-secondary/50 ${
+                    isCurrent ? 'border-primary bg-primary/10' : 'border-border/50'
+                  } ${position > index ? 'opacity-50' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Icon className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    <span className="text-sm font-medium truncate">{entry.summary}</span>
+                    {isCurrent && <Badge variant="secondary" className="ml-auto">Current</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground mt-1 block">
+                    {label} · {new Date(entry.timestamp).toLocaleTimeString()}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,312 @@
+import { useEffect, useMemo } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, ArrowRight, Plus, RotateCcw, SlidersHorizontal, X } from "lucide-react";
+import { toast } from "sonner";
+import { editCellProperties } from "@/lib/diagram/edits";
+import { inspectCell, listInspectableCells, type CellDetails, type CellLink } from "@/lib/diagram/inspect";
+import type { DiagramPatch } from "@/lib/diagram/patch";
+
+interface InspectorPanelProps {
+  // The active page's model.
+  xml: string;
+  // The panel shows a cell when exactly one is selected.
+  selectedIds: string[];
+  onSelect: (ids: string[]) => void;
+  // Receives the edit as a patch against `xml`; returns false if it was rejected.
+  onApplyPatch: (patch: DiagramPatch) => boolean;
+}
+
+const NUMBER = /^-?\d+(\.\d+)?$/;
+const coordinate = z.string().trim().regex(NUMBER, 'Enter a number');
+// Text and point cells are drawn with no width or height.
+const length = coordinate.refine((value) => Number(value) >= 0, 'Cannot be negative');
+
+// Keys and values end up in a `key=value;` style string, so neither may
+// contain its separators.
+const schema = z.object({
+  label: z.string(),
+  style: z
+    .array(
+      z.object({
+        key: z.string().trim().min(1, 'Enter a key').regex(/^[^;=]+$/, 'No ";" or "="'),
+        value: z.string().regex(/^[^;]*$/, 'No ";"'),
+      }),
+    )
+    .superRefine((entries, context) => {
+      const seen = new Set<string>();
+      entries.forEach((entry, index) => {
+        const key = entry.key.trim();
+        if (seen.has(key)) context.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'key'], message: 'Duplicate key' });
+        seen.add(key);
+      });
+    }),
+  geometry: z.object({ x: coordinate, y: coordinate, width: length, height: length }).optional(),
+});
+
+type InspectorValues = z.infer<typeof schema>;
+
+const toValues = (details?: CellDetails): InspectorValues => ({
+  label: details?.label ?? '',
+  style: details?.style ?? [],
+  geometry: details?.geometry && {
+    x: String(details.geometry.x),
+    y: String(details.geometry.y),
+    width: String(details.geometry.width),
+    height: String(details.geometry.height),
+  },
+});
+
+const CellButton = ({ link, onSelect }: { link: CellLink; onSelect: (ids: string[]) => void }) => (
+  <Button variant="link" size="sm" className="h-auto p-0 max-w-full" onClick={() => onSelect([link.id])}>
+    <span className="truncate">{link.name}</span>
+  </Button>
+);
+
+interface PropertiesFormProps {
+  xml: string;
+  details: CellDetails;
+  onApplyPatch: (patch: DiagramPatch) => boolean;
+}
+
+// Mounted once per cell. `details` is rebuilt on every page change, so the
+// form only follows the cell's own label, style and geometry, and never while
+// the user has unsaved input.
+const PropertiesForm = ({ xml, details, onApplyPatch }: PropertiesFormProps) => {
+  const valuesKey = JSON.stringify(toValues(details));
+  const values = useMemo<InspectorValues>(() => JSON.parse(valuesKey), [valuesKey]);
+  const form = useForm<InspectorValues>({ resolver: zodResolver(schema), defaultValues: values });
+  const style = useFieldArray({ control: form.control, name: 'style' });
+
+  useEffect(() => {
+    if (!form.formState.isDirty) form.reset(values);
+  }, [form, values]);
+
+  // Only what the user touched is written, so changes made elsewhere to the
+  // other fields since the form was filled survive.
+  const handleSubmit = (edited: InspectorValues) => {
+    const { dirtyFields } = form.formState;
+    const geometry = (['x', 'y', 'width', 'height'] as const).filter((key) => edited.geometry && dirtyFields.geometry?.[key]);
+    const plan = editCellProperties(xml, details.id, {
+      label: dirtyFields.label ? edited.label : undefined,
+      style: dirtyFields.style ? Object.fromEntries(edited.style.map((entry) => [entry.key.trim(), entry.value.trim()])) : undefined,
+      geometry: Object.fromEntries(geometry.map((key) => [key, Number(edited.geometry![key])])),
+    });
+    if (!plan.success) {
+      toast.error(plan.message);
+      return;
+    }
+    if (!onApplyPatch({ source: 'inspector', summary: plan.message, operations: plan.operations })) return;
+    // Clean again, so the page's new values can come in.
+    form.reset(edited);
+    toast.success(plan.message);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="label"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Label</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} />
+              </FormControl>
+              {details.html && <FormDescription>Stored as HTML; editing it replaces any formatting.</FormDescription>}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {details.geometry && (
+          <div className="grid grid-cols-4 gap-2">
+            {(['x', 'y', 'width', 'height'] as const).map((key) => (
+              <FormField
+                key={key}
+                control={form.control}
+                name={`geometry.${key}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="capitalize">{key}</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Style</span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => style.append({ key: '', value: '' })}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          {style.fields.map((entry, index) => (
+            <div key={entry.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`style.${index}.key`}
+                render={({ field }) => (
+                  <FormItem className="flex-1 space-y-1">
+                    <FormControl>
+                      <Input placeholder="key" className="font-mono" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`style.${index}.value`}
+                render={({ field }) => (
+                  <FormItem className="flex-1 space-y-1">
+                    <FormControl>
+                      <Input placeholder="value" className="font-mono" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => style.remove(index)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => form.reset(values)} disabled={!form.formState.isDirty}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reset
+          </Button>
+          <Button type="submit" size="sm" className="bg-gradient-primary" disabled={!form.formState.isDirty}>
+            Apply
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export const InspectorPanel = ({ xml, selectedIds, onSelect, onApplyPatch }: InspectorPanelProps) => {
+  const id = selectedIds.length === 1 ? selectedIds[0] : undefined;
+  const details = useMemo(() => {
+    if (!xml || !id) return undefined;
+    try {
+      return inspectCell(xml, id);
+    } catch (error) {
+      console.error('Failed to inspect cell:', error);
+      return undefined;
+    }
+  }, [xml, id]);
+  const cells = useMemo(() => {
+    if (!xml) return [];
+    try {
+      return listInspectableCells(xml);
+    } catch (error) {
+      console.error('Failed to list cells:', error);
+      return [];
+    }
+  }, [xml]);
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4 p-3 bg-secondary/20 rounded">
+        <div className="flex items-center gap-3 min-w-0">
+          <SlidersHorizontal className="w-5 h-5 text-primary" />
+          <span className="font-medium">Inspector</span>
+          {details && (
+            <Badge variant="secondary" className="text-xs">
+              {details.kind === 'edge' ? 'Connection' : 'Block'}
+            </Badge>
+          )}
+        </div>
+        {cells.length > 0 && (
+          <Select value={details?.id ?? ''} onValueChange={(value) => onSelect([value])}>
+            <SelectTrigger className="w-48 h-8">
+              <SelectValue placeholder="Pick a cell" />
+            </SelectTrigger>
+            <SelectContent>
+              {cells.map((cell) => (
+                <SelectItem key={cell.id} value={cell.id}>
+                  {cell.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <Card className="flex-1 overflow-hidden bg-gradient-secondary">
+        {details ? (
+          <ScrollArea className="h-full">
+            <div className="p-4 space-y-4 text-sm">
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                <dt className="text-muted-foreground">Id</dt>
+                <dd className="font-mono truncate">{details.id}</dd>
+                <dt className="text-muted-foreground">Parent</dt>
+                <dd className="min-w-0">{details.parent ? <CellButton link={details.parent} onSelect={onSelect} /> : 'None'}</dd>
+                {details.kind === 'edge' && (
+                  <>
+                    <dt className="text-muted-foreground">From</dt>
+                    <dd className="min-w-0">{details.source ? <CellButton link={details.source} onSelect={onSelect} /> : 'Nothing'}</dd>
+                    <dt className="text-muted-foreground">To</dt>
+                    <dd className="min-w-0">{details.target ? <CellButton link={details.target} onSelect={onSelect} /> : 'Nothing'}</dd>
+                  </>
+                )}
+              </dl>
+
+              {details.kind === 'vertex' && (
+                <div className="space-y-1">
+                  <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    Connections ({details.connections.length})
+                  </span>
+                  {details.connections.map((connection) => (
+                    <div key={connection.id} className="flex items-center gap-2 min-w-0">
+                      {connection.direction === 'in' ? (
+                        <ArrowLeft className="w-3 h-3 shrink-0 text-muted-foreground" />
+                      ) : (
+                        <ArrowRight className="w-3 h-3 shrink-0 text-muted-foreground" />
+                      )}
+                      <CellButton link={connection} onSelect={onSelect} />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <PropertiesForm key={details.id} xml={xml} details={details} onApplyPatch={onApplyPatch} />
+            </div>
+          </ScrollArea>
+        ) : (
+          <div className="flex items-center justify-center h-full text-center p-8">
+            <div>
+              <SlidersHorizontal className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">{selectedIds.length > 1 ? `${selectedIds.length} cells selected` : 'Nothing selected'}</h3>
+              <p className="text-muted-foreground">
+                {xml ? 'Select one block or connection in the viewer to see and edit its properties' : 'Upload an XML or DrawIO file to inspect its cells'}
+              </p>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
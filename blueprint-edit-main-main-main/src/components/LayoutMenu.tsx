@@ -0,0 +1,41 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LayoutGrid } from "lucide-react";
+import { LAYOUT_ALGORITHMS, type LayoutAlgorithm } from "@/lib/diagram/layout";
+
+interface LayoutMenuProps {
+  onLayout: (algorithm: LayoutAlgorithm) => void;
+  // Blocks selected in the viewer; only they move when there are any.
+  selectedCount?: number;
+  disabled?: boolean;
+}
+
+export const LayoutMenu = ({ onLayout, selectedCount = 0, disabled }: LayoutMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" size="sm" disabled={disabled} title={selectedCount > 0 ? 'Auto-layout the selected blocks' : 'Auto-layout this page'}>
+        <LayoutGrid className="w-4 h-4 mr-1" />
+        Layout
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-64">
+      <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+        {selectedCount > 0 ? `Only the ${selectedCount} selected block(s) move; locked` : 'Locked'} blocks stay where they are
+      </DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      {(Object.keys(LAYOUT_ALGORITHMS) as LayoutAlgorithm[]).map((algorithm) => (
+        <DropdownMenuItem key={algorithm} onClick={() => onLayout(algorithm)} className="flex-col items-start">
+          <span>{LAYOUT_ALGORITHMS[algorithm].label}</span>
+          <span className="text-xs text-muted-foreground">{LAYOUT_ALGORITHMS[algorithm].description}</span>
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
@@ -0,0 +1,161 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { GitMerge } from "lucide-react";
+import { mergeDiagrams, type MergeResolutions, type MergeResult, type MergeSide } from "@/lib/diagram/merge";
+
+interface MergeDialogProps {
+  // The working copy, merged into as "ours".
+  current: string;
+  // Default common ancestor: the file as it was uploaded.
+  uploaded?: string;
+  onMerge: (xml: string, summary: string) => void;
+}
+
+interface LoadedFile {
+  name: string;
+  xml: string;
+}
+
+const readFile = (file: File): Promise<LoadedFile> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve({ name: file.name, xml: e.target?.result as string });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+export const MergeDialog = ({ current, uploaded, onMerge }: MergeDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [theirs, setTheirs] = useState<LoadedFile | null>(null);
+  const [base, setBase] = useState<LoadedFile | null>(null);
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+
+  const baseXml = base?.xml ?? uploaded;
+
+  const result = useMemo<MergeResult | string | null>(() => {
+    if (!theirs || !baseXml) return null;
+    try {
+      return mergeDiagrams(baseXml, current, theirs.xml, resolutions);
+    } catch (error) {
+      console.error('Merge failed:', error);
+      return error instanceof Error ? error.message : 'The files could not be merged';
+    }
+  }, [baseXml, current, theirs, resolutions]);
+
+  const conflicts = result && typeof result !== 'string' ? result.conflicts : [];
+  const unresolved = conflicts.filter((conflict) => !resolutions[conflict.key]).length;
+
+  const handleFile = (setter: (file: LoadedFile | null) => void) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setResolutions({});
+    setter(file ? await readFile(file) : null);
+  };
+
+  const resolve = (key: string, side: MergeSide) => setResolutions((previous) => ({ ...previous, [key]: side }));
+
+  const handleApply = () => {
+    if (!result || typeof result === 'string' || !theirs) return;
+    onMerge(result.xml, `Merged ${theirs.name}`);
+    setOpen(false);
+    setTheirs(null);
+    setBase(null);
+    setResolutions({});
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!current}>
+          <GitMerge className="w-4 h-4 mr-2" />
+          Merge…
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Merge another copy</DialogTitle>
+          <DialogDescription>
+            Brings in changes someone else made to a copy of this file. Edits to different cells merge automatically;
+            edits to the same label, style or geometry need a decision.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="merge-theirs">Their copy</Label>
+            <Input id="merge-theirs" type="file" accept=".xml,.drawio" onChange={handleFile(setTheirs)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="merge-base">Common ancestor {uploaded && <span className="text-muted-foreground">(defaults to the upload)</span>}</Label>
+            <Input id="merge-base" type="file" accept=".xml,.drawio" onChange={handleFile(setBase)} />
+          </div>
+        </div>
+
+        {typeof result === 'string' && <p className="text-sm text-destructive">{result}</p>}
+        {!baseXml && theirs && <p className="text-sm text-destructive">Choose the version both copies started from.</p>}
+
+        {result && typeof result !== 'string' && (
+          <div className="max-h-80 overflow-auto pr-2">
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm font-medium">{result.merged.length} change(s) merged automatically</p>
+                <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                  {result.merged.map((line, index) => <li key={index}>• {line}</li>)}
+                </ul>
+              </div>
+
+              {conflicts.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">{conflicts.length} conflict(s)</p>
+                  {conflicts.map((conflict) => (
+                    <div key={conflict.key} className="rounded-md border border-border/50 p-2 space-y-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Badge variant="secondary">{conflict.aspect}</Badge>
+                        <span className="font-medium truncate">{conflict.name}</span>
+                        <span className="ml-auto text-xs text-muted-foreground">{conflict.pageName}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">Was: {conflict.base}</p>
+                      <div className="grid grid-cols-2 gap-2">
+                        {(['ours', 'theirs'] as const).map((side) => (
+                          <button
+                            key={side}
+                            type="button"
+                            onClick={() => resolve(conflict.key, side)}
+                            className={`rounded-md border p-2 text-left text-xs transition-colors hover:bg-secondary/50 ${
+                              resolutions[conflict.key] === side ? 'border-primary bg-primary/10' : 'border-border/50'
+                            }`}
+                          >
+                            <span className="block font-medium">{side === 'ours' ? 'Keep ours' : 'Take theirs'}</span>
+                            <span className="break-all">{conflict[side]}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleApply} disabled={!result || typeof result === 'string' || unresolved > 0}>
+            {unresolved > 0 ? `Resolve ${unresolved} conflict(s)` : 'Apply merge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
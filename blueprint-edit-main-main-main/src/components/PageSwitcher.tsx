@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Copy, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import type { DiagramPageInfo } from "@/lib/diagram/pages";
+
+export interface PageSwitcherProps {
+  pages: DiagramPageInfo[];
+  activePageId: string;
+  onSelect: (pageId: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (pageId: string, name: string) => void;
+  onDuplicate: (pageId: string) => void;
+  onDelete: (pageId: string) => void;
+}
+
+type NameDialog = { mode: 'add' | 'rename'; value: string } | null;
+
+export const PageSwitcher = ({ pages, activePageId, onSelect, onAdd, onRename, onDuplicate, onDelete }: PageSwitcherProps) => {
+  const [nameDialog, setNameDialog] = useState<NameDialog>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const activePage = pages.find((page) => page.id === activePageId) || pages[0];
+
+  if (!activePage) return null;
+
+  const handleSubmitName = () => {
+    if (!nameDialog || !nameDialog.value.trim()) return;
+    if (nameDialog.mode === 'add') {
+      onAdd(nameDialog.value);
+    } else {
+      onRename(activePage.id, nameDialog.value);
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={activePage.id} onValueChange={onSelect}>
+        <SelectTrigger className="h-8 w-40 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {pages.map((page) => (
+            <SelectItem key={page.id} value={page.id} className="text-xs">
+              {page.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8 px-2">
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setNameDialog({ mode: 'add', value: '' })}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add page
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setNameDialog({ mode: 'rename', value: activePage.name })}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Rename page
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onDuplicate(activePage.id)}>
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicate page
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={pages.length <= 1}
+            onClick={() => setIsConfirmingDelete(true)}
+            className="text-destructive"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete page
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!nameDialog} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.mode === 'add' ? 'Add page' : 'Rename page'}</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            value={nameDialog?.value || ''}
+            placeholder="Page name"
+            onChange={(e) => setNameDialog((prev) => prev && { ...prev, value: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmitName()}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitName} disabled={!nameDialog?.value.trim()}>
+              {nameDialog?.mode === 'add' ? 'Add' : 'Rename'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{activePage.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All blocks and connections on this page will be removed from the file.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onDelete(activePage.id)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
+import { defaultKeymap, history, historyKeymap } from "@codemirror/commands";
+import { xml } from "@codemirror/lang-xml";
+import {
+  bracketMatching,
+  foldEffect,
+  foldGutter,
+  foldKeymap,
+  HighlightStyle,
+  indentOnInput,
+  syntaxHighlighting,
+  unfoldAll,
+} from "@codemirror/language";
+import { lintGutter, lintKeymap, setDiagnostics } from "@codemirror/lint";
+import { Annotation, Compartment, EditorState, RangeSetBuilder, StateEffect, StateField } from "@codemirror/state";
+import {
+  Decoration,
+  drawSelection,
+  EditorView,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  keymap,
+  lineNumbers,
+  type DecorationSet,
+} from "@codemirror/view";
+import { tags } from "@lezer/highlight";
+import { cellsInRange, findCellSpans } from "@/lib/diagram/source";
+import type { XmlProblem } from "@/lib/diagram/validation";
+
+export interface XmlCodeEditorHandle {
+  // Collapses every cell element to its opening tag.
+  foldCells: () => void;
+  unfoldAll: () => void;
+}
+
+interface XmlCodeEditorProps {
+  value: string;
+  onChange?: (value: string) => void;
+  readOnly?: boolean;
+  // Marked inline and in the gutter.
+  problems?: XmlProblem[];
+  // Lines of these cells are tinted; putting the cursor in a cell selects it.
+  selectedIds?: string[];
+  onSelect?: (ids: string[]) => void;
+  className?: string;
+}
+
+// Colours from the app's theme, which is dark.
+const highlightStyle = HighlightStyle.define([
+  { tag: tags.tagName, color: 'hsl(217 91% 70%)' },
+  { tag: tags.attributeName, color: 'hsl(188 80% 55%)' },
+  { tag: tags.attributeValue, color: 'hsl(35 90% 65%)' },
+  { tag: [tags.angleBracket, tags.definitionOperator], color: 'hsl(215 20% 55%)' },
+  { tag: tags.comment, color: 'hsl(215 20% 50%)', fontStyle: 'italic' },
+  { tag: [tags.processingInstruction, tags.documentMeta], color: 'hsl(262 60% 70%)' },
+  { tag: tags.character, color: 'hsl(330 70% 70%)' },
+]);
+
+const theme = EditorView.theme(
+  {
+    '&': { height: '100%', fontSize: '0.875rem', backgroundColor: 'transparent', color: 'hsl(var(--foreground))' },
+    '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+    '.cm-gutters': { backgroundColor: 'transparent', color: 'hsl(var(--muted-foreground))', border: 'none' },
+    '.cm-activeLine, .cm-activeLineGutter': { backgroundColor: 'hsl(var(--muted) / 0.5)' },
+    '.cm-cursor': { borderLeftColor: 'hsl(var(--foreground))' },
+    '&.cm-focused .cm-selectionBackground, .cm-selectionBackground': { backgroundColor: 'hsl(var(--primary) / 0.3)' },
+    '.cm-selectedCell': { backgroundColor: 'hsl(var(--primary) / 0.15)' },
+    '.cm-foldPlaceholder': { backgroundColor: 'hsl(var(--secondary))', border: 'none', color: 'hsl(var(--foreground))' },
+    '.cm-tooltip': { backgroundColor: 'hsl(var(--popover))', color: 'hsl(var(--popover-foreground))', border: '1px solid hsl(var(--border))' },
+  },
+  { dark: true },
+);
+
+const NO_PROBLEMS: XmlProblem[] = [];
+
+// Marks changes the component makes itself, so they are not reported back.
+const external = Annotation.define<boolean>();
+
+const setSelectedCells = StateEffect.define<string[]>();
+
+const selectedLines = (state: EditorState, ids: string[]): DecorationSet => {
+  if (ids.length === 0) return Decoration.none;
+  const lines = new Set<number>();
+  findCellSpans(state.doc.toString())
+    .filter((span) => ids.includes(span.id))
+    .forEach((span) => {
+      for (let line = state.doc.lineAt(span.start).number; line <= state.doc.lineAt(span.end).number; line++) lines.add(line);
+    });
+  const builder = new RangeSetBuilder<Decoration>();
+  Array.from(lines)
+    .sort((a, b) => a - b)
+    .forEach((line) => {
+      const from = state.doc.line(line).from;
+      builder.add(from, from, Decoration.line({ class: 'cm-selectedCell' }));
+    });
+  return builder.finish();
+};
+
+const selectedCellsField = StateField.define<{ ids: string[]; decorations: DecorationSet }>({
+  create: () => ({ ids: [], decorations: Decoration.none }),
+  update: (value, transaction) => {
+    const ids = transaction.effects.reduce((current, effect) => (effect.is(setSelectedCells) ? effect.value : current), value.ids);
+    if (ids === value.ids && !transaction.docChanged) return value;
+    return { ids, decorations: selectedLines(transaction.state, ids) };
+  },
+  provide: (field) => EditorView.decorations.from(field, (value) => value.decorations),
+});
+
+const cellsAtCursor = (state: EditorState): string[] =>
+  cellsInRange(findCellSpans(state.doc.toString()), state.selection.main.from, state.selection.main.to);
+
+// A CodeMirror editor for one page's XML, kept in step with `value`.
+export const XmlCodeEditor = forwardRef<XmlCodeEditorHandle, XmlCodeEditorProps>(
+  ({ value, onChange, readOnly = false, problems = NO_PROBLEMS, selectedIds = [], onSelect, className }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const viewRef = useRef<EditorView | null>(null);
+    const readOnlyCompartment = useRef(new Compartment());
+    // The editor is set up once, so it reads the latest props from here.
+    const selectionKey = selectedIds.join(' ');
+    const latest = useRef({ value, readOnly, onChange, onSelect, selectionKey });
+    latest.current = { value, readOnly, onChange, onSelect, selectionKey };
+
+    useEffect(() => {
+      const view = new EditorView({
+        parent: containerRef.current!,
+        state: EditorState.create({
+          doc: latest.current.value,
+          extensions: [
+            lineNumbers(),
+            foldGutter(),
+            lintGutter(),
+            highlightActiveLine(),
+            highlightActiveLineGutter(),
+            drawSelection(),
+            history(),
+            indentOnInput(),
+            bracketMatching(),
+            keymap.of([...defaultKeymap, ...historyKeymap, ...foldKeymap, ...lintKeymap]),
+            xml(),
+            syntaxHighlighting(highlightStyle),
+            EditorView.lineWrapping,
+            theme,
+            selectedCellsField,
+            readOnlyCompartment.current.of(EditorState.readOnly.of(latest.current.readOnly)),
+            EditorView.updateListener.of((update) => {
+              if (update.transactions.some((transaction) => transaction.annotation(external))) return;
+              if (update.docChanged) latest.current.onChange?.(update.state.doc.toString());
+              if (update.selectionSet && latest.current.onSelect) {
+                const ids = cellsAtCursor(update.state);
+                if (ids.join(' ') !== latest.current.selectionKey) latest.current.onSelect(ids);
+              }
+            }),
+          ],
+        }),
+      });
+      viewRef.current = view;
+      return () => {
+        view.destroy();
+        viewRef.current = null;
+      };
+    }, []);
+
+    useEffect(() => {
+      const view = viewRef.current;
+      if (!view || view.state.doc.toString() === value) return;
+      view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value }, annotations: external.of(true) });
+    }, [value]);
+
+    useEffect(() => {
+      viewRef.current?.dispatch({ effects: readOnlyCompartment.current.reconfigure(EditorState.readOnly.of(readOnly)) });
+    }, [readOnly]);
+
+    useEffect(() => {
+      const view = viewRef.current;
+      if (!view) return;
+      const length = view.state.doc.length;
+      const diagnostics = problems.map((problem) => ({
+        from: Math.min(problem.from, length),
+        to: Math.min(problem.to, length),
+        severity: 'error' as const,
+        message: problem.message,
+      }));
+      view.dispatch(setDiagnostics(view.state, diagnostics));
+    }, [problems]);
+
+    // A selection made elsewhere tints its lines and, unless the cursor is
+    // already in one of them, brings the first into view.
+    useEffect(() => {
+      const view = viewRef.current;
+      if (!view) return;
+      const ids = selectionKey ? selectionKey.split(' ') : [];
+      const span = cellsAtCursor(view.state).some((id) => ids.includes(id))
+        ? undefined
+        : findCellSpans(view.state.doc.toString()).find((candidate) => candidate.id === ids[0]);
+      view.dispatch({
+        effects: [setSelectedCells.of(ids), ...(span ? [EditorView.scrollIntoView(span.start, { y: 'center' })] : [])],
+        selection: span ? { anchor: span.start } : undefined,
+        annotations: external.of(true),
+      });
+    }, [selectionKey]);
+
+    useImperativeHandle(ref, () => ({
+      foldCells: () => {
+        const view = viewRef.current;
+        if (!view) return;
+        const text = view.state.doc.toString();
+        const effects = findCellSpans(text)
+          .map((span) => ({ from: text.indexOf('>', span.start) + 1, to: text.lastIndexOf('</', span.end) }))
+          .filter((range) => range.to > range.from && view.state.doc.lineAt(range.from).number < view.state.doc.lineAt(range.to).number)
+          .map((range) => foldEffect.of(range));
+        view.dispatch({ effects });
+      },
+      unfoldAll: () => {
+        if (viewRef.current) unfoldAll(viewRef.current);
+      },
+    }));
+
+    return <div ref={containerRef} className={className} />;
+  },
+);
+XmlCodeEditor.displayName = 'XmlCodeEditor';
@@ -2,6 +2,8 @@ import { useMemo, useState } from "react";
 import ReactFlow, { 
   Node, 
   Edge,
+  EdgeMarker,
+  MarkerType,
   Background,
   Controls,
   MiniMap
@@ -9,81 +11,158 @@ import ReactFlow, {
 import 'reactflow/dist/style.css';
 import { Card } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
+import { inflateDiagramXml } from "@/lib/diagram/compression";
+import { getCells, parseDiagram, type DiagramCell, type DiagramPoint } from "@/lib/diagram/model";
+import {
+  createGeometryResolver,
+  edgeLabelPoint,
+  hasFixedPorts,
+  resolveEdgePoints,
+  resolveVertexBounds,
+  type GeometryResolver,
+} from "@/lib/diagram/render";
+import { resolveEdgeAppearance, resolveVertexAppearance } from "@/lib/diagram/appearance";
+import { labelToText } from "@/lib/diagram/labels";
+import { getPageXml, listPages } from "@/lib/diagram/pages";
+import { isStyleFlagSet, type StyleMap } from "@/lib/diagram/style";
+import { AnchorNode, ShapeNode, type ShapeNodeData } from "./DiagramNodes";
+import { PolylineEdge, type PolylineEdgeData } from "./DiagramEdges";
 
 interface XmlDiagramRendererProps {
+  // A page model, or a whole file of which `pageId` is shown.
   xml: string;
+  // Defaults to the file's first page.
+  pageId?: string;
   className?: string;
 }
 
-interface XmlNode {
-  id: string;
-  value: string;
-  style?: any;
-  geometry?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-}
+// A single node type covers every vertex; DiagramShape picks the outline from the style.
+const nodeTypes = { diagramShape: ShapeNode, anchor: AnchorNode };
+const edgeTypes = { polyline: PolylineEdge };
+
+const MARKERS: Record<string, MarkerType | undefined> = {
+  classic: MarkerType.ArrowClosed,
+  classicThin: MarkerType.ArrowClosed,
+  block: MarkerType.ArrowClosed,
+  blockThin: MarkerType.ArrowClosed,
+  open: MarkerType.Arrow,
+  openThin: MarkerType.Arrow,
+};
+
+const toMarker = (arrow: string, color: string): EdgeMarker | undefined => {
+  const type = MARKERS[arrow];
+  return type ? { type, color: color === 'none' ? undefined : color } : undefined;
+};
 
-function uint8ToBase64(bytes: Uint8Array): string {
-  let binary = "";
-  const chunk = 0x8000;
-  for (let i = 0; i < bytes.length; i += chunk) {
-    const sub = bytes.subarray(i, i + chunk);
-    binary += String.fromCharCode.apply(null, Array.from(sub) as unknown as number[]);
+// mxGraph edge styles mapped onto the closest ReactFlow edge type.
+const toEdgeType = (style: StyleMap, rounded: boolean): string => {
+  if (isStyleFlagSet(style, 'curved')) return 'default';
+  switch (style.edgeStyle) {
+    case 'orthogonalEdgeStyle':
+    case 'elbowEdgeStyle':
+    case 'entityRelationEdgeStyle':
+    case 'isometricEdgeStyle':
+      return rounded ? 'smoothstep' : 'step';
+    default:
+      return 'straight';
   }
-  return btoa(binary);
-}
+};
+
+// Children of groups, swimlanes and containers become ReactFlow child nodes,
+// positioned relative to their parent's resolved bounds.
+const toNode = (cell: DiagramCell, resolver: GeometryResolver): Node<ShapeNodeData> => {
+  const bounds = resolveVertexBounds(cell, resolver);
+  const parent = cell.parent ? resolver.byId.get(cell.parent) : undefined;
+  const container = parent?.vertex && parent.geometry ? resolver.boundsOf(parent) : undefined;
+  const appearance = resolveVertexAppearance(cell.style);
+  return {
+    id: cell.id,
+    type: 'diagramShape',
+    position: container ? { x: bounds.x - container.x, y: bounds.y - container.y } : { x: bounds.x, y: bounds.y },
+    parentNode: container ? parent.id : undefined,
+    data: {
+      label: cell.value,
+      style: cell.style,
+      appearance,
+      width: bounds.width,
+      height: bounds.height,
+    },
+    style: { width: bounds.width, height: bounds.height },
+  };
+};
+
+// ReactFlow needs every parent node listed before its children.
+const depthOf = (node: Node, byId: Map<string, Node>): number =>
+  node.parentNode && byId.has(node.parentNode) ? depthOf(byId.get(node.parentNode) as Node, byId) + 1 : 0;
+
+const toEdge = (cell: DiagramCell): Edge => {
+  const appearance = resolveEdgeAppearance(cell.style);
+  const stroke = appearance.stroke === 'none' ? 'transparent' : appearance.stroke;
+  return {
+    id: cell.id,
+    source: cell.source as string,
+    target: cell.target as string,
+    type: toEdgeType(cell.style, appearance.rounded),
+    animated: false,
+    label: cell.value ? labelToText(cell.value, appearance.label.html) : undefined,
+    labelStyle: { fontSize: appearance.label.fontSize, fill: appearance.label.fontColor },
+    labelBgStyle: appearance.label.background ? { fill: appearance.label.background } : undefined,
+    style: {
+      stroke,
+      strokeWidth: appearance.strokeWidth,
+      strokeDasharray: appearance.dashArray,
+      opacity: appearance.opacity,
+    },
+    markerEnd: toMarker(appearance.endArrow, appearance.stroke),
+    markerStart: toMarker(appearance.startArrow, appearance.stroke),
+  };
+};
 
-const parseXmlToNodes = (xmlString: string): { nodes: Node[]; edges: Edge[] } => {
+const parseXmlToNodes = (xmlString: string, pageId?: string): { nodes: Node[]; edges: Edge[] } => {
   try {
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(xmlString, "text/xml");
-    const cells = xmlDoc.getElementsByTagName("mxCell");
+    const file = inflateDiagramXml(xmlString).xml;
+    const cells = getCells(parseDiagram(getPageXml(file, pageId ?? listPages(file)[0].id)));
     
     const nodes: Node[] = [];
     const edges: Edge[] = [];
     
-    Array.from(cells).forEach((cell) => {
-      const id = cell.getAttribute("id") || "";
-      const value = cell.getAttribute("value") || "";
-      const geometry = cell.getElementsByTagName("mxGeometry")[0];
-      
-      if (geometry) {
-        const x = parseFloat(geometry.getAttribute("x") || "0");
-        const y = parseFloat(geometry.getAttribute("y") || "0");
-        const width = parseFloat(geometry.getAttribute("width") || "100");
-        const height = parseFloat(geometry.getAttribute("height") || "40");
-        
-        if (cell.getAttribute("edge") === "1") {
-          const source = cell.getAttribute("source") || "";
-          const target = cell.getAttribute("target") || "";
-          edges.push({
-            id,
-            source,
-            target,
-            type: 'smoothstep',
-            animated: false
-          });
-        } else {
-          nodes.push({
-            id,
-            position: { x, y },
-            data: { label: value },
-            style: {
-              width,
-              height,
-              border: '1px solid #000',
-              padding: 10,
-              borderRadius: 5,
-              backgroundColor: '#fff'
-            }
-          });
+    const resolver = createGeometryResolver(cells);
+    const vertexIds = new Set(cells.filter((cell) => cell.vertex && cell.geometry).map((cell) => cell.id));
+
+    // Floating ends get an invisible anchor node at the point they were drawn.
+    const terminal = (id: string | undefined, anchorId: string, point: DiagramPoint): string => {
+      if (id && vertexIds.has(id)) return id;
+      nodes.push({ id: anchorId, type: 'anchor', position: point, data: {}, selectable: false, draggable: false });
+      return anchorId;
+    };
+
+    cells.forEach((cell) => {
+      if (!cell.geometry) return;
+
+      if (cell.edge) {
+        const attached = vertexIds.has(cell.source) && vertexIds.has(cell.target);
+        if (attached && cell.geometry.points.length === 0 && !hasFixedPorts(cell.style)) {
+          edges.push(toEdge(cell));
+          return;
         }
+
+        const points = resolveEdgePoints(cell, resolver);
+        if (points.length < 2) return;
+        edges.push({
+          ...toEdge(cell),
+          type: 'polyline',
+          source: terminal(cell.source, `${cell.id}-source`, points[0]),
+          target: terminal(cell.target, `${cell.id}-target`, points[points.length - 1]),
+          data: { points, labelPoint: edgeLabelPoint(cell.geometry, points) } satisfies PolylineEdgeData,
+        });
+      } else if (cell.vertex) {
+        nodes.push(toNode(cell, resolver));
       }
     });
+
+    const byId = new Map(nodes.map((node) => [node.id, node]));
+    const depths = new Map(nodes.map((node) => [node.id, depthOf(node, byId)]));
+    nodes.sort((a, b) => depths.get(a.id) - depths.get(b.id));
     
     return { nodes, edges };
   } catch (error) {
@@ -92,9 +171,9 @@ const parseXmlToNodes = (xmlString: string): { nodes: Node[]; edges: Edge[] } =>
   }
 };
 
-export const XmlDiagramRenderer = ({ xml, className }: XmlDiagramRendererProps) => {
+export const XmlDiagramRenderer = ({ xml, pageId, className }: XmlDiagramRendererProps) => {
   const [isLoading, setIsLoading] = useState(true);
-  const { nodes, edges } = useMemo(() => parseXmlToNodes(xml), [xml]);
+  const { nodes, edges } = useMemo(() => parseXmlToNodes(xml, pageId), [xml, pageId]);
 
   if (nodes.length === 0 && edges.length === 0) {
     return (
@@ -117,6 +196,8 @@ export const XmlDiagramRenderer = ({ xml, className }: XmlDiagramRendererProps)
       <ReactFlow
         nodes={nodes}
         edges={edges}
+        nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
         fitView
         className={className}
         onInit={() => setIsLoading(false)}
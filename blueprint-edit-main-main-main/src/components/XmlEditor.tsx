@@ -1,35 +1,75 @@
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Download, RotateCcw, FileText } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Copy, Download, RotateCcw, FileText, ChevronsDownUp, ChevronsUpDown } from "lucide-react";
 import { toast } from "sonner";
+import { deflateDiagramXml } from "@/lib/diagram/compression";
+import { diffPatch, type DiagramPatch } from "@/lib/diagram/patch";
+import { validateDiagramXml } from "@/lib/diagram/validation";
+import { PageSwitcher, type PageSwitcherProps } from "./PageSwitcher";
+import { XmlCodeEditor, type XmlCodeEditorHandle } from "./XmlCodeEditor";
 
 interface XmlEditorProps {
+  // The active page's model, which is what gets shown and edited.
   content: string;
-  onChange: (content: string) => void;
+  pageId: string;
+  // The whole file including every page, used for copy and download.
+  fileContent?: string;
+  // Receives the save as a patch against the page the edit started from;
+  // returns false if it was rejected.
+  onApplyPatch: (pageId: string, patch: DiagramPatch) => boolean;
+  // Whether the uploaded file stored its pages compressed; listed first when saving.
+  defaultCompressed?: boolean;
+  pageSwitcher?: PageSwitcherProps;
+  // Cells selected in the viewer, marked in the code. Putting the cursor in a
+  // cell's code selects it there too.
+  selectedIds?: string[];
+  onSelect?: (ids: string[]) => void;
 }
 
-export const XmlEditor = ({ content, onChange }: XmlEditorProps) => {
+export const XmlEditor = ({ content, pageId, fileContent, onApplyPatch, defaultCompressed = false, pageSwitcher, selectedIds = [], onSelect }: XmlEditorProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(content);
+  // The page and text the edit started from. Saving over anything else would
+  // undo changes made meanwhile, or write this page's text to another page.
+  const [editBase, setEditBase] = useState({ pageId, xml: content });
+  const isStale = isEditing && (editBase.pageId !== pageId || editBase.xml !== content);
+  const editorRef = useRef<XmlCodeEditorHandle>(null);
+  const shownXml = isEditing ? editContent : content;
+  const problems = useMemo(() => (shownXml ? validateDiagramXml(shownXml) : []), [shownXml]);
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(content);
+      await navigator.clipboard.writeText(fileContent || content);
       toast.success("XML copied to clipboard!");
     } catch (error) {
       toast.error("Failed to copy XML");
     }
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([content], { type: 'application/xml' });
+  const handleDownload = (compressed: boolean) => {
+    let data = fileContent || content;
+    if (compressed) {
+      try {
+        data = deflateDiagramXml(data);
+      } catch (error) {
+        console.error('Failed to compress diagram:', error);
+        toast.error("Failed to compress XML");
+        return;
+      }
+    }
+    const blob = new Blob([data], { type: 'application/xml' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = 'architecture.xml';
+    link.download = compressed ? 'architecture.drawio' : 'architecture.xml';
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -38,43 +78,25 @@ export const XmlEditor = ({ content, onChange }: XmlEditorProps) => {
   };
 
   const handleSave = () => {
-    onChange(editContent);
+    if (problems.length > 0) return;
+    if (isStale) {
+      toast.error("The page has changed since you started editing. Copy your text out, then discard the edit and start again from the current page.");
+      return;
+    }
+    if (!onApplyPatch(editBase.pageId, diffPatch(editBase.xml, editContent, 'editor', 'Manual XML edit'))) return;
     setIsEditing(false);
     toast.success("XML updated!");
   };
 
-  const handleReset = () => {
+  const startEditing = () => {
+    setEditBase({ pageId, xml: content });
     setEditContent(content);
-    setIsEditing(false);
+    setIsEditing(true);
   };
 
-  const formatXml = (xml: string): string => {
-    if (!xml) return '';
-    
-    // Simple XML formatting
-    let formatted = xml.replace(/></g, '>\n<');
-    const lines = formatted.split('\n');
-    let indent = 0;
-    const indentSize = 2;
-    
-    return lines
-      .map(line => {
-        const trimmed = line.trim();
-        if (!trimmed) return '';
-        
-        if (trimmed.startsWith('</')) {
-          indent = Math.max(0, indent - indentSize);
-        }
-        
-        const result = ' '.repeat(indent) + trimmed;
-        
-        if (trimmed.startsWith('<') && !trimmed.startsWith('</') && !trimmed.endsWith('/>')) {
-          indent += indentSize;
-        }
-        
-        return result;
-      })
-      .join('\n');
+  const handleReset = () => {
+    setEditContent(content);
+    setIsEditing(false);
   };
 
   const getXmlStats = () => {
@@ -88,7 +110,6 @@ export const XmlEditor = ({ content, onChange }: XmlEditorProps) => {
   };
 
   const stats = getXmlStats();
-  const formattedXml = formatXml(isEditing ? editContent : content);
 
   return (
     <div className="h-full flex flex-col">
@@ -105,17 +126,50 @@ export const XmlEditor = ({ content, onChange }: XmlEditorProps) => {
               <Badge variant="secondary" className="text-xs">
                 {stats.elements} elements
               </Badge>
+              {isStale && (
+                <Badge variant="destructive" className="text-xs">
+                  page changed
+                </Badge>
+              )}
+              {problems.length > 0 && (
+                <Badge variant="destructive" className="text-xs">
+                  {problems.length} error(s)
+                </Badge>
+              )}
             </div>
           )}
         </div>
         
         <div className="flex items-center gap-2">
+          {pageSwitcher && !isEditing && <PageSwitcher {...pageSwitcher} />}
+          {content && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => editorRef.current?.foldCells()} title="Fold every cell">
+                <ChevronsDownUp className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => editorRef.current?.unfoldAll()} title="Unfold everything">
+                <ChevronsUpDown className="w-4 h-4" />
+              </Button>
+            </>
+          )}
           {isEditing ? (
             <>
-              <Button variant="outline" size="sm" onClick={handleReset}>
+              <Button variant="outline" size="sm" onClick={handleReset} title="Discard the edit">
                 <RotateCcw className="w-4 h-4" />
               </Button>
-              <Button size="sm" onClick={handleSave} className="bg-gradient-primary">
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={problems.length > 0 || isStale}
+                title={
+                  isStale
+                    ? 'The page has changed since you started editing'
+                    : problems.length > 0
+                      ? `Fix the ${problems.length} error(s) marked in the code first`
+                      : undefined
+                }
+                className="bg-gradient-primary"
+              >
                 Save
               </Button>
             </>
@@ -124,9 +178,23 @@ export const XmlEditor = ({ content, onChange }: XmlEditorProps) => {
               <Button variant="outline" size="sm" onClick={handleCopy} disabled={!content}>
                 <Copy className="w-4 h-4" />
               </Button>
-              <Button variant="outline" size="sm" onClick={handleDownload} disabled={!content}>
-                <Download className="w-4 h-4" />
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={!content}>
+                    <Download className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {[defaultCompressed, !defaultCompressed].map((compressed) => (
+                    <DropdownMenuItem key={String(compressed)} onClick={() => handleDownload(compressed)}>
+                      {compressed ? 'Compressed (.drawio)' : 'Plain XML (.xml)'}
+                      {compressed === defaultCompressed && (
+                        <span className="ml-2 text-xs text-muted-foreground">original format</span>
+                      )}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </>
           )}
         </div>
@@ -135,22 +203,16 @@ export const XmlEditor = ({ content, onChange }: XmlEditorProps) => {
       {/* XML Content */}
       <Card className="flex-1 overflow-hidden bg-gradient-secondary">
         {content ? (
-          <ScrollArea className="h-full">
-            {isEditing ? (
-              <textarea
-                value={editContent}
-                onChange={(e) => setEditContent(e.target.value)}
-                className="w-full h-full min-h-[400px] bg-transparent border-none outline-none p-4 font-mono text-sm resize-none"
-                spellCheck={false}
-              />
-            ) : (
-              <div className="p-4">
-                <pre className="text-sm font-mono text-foreground whitespace-pre-wrap break-all">
-                  {formattedXml}
-                </pre>
-              </div>
-            )}
-          </ScrollArea>
+          <XmlCodeEditor
+            ref={editorRef}
+            value={shownXml}
+            onChange={setEditContent}
+            readOnly={!isEditing}
+            problems={problems}
+            selectedIds={selectedIds}
+            onSelect={onSelect}
+            className="h-full"
+          />
         ) : (
           <div className="flex items-center justify-center h-full text-center p-8">
             <div>
@@ -169,10 +231,7 @@ export const XmlEditor = ({ content, onChange }: XmlEditorProps) => {
         <Button
           variant="outline"
           className="mt-4 w-full"
-          onClick={() => {
-            setEditContent(content);
-            setIsEditing(true);
-          }}
+          onClick={startEditing}
         >
           Edit XML Code
         </Button>
@@ -0,0 +1,93 @@
+import * as React from "react";
+import type { PatchSource } from "@/lib/diagram/patch";
+
+export type HistorySource = PatchSource | 'upload' | 'pages' | 'merge';
+
+// One version of the whole file and the change that produced it.
+export interface HistoryEntry {
+  id: number;
+  xml: string;
+  source: HistorySource;
+  summary: string;
+  timestamp: number;
+  // Page the change was made on, so undo can bring it back into view.
+  pageId?: string;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+const MAX_ENTRIES = 100;
+
+let nextEntryId = 1;
+
+const createEntry = (xml: string, source: HistorySource, summary: string, pageId?: string): HistoryEntry => ({
+  id: nextEntryId++,
+  xml,
+  source,
+  summary,
+  timestamp: Date.now(),
+  pageId,
+});
+
+// Linear undo/redo over file versions. Recording after an undo drops the
+// versions that were ahead of it, like any editor.
+export function useDiagramHistory() {
+  const [state, setState] = React.useState<HistoryState>({ entries: [], index: -1 });
+  const current = state.entries[state.index];
+  // Ahead of `state` until the next render, so calls made before it (two
+  // undos from one key repeat) each start from the previous call's result.
+  const latest = React.useRef(state);
+
+  const update = React.useCallback((change: (previous: HistoryState) => HistoryState) => {
+    latest.current = change(latest.current);
+    setState(change);
+  }, []);
+
+  const record = React.useCallback((xml: string, source: HistorySource, summary: string, pageId?: string) => {
+    const entry = createEntry(xml, source, summary, pageId);
+    update(({ entries, index }) => {
+      if (entries[index]?.xml === xml) return { entries, index };
+      const kept = [...entries.slice(0, index + 1), entry].slice(-MAX_ENTRIES);
+      return { entries: kept, index: kept.length - 1 };
+    });
+  }, [update]);
+
+  // Starts a new history, e.g. when another file is uploaded.
+  const reset = React.useCallback((xml: string, summary: string) => {
+    const entry = createEntry(xml, 'upload', summary);
+    update(() => ({ entries: [entry], index: 0 }));
+  }, [update]);
+
+  const jumpTo = React.useCallback((index: number): HistoryEntry | undefined => {
+    const entry = latest.current.entries[index];
+    if (!entry || index === latest.current.index) return undefined;
+    update(({ entries }) => ({ entries, index }));
+    return entry;
+  }, [update]);
+
+  // Both return the entry whose change was undone or redone.
+  const undo = React.useCallback((): HistoryEntry | undefined => {
+    const { entries, index } = latest.current;
+    if (index <= 0) return undefined;
+    update((previous) => ({ entries: previous.entries, index: previous.index - 1 }));
+    return entries[index];
+  }, [update]);
+
+  const redo = React.useCallback((): HistoryEntry | undefined => jumpTo(latest.current.index + 1), [jumpTo]);
+
+  return {
+    xml: current?.xml ?? "",
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    record,
+    reset,
+    undo,
+    redo,
+    jumpTo,
+  };
+}
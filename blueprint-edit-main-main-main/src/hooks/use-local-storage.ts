@@ -0,0 +1,23 @@
+import * as React from "react";
+
+// useState that survives reloads. Values are stored as JSON under `key`.
+export function useLocalStorage<T>(key: string, initialValue: T) {
+  const [value, setValue] = React.useState<T>(() => {
+    try {
+      const stored = window.localStorage.getItem(key);
+      return stored !== null ? (JSON.parse(stored) as T) : initialValue;
+    } catch {
+      return initialValue;
+    }
+  });
+
+  React.useEffect(() => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Failed to persist ${key}:`, error);
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
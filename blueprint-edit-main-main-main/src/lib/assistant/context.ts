@@ -0,0 +1,36 @@
+import { getCellDisplayName, getCellReferenceName } from "@/lib/diagram/labels";
+import { getCell, getEdges, getVertices, parseDiagram } from "@/lib/diagram/model";
+import type { DiagramContext } from "./types";
+
+// What a model needs to know about the page: named components, how they
+// connect and what the user has selected.
+export const buildDiagramContext = (xml: string, selectedIds: string[] = []): DiagramContext => {
+  const diagram = parseDiagram(xml);
+  const components = getVertices(diagram)
+    .map((cell) => ({ id: cell.id, name: getCellDisplayName(cell) }))
+    .filter((component) => component.name.length > 0);
+  const names = new Map(components.map((component) => [component.id, component.name]));
+  const connections = getEdges(diagram).map((cell) => ({
+    id: cell.id,
+    label: getCellDisplayName(cell),
+    source: cell.source ? names.get(cell.source) ?? cell.source : undefined,
+    target: cell.target ? names.get(cell.target) ?? cell.target : undefined,
+  }));
+  const selection = selectedIds
+    .map((id) => getCell(diagram, id))
+    .filter((cell) => !!cell)
+    .map((cell) => ({ id: cell!.id, name: getCellReferenceName(cell!, (id) => getCell(diagram, id)) }));
+  return { xml, components, connections, selection };
+};
+
+export const describeDiagram = (context: DiagramContext): string => {
+  const components = context.components.map((component) => `- ${component.name}`).join('\n') || '- (none)';
+  const connections = context.connections
+    .filter((connection) => connection.source && connection.target)
+    .map((connection) => `- ${connection.source} -> ${connection.target}${connection.label ? ` (${connection.label})` : ''}`)
+    .join('\n') || '- (none)';
+  const description = `Components:\n${components}\n\nConnections:\n${connections}`;
+  if (context.selection.length === 0) return description;
+  const selection = context.selection.map((cell) => `- ${cell.name}`).join('\n');
+  return `${description}\n\nSelected (refer to these as "the selection"):\n${selection}`;
+};
@@ -0,0 +1,89 @@
+import { buildSystemPrompt, toEditOperations, type ToolCall } from "./tools";
+import type { AssistantProvider, AssistantRequest, ToolDefinition } from "./types";
+
+// No API key: the app runs in the browser, where anything it holds is public.
+// Hosted APIs go through a proxy of your own that adds the key server-side.
+export interface HttpProviderConfig {
+  baseUrl: string;
+  model: string;
+}
+
+// Both APIs describe tools the same way, as OpenAI-style function definitions.
+const toFunctionTool = (tool: ToolDefinition) => ({
+  type: 'function',
+  function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+});
+
+const buildMessages = (request: AssistantRequest) => [
+  { role: 'system', content: buildSystemPrompt(request) },
+  { role: 'user', content: request.prompt },
+];
+
+interface ChatMessage {
+  content?: string | null;
+  tool_calls?: Array<{ function: { name: string; arguments: unknown } }>;
+}
+
+const postJson = async <T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+const readMessage = (message: ChatMessage | undefined) => {
+  const calls: ToolCall[] = (message?.tool_calls ?? []).map((call) => ({
+    name: call.function.name,
+    arguments: call.function.arguments,
+  }));
+  return { operations: toEditOperations(calls), reply: message?.content?.trim() || undefined };
+};
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+// Any server speaking the OpenAI chat completions API: LM Studio, vLLM,
+// llama.cpp's server, a proxy in front of OpenAI, or the mock server in scripts/.
+export const createOpenAIProvider = ({ baseUrl, model }: HttpProviderConfig): AssistantProvider => ({
+  id: 'openai',
+  label: model,
+  complete: async (request, signal) => {
+    const data = await postJson<{ choices?: Array<{ message?: ChatMessage }> }>(
+      `${trimSlash(baseUrl)}/chat/completions`,
+      {
+        model,
+        messages: buildMessages(request),
+        tools: request.tools.map(toFunctionTool),
+        tool_choice: 'auto',
+        temperature: 0,
+      },
+      signal,
+    );
+    return readMessage(data.choices?.[0]?.message);
+  },
+});
+
+// Ollama's native /api/chat endpoint. Tool arguments arrive as objects, not JSON strings.
+export const createOllamaProvider = ({ baseUrl, model }: HttpProviderConfig): AssistantProvider => ({
+  id: 'ollama',
+  label: model,
+  complete: async (request, signal) => {
+    const data = await postJson<{ message?: ChatMessage }>(
+      `${trimSlash(baseUrl)}/api/chat`,
+      {
+        model,
+        messages: buildMessages(request),
+        tools: request.tools.map(toFunctionTool),
+        stream: false,
+        options: { temperature: 0 },
+      },
+      signal,
+    );
+    return readMessage(data.message);
+  },
+});
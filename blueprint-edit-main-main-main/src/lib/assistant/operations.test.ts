@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+import { getCell, getCells, parseDiagram } from "@/lib/diagram/model";
+import { applyPatch } from "@/lib/diagram/patch";
+import { planEditOperations } from "./operations";
+import { interpretMessage, splitCommand } from "./regexProvider";
+import { toEditOperations } from "./tools";
+
+const xml = `<mxGraphModel><root>
+  <mxCell id="0" />
+  <mxCell id="1" parent="0" />
+  <mxCell id="cpu" value="CPU" vertex="1" parent="1"><mxGeometry x="0" y="0" width="80" height="40" as="geometry" /></mxCell>
+  <mxCell id="gpu" value="GPU" vertex="1" parent="1"><mxGeometry x="200" y="0" width="80" height="40" as="geometry" /></mxCell>
+  <mxCell id="bus" edge="1" source="cpu" target="gpu" parent="1"><mxGeometry relative="1" as="geometry" /></mxCell>
+</root></mxGraphModel>`;
+
+const byLabel = (result: string, label: string) => getCells(parseDiagram(result)).find((cell) => cell.value === label);
+
+describe('toEditOperations', () => {
+  it('reads tool calls with string or object arguments', () => {
+    expect(toEditOperations([
+      { name: 'renameComponent', arguments: '{"from":"CPU","to":"Core"}' },
+      { name: 'alignComponents', arguments: { components: ['CPU', 'GPU'], edge: 'top' } },
+    ])).toEqual([
+      { type: 'renameComponent', from: 'CPU', to: 'Core' },
+      { type: 'alignComponents', components: ['CPU', 'GPU'], edge: 'top' },
+    ]);
+  });
+
+  it('drops calls that do not fit the schema', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(toEditOperations([
+      { name: 'layoutDiagram', arguments: { algorithm: 'spiral' } },
+      { name: 'formatDisk', arguments: {} },
+      { name: 'removeComponent', arguments: 'not json' },
+      { name: 'setSize', arguments: { component: 'CPU', size: '120' } },
+    ])).toEqual([{ type: 'setSize', component: 'CPU', size: 120 }]);
+  });
+});
+
+describe('interpretMessage', () => {
+  it('splits a message into commands at verbs only', () => {
+    expect(splitCommand('remove the arrow between CPU and GPU and add a DSP, then make it blue.')).toEqual([
+      'remove the arrow between CPU and GPU',
+      'add a DSP',
+      'make it blue',
+    ]);
+  });
+
+  it('reports the parts it did not understand', () => {
+    const { operations, unmatched } = interpretMessage('rename CPU to Core; sing a song', xml);
+    expect(operations).toEqual([{ type: 'renameComponent', from: 'CPU', to: 'Core' }]);
+    expect(unmatched).toEqual(['sing a song']);
+  });
+});
+
+describe('planEditOperations', () => {
+  it('plans each step against the result of the ones before it', () => {
+    const { patch, changes, steps } = planEditOperations(xml, [
+      { type: 'addComponent', name: 'DMA', connectTo: 'CPU' },
+      { type: 'setColor', component: 'it', color: 'red' },
+      { type: 'removeComponent', component: 'TPU' },
+    ], 'chat', 'test');
+    expect(steps.map((step) => step.success)).toEqual([true, true, false]);
+    expect(changes).toHaveLength(2);
+
+    const result = applyPatch(xml, patch);
+    const dma = byLabel(result, 'DMA');
+    expect(dma?.style.fillColor).toBeDefined();
+    const ends = getCells(parseDiagram(result)).filter((cell) => cell.edge && cell.id !== 'bus').map((cell) => [cell.source, cell.target].sort());
+    expect(ends).toEqual([['cpu', dma?.id].sort()]);
+  });
+
+  it('uses the selection for "these"', () => {
+    const { patch } = planEditOperations(xml, [{ type: 'removeComponent', component: 'these' }], 'chat', 'test', {}, ['gpu']);
+    const result = applyPatch(xml, patch);
+    expect(getCell(parseDiagram(result), 'gpu')).toBeUndefined();
+    expect(getCell(parseDiagram(result), 'cpu')).toBeDefined();
+  });
+
+  it('asks which block was meant instead of guessing', () => {
+    const { patch, steps } = planEditOperations(xml, [{ type: 'removeComponent', component: 'PU' }], 'chat', 'test');
+    expect(patch.operations).toEqual([]);
+    expect(steps[0].ambiguity?.candidates.map((candidate) => candidate.id)).toEqual(['cpu', 'gpu']);
+  });
+});
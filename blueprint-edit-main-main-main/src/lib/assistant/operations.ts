@@ -0,0 +1,183 @@
+import {
+  addComponent,
+  arrangeComponents,
+  connectComponents,
+  groupComponents,
+  layoutComponents,
+  modifyComponentProperty,
+  moveComponents,
+  removeComponent,
+  removeConnections,
+  replaceComponent,
+  ungroupComponent,
+  type ComponentRef,
+  type EditPlan,
+} from "@/lib/diagram/edits";
+import { getCellReferenceName, toSearchKey } from "@/lib/diagram/labels";
+import { AmbiguousComponentError, resolveComponentName, type Ambiguity } from "@/lib/diagram/matching";
+import { getCell, parseDiagram } from "@/lib/diagram/model";
+import { applyPatch, type DiagramPatch, type PatchSource } from "@/lib/diagram/patch";
+import type { EditOperation } from "./types";
+
+// `many` when the name may stand for several blocks, as in "the debug blocks".
+type Resolve = (name: string, many?: boolean) => ComponentRef;
+
+// Resolves component names against the page and turns one assistant operation
+// into patch operations. A name that fits several components plans nothing
+// and reports the candidates instead.
+export const planEditOperation = (xml: string, operation: EditOperation, resolve: Resolve = (name) => name): EditPlan => {
+  try {
+    return planResolvedOperation(xml, operation, resolve);
+  } catch (error) {
+    if (!(error instanceof AmbiguousComponentError)) throw error;
+    return { success: false, operations: [], message: error.message, subjects: [], ambiguity: error.ambiguity };
+  }
+};
+
+const planResolvedOperation = (xml: string, operation: EditOperation, resolve: Resolve): EditPlan => {
+  // Lining up "the debug blocks" means all of them.
+  const arranged = (names: string[]) => names.map((name) => resolve(name, names.length === 1));
+  switch (operation.type) {
+    case 'removeComponent':
+      return removeComponent(xml, resolve(operation.component));
+    case 'renameComponent':
+      return replaceComponent(xml, resolve(operation.from), operation.to);
+    case 'removeConnections':
+      return removeConnections(xml, operation.from && resolve(operation.from), operation.to && resolve(operation.to));
+    case 'addComponent':
+      return addComponent(xml, operation.name, {
+        connectTo: operation.connectTo && resolve(operation.connectTo),
+        position: operation.position && operation.relativeTo ? { relation: operation.position, of: resolve(operation.relativeTo) } : undefined,
+      });
+    case 'connectComponents':
+      return connectComponents(xml, resolve(operation.from), resolve(operation.to), { bidirectional: operation.bidirectional, label: operation.label });
+    case 'setSize':
+      return modifyComponentProperty(xml, resolve(operation.component), String(operation.size), 'size');
+    case 'setColor':
+      return modifyComponentProperty(xml, resolve(operation.component), operation.color, 'color');
+    case 'layoutDiagram':
+      return layoutComponents(xml, operation.algorithm, operation.scope && resolve(operation.scope, true));
+    case 'alignComponents':
+      return arrangeComponents(xml, { kind: 'align', edge: operation.edge }, arranged(operation.components));
+    case 'distributeComponents':
+      return arrangeComponents(xml, { kind: 'distribute', axis: operation.axis }, arranged(operation.components));
+    case 'matchSize':
+      return arrangeComponents(xml, { kind: 'matchSize', dimension: operation.dimension }, arranged(operation.components));
+    case 'snapToGrid':
+      return arrangeComponents(xml, { kind: 'snap' }, arranged(operation.components ?? []));
+    case 'groupComponents':
+      return groupComponents(xml, operation.components.map((name) => resolve(name)), operation.name);
+    case 'ungroupComponent':
+      return ungroupComponent(xml, resolve(operation.component));
+    case 'moveComponents':
+      return moveComponents(xml, operation.components.map((name) => resolve(name)), {
+        into: operation.into && resolve(operation.into),
+        outOf: operation.outOf && resolve(operation.outOf),
+      });
+  }
+};
+
+// "it", "that", "the new block", "the component you just added"...
+const REFERENCE = /^(?:it|this|that|them|(?:the\s+)?(?:new|last|added)\s+(?:one|block|component|node|box)|(?:the\s+)?(?:one|block|component)\s+(?:i|you|we)\s+(?:just\s+)?(?:added|created))$/i;
+const CREATED_REFERENCE = /\b(?:new|added|created)\b/i;
+// "these", "the selection", "the selected blocks"... and "this" or "that"
+// while something is selected.
+const SELECTION_REFERENCE = /^(?:this|that|these|those|(?:the\s+)?selection|(?:the\s+)?selected(?:\s+(?:ones?|blocks?|components?|cells?|items?|connections?|arrows?))?)$/i;
+
+export interface EditStep {
+  operation: EditOperation;
+  success: boolean;
+  message: string;
+  ambiguity?: Ambiguity;
+}
+
+// The cells the user picked for names that were ambiguous, by name.
+export type NameChoices = Record<string, string[]>;
+
+export const withChoice = (choices: NameChoices, name: string, ids: string[]): NameChoices => ({ ...choices, [toSearchKey(name)]: ids });
+
+// Plans the steps of one command against the page as the earlier steps left
+// it, keeping track of what "it" and "the new block" refer to. `selection` is
+// what "this" and "these" mean throughout, and what "it" means until a step
+// changes something else.
+export const createEditSession = (xml: string, choices: NameChoices = {}, selection: string[] = []) => {
+  let current = xml;
+  let created: string[] = [];
+  let touched: string[] = selection;
+  const steps: EditStep[] = [];
+
+  const resolve = (name: string, many = false): ComponentRef => {
+    const diagram = parseDiagram(current);
+    const named = (ids: string[]) =>
+      ids
+        .map((id) => getCell(diagram, id))
+        .filter((cell) => !!cell)
+        .map((cell) => getCellReferenceName(cell!, (id) => getCell(diagram, id)))
+        .join(', ');
+
+    if (SELECTION_REFERENCE.test(name.trim()) && (selection.length > 0 || !REFERENCE.test(name.trim()))) {
+      return { name: named(selection) || name.trim(), ids: selection };
+    }
+    if (REFERENCE.test(name.trim())) {
+      const ids = CREATED_REFERENCE.test(name) ? created : touched;
+      return { name: named(ids) || name.trim(), ids };
+    }
+    const chosen = choices[toSearchKey(name)];
+    if (chosen) return { name: named(chosen) || name.trim(), ids: chosen };
+
+    const resolution = resolveComponentName(diagram, name, many);
+    if (resolution.status === 'ambiguous') throw new AmbiguousComponentError({ name: name.trim(), candidates: resolution.candidates });
+    // Missing names go through as typed, so the edit reports them.
+    if (resolution.status === 'missing') return name;
+    const ids = resolution.candidates.map((candidate) => candidate.id);
+    return { name: ids.length === 1 ? named(ids) || name.trim() : name.trim(), ids };
+  };
+
+  const plan = (operation: EditOperation): EditPlan => planEditOperation(current, operation, resolve);
+
+  // Plans the step and, when it succeeds, applies it for the steps after it.
+  const apply = (operation: EditOperation): EditPlan => {
+    const result = plan(operation);
+    steps.push({ operation, success: result.success, message: result.message, ambiguity: result.ambiguity });
+    if (!result.success) return result;
+
+    current = applyPatch(current, result);
+    touched = result.subjects;
+    if (operation.type === 'addComponent') created = result.subjects;
+    return result;
+  };
+
+  return {
+    get xml() {
+      return current;
+    },
+    steps,
+    plan,
+    apply,
+  };
+};
+
+// Plans operations in order, each against the result of the previous ones, as
+// one patch. Ones that do not match anything are skipped but still reported
+// in `steps`.
+export const planEditOperations = (
+  xml: string,
+  operations: EditOperation[],
+  source: PatchSource,
+  summary: string,
+  choices: NameChoices = {},
+  selection: string[] = [],
+): { patch: DiagramPatch; changes: string[]; steps: EditStep[] } => {
+  const session = createEditSession(xml, choices, selection);
+  const patch: DiagramPatch = { source, summary, operations: [] };
+  const changes: string[] = [];
+
+  operations.forEach((operation) => {
+    const plan = session.apply(operation);
+    if (!plan.success) return;
+    patch.operations.push(...plan.operations);
+    changes.push(plan.message);
+  });
+
+  return { patch, changes, steps: session.steps };
+};
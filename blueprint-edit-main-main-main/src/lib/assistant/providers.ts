@@ -0,0 +1,69 @@
+import { buildDiagramContext } from "./context";
+import { createOllamaProvider, createOpenAIProvider } from "./httpProviders";
+import { regexProvider } from "./regexProvider";
+import { EDIT_TOOLS } from "./tools";
+import type { AssistantProvider, AssistantResponse } from "./types";
+
+export interface AssistantConfig {
+  provider?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+// OpenAI-compatible servers have no default: api.openai.com needs a key,
+// which must not be built into the page.
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  ollama: 'http://localhost:11434',
+};
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export const readAssistantConfig = (): AssistantConfig => ({
+  provider: import.meta.env.VITE_ASSISTANT_PROVIDER,
+  baseUrl: import.meta.env.VITE_ASSISTANT_BASE_URL,
+  model: import.meta.env.VITE_ASSISTANT_MODEL,
+});
+
+// Without a provider and model configured the regex engine handles every command.
+export const createAssistantProvider = (config: AssistantConfig = readAssistantConfig()): AssistantProvider => {
+  const provider = config.provider?.toLowerCase();
+  if (!provider || provider === 'regex' || !config.model) return regexProvider;
+
+  const baseUrl = config.baseUrl || DEFAULT_BASE_URLS[provider];
+  if (!baseUrl) {
+    console.warn(`Assistant provider "${config.provider}" needs VITE_ASSISTANT_BASE_URL, using the built-in command patterns`);
+    return regexProvider;
+  }
+  const http = { baseUrl, model: config.model };
+  if (provider === 'openai') return createOpenAIProvider(http);
+  if (provider === 'ollama') return createOllamaProvider(http);
+
+  console.warn(`Unknown assistant provider "${config.provider}", using the built-in command patterns`);
+  return regexProvider;
+};
+
+export interface AssistantResult extends AssistantResponse {
+  provider: AssistantProvider;
+  // Set when the configured provider failed and the regex engine answered instead.
+  fallbackReason?: string;
+}
+
+// `selection` is the cells picked in the viewer, if any.
+export const askAssistant = async (provider: AssistantProvider, prompt: string, xml: string, selection: string[] = []): Promise<AssistantResult> => {
+  const request = { prompt, diagram: buildDiagramContext(xml, selection), tools: EDIT_TOOLS };
+  if (provider === regexProvider) {
+    return { ...(await regexProvider.complete(request)), provider };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return { ...(await provider.complete(request, controller.signal)), provider };
+  } catch (error) {
+    console.error(`Assistant provider ${provider.id} failed:`, error);
+    const fallbackReason = error instanceof Error ? error.message : String(error);
+    return { ...(await regexProvider.complete(request)), provider: regexProvider, fallbackReason };
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,312 @@
+import { getCellSearchKey, toSearchKey } from "@/lib/diagram/labels";
+import { getVertices, parseDiagram } from "@/lib/diagram/model";
+import type { AlignEdge, SizeDimension } from "@/lib/diagram/arrange";
+import type { LayoutAlgorithm } from "@/lib/diagram/layout";
+import type { PlacementRelation } from "@/lib/diagram/placement";
+import { createEditSession } from "./operations";
+import type { AssistantProvider, EditOperation } from "./types";
+
+type PatternRule = {
+  patterns: RegExp[];
+  toOperation: (match: RegExpMatchArray) => EditOperation;
+};
+
+const toRelation = (phrase: string): PlacementRelation => {
+  const words = phrase.toLowerCase();
+  if (words.includes('right')) return 'right';
+  if (words.includes('left')) return 'left';
+  if (/above|over/.test(words)) return 'above';
+  if (/below|under|beneath/.test(words)) return 'below';
+  return 'inside';
+};
+
+const toAlgorithm = (word?: string): LayoutAlgorithm => {
+  if (!word) return 'layered';
+  if (/grid/i.test(word)) return 'grid';
+  if (/compact|orthogonal/i.test(word)) return 'compact';
+  return 'layered';
+};
+
+// "the debug blocks" -> "debug"; "the diagram" or "everything" -> the whole page.
+const layoutScope = (phrase?: string): string | undefined => {
+  const scope = phrase?.replace(/\s+(?:blocks?|components?|boxes|nodes|parts)$/i, '').trim();
+  return !scope || /^(?:diagram|everything|all|page|architecture|layout|blocks?|components?)$/i.test(scope) ? undefined : scope;
+};
+
+// "CPU, GPU and the DSP" -> ["CPU", "GPU", "DSP"]; "the debug blocks" -> ["debug"].
+const splitNames = (phrase: string): string[] =>
+  phrase
+    .split(/\s*,\s*(?:and\s+)?|\s+and\s+/i)
+    .map((name) => name.replace(/^(?:the|both)\s+/i, '').replace(/\s+(?:blocks?|components?)$/i, '').trim())
+    .filter((name) => name.length > 0);
+
+// Lining blocks up "horizontally" puts them in a row, so their middles meet.
+const toEdge = (word: string): AlignEdge => {
+  const edge = word.toLowerCase();
+  if (edge === 'left' || edge === 'right' || edge === 'top' || edge === 'bottom') return edge;
+  return /middle|horizontal/.test(edge) ? 'middle' : 'center';
+};
+
+const toDimension = (word: string): SizeDimension => (/width/i.test(word) ? 'width' : /height/i.test(word) ? 'height' : 'both');
+
+// Component names can span several words, so patterns capture up to the end of the command.
+const RULES: PatternRule[] = [
+  // 1. CONNECTION/ARROW REMOVAL - before component removal so "remove the arrow
+  // between A and B" is not read as a component name
+  {
+    patterns: [
+      /remove\s+(?:all\s+)?(?:the\s+)?(?:arrow|connection|line|wire)s?(?:\s+between\s+(.+?)\s+and\s+(.+?))?$/i,
+      /delete\s+(?:all\s+)?(?:the\s+)?(?:arrow|connection|line|wire)s?(?:\s+between\s+(.+?)\s+and\s+(.+?))?$/i,
+      /disconnect\s+(.+?)(?:\s+(?:from|and)\s+(.+?))?$/i,
+    ],
+    toOperation: (match) => ({ type: 'removeConnections', from: match[1], to: match[2] }),
+  },
+  // 2. CONNECTION CREATION - before renaming and addition, which would read
+  // "connect CPU to GPU" or "add a link between A and B" as names
+  {
+    patterns: [
+      /^(?:add|create|draw|insert)\s+(?:a\s+|an\s+)?(?:bidirectional|bi-directional|two-way|2-way)\s+(?:link|connection|arrow|edge|line|wire)\s+between\s+(?:the\s+)?(.+?)\s+and\s+(?:the\s+)?(.+?)(?:\s+with\s+(?:the\s+)?label\s+["'“‘]?(.+?)["'”’]?)?$/i,
+    ],
+    toOperation: (match) => ({ type: 'connectComponents', from: match[1], to: match[2], bidirectional: true, label: match[3] }),
+  },
+  {
+    patterns: [
+      // "route AHB from CPU to Bus Matrix" labels the connection AHB.
+      /^route\s+(?:a\s+|an\s+|the\s+)?(.+?)\s+from\s+(?:the\s+)?(.+?)\s+to\s+(?:the\s+)?(.+?)(?:\s+with\s+(?:the\s+)?label\s+["'“‘]?(.+?)["'”’]?)?$/i,
+    ],
+    toOperation: (match) => ({ type: 'connectComponents', from: match[2], to: match[3], label: match[4] ?? match[1] }),
+  },
+  {
+    patterns: [
+      /^(?:connect|link|wire)\s+(?:the\s+)?(.+?)\s+(?:to|with|and)\s+(?:the\s+)?(.+?)(?:\s+with\s+(?:the\s+)?label\s+["'“‘]?(.+?)["'”’]?)?$/i,
+      /^(?:add|create|draw|insert)\s+(?:a\s+|an\s+)?(?:link|connection|arrow|edge|line|wire)\s+(?:from|between)\s+(?:the\s+)?(.+?)\s+(?:to|and)\s+(?:the\s+)?(.+?)(?:\s+with\s+(?:the\s+)?label\s+["'“‘]?(.+?)["'”’]?)?$/i,
+    ],
+    toOperation: (match) => ({ type: 'connectComponents', from: match[1], to: match[2], label: match[3] }),
+  },
+  // 3. LAYOUT - "auto-layout the debug blocks", "arrange everything as a grid"
+  {
+    patterns: [
+      /^(?:remove|fix|resolve|eliminate)\s+(?:all\s+)?(?:the\s+)?overlap(?:s|ping\s+blocks)?(?:\s+(?:in|of|between)\s+(?:the\s+)?(.+?))?$/i,
+      /^declutter(?:\s+(?:the\s+)?(.+?))?$/i,
+    ],
+    toOperation: (match) => ({ type: 'layoutDiagram', algorithm: 'declutter', scope: layoutScope(match[1]) }),
+  },
+  {
+    patterns: [
+      /^(?:auto-?\s*layout|re-?layout|layout|lay\s+out|re-?arrange|arrange|tidy(?:\s+up)?|organi[sz]e|clean\s+up)(?:\s+(?:the\s+)?(.+?))?\s+(?:as|in|into|on|using|with)\s+(?:a\s+|an\s+)?(layered|hierarchical|hierarchy|tree|grid|compact|orthogonal)(?:\s+(?:layout|style|arrangement))?$/i,
+      /^(?:auto-?\s*layout|re-?layout|layout|lay\s+out|re-?arrange|arrange|tidy(?:\s+up)?|organi[sz]e|clean\s+up)(?:\s+(?:the\s+)?(.+?))?$/i,
+    ],
+    toOperation: (match) => ({ type: 'layoutDiagram', algorithm: toAlgorithm(match[2]), scope: layoutScope(match[1]) }),
+  },
+  // 4. ALIGNMENT - before renaming, which would read "snap CPU to the grid" as
+  // a new name
+  {
+    patterns: [
+      /^align\s+(?:the\s+)?(?<edge>left|right|top|bottom|center|centre|middle)s?(?:\s+(?:edges?|sides?|lines?))?\s+of\s+(?:the\s+)?(?<names>.+?)$/i,
+      /^(?<edge>left|right|top|bottom|center|centre|middle)[-\s]?align\s+(?:the\s+)?(?<names>.+?)$/i,
+      /^align\s+(?:the\s+)?(?<names>.+?)\s+(?:to|on|along|at|by)\s+(?:the\s+)?(?<edge>left|right|top|bottom|center|centre|middle)(?:\s+(?:edges?|sides?))?$/i,
+      /^align\s+(?:the\s+)?(?<names>.+?)\s+(?<edge>horizontally|vertically)$/i,
+    ],
+    toOperation: (match) => ({ type: 'alignComponents', components: splitNames(match.groups!.names), edge: toEdge(match.groups!.edge) }),
+  },
+  {
+    patterns: [
+      /^(?:distribute|space\s+out|space|evenly\s+space)\s+(?:the\s+)?(?<names>.+?)(?:\s+(?:(?<axis>horizontally|vertically)|evenly))?$/i,
+    ],
+    toOperation: (match) => ({
+      type: 'distributeComponents',
+      components: splitNames(match.groups!.names),
+      axis: match.groups!.axis ? (/^h/i.test(match.groups!.axis) ? 'horizontal' : 'vertical') : undefined,
+    }),
+  },
+  {
+    patterns: [
+      /^(?:make|give)\s+(?:the\s+)?(?<names>.+?)\s+(?:the\s+)?same\s+(?<dimension>width|height|size)$/i,
+      /^match\s+(?:the\s+)?(?<dimension>width|height|size)s?\s+of\s+(?:the\s+)?(?<names>.+?)$/i,
+    ],
+    toOperation: (match) => ({ type: 'matchSize', components: splitNames(match.groups!.names), dimension: toDimension(match.groups!.dimension) }),
+  },
+  {
+    patterns: [/^snap\s+(?:(?<names>.+?)\s+)?to\s+(?:the\s+)?grid$/i],
+    toOperation: (match) => {
+      const scope = layoutScope(match.groups?.names);
+      return { type: 'snapToGrid', components: scope ? splitNames(scope) : undefined };
+    },
+  },
+  // 5. GROUPING - before removal and renaming, which would read "take NVIC out
+  // of the core" or "group ETM into Debug" their own way
+  {
+    patterns: [
+      /^group\s+(?:the\s+)?(?<names>.+?)\s+(?:into|in|as|under)\s+(?:a\s+|an\s+)?(?:new\s+)?(?:(?:group|container|box|subsystem)\s+(?:called|named)\s+)?["'“‘]?(?<name>.+?)["'”’]?$/i,
+      /^group\s+(?:the\s+)?(?<names>.+?)(?:\s+together)?$/i,
+    ],
+    toOperation: (match) => ({ type: 'groupComponents', components: splitNames(match.groups!.names), name: match.groups!.name }),
+  },
+  {
+    patterns: [/^(?:ungroup|dissolve|unwrap|break\s+up)\s+(?:the\s+)?(?<name>.+?)$/i],
+    toOperation: (match) => ({ type: 'ungroupComponent', component: match.groups!.name }),
+  },
+  {
+    patterns: [/^(?:move|take|pull|lift)\s+(?:the\s+)?(?<names>.+?)\s+out(?:\s+of\s+(?:the\s+)?(?<container>.+?))?$/i],
+    toOperation: (match) => ({ type: 'moveComponents', components: splitNames(match.groups!.names), outOf: match.groups!.container }),
+  },
+  {
+    patterns: [/^(?:move|put|place|nest|drag)\s+(?:the\s+)?(?<names>.+?)\s+(?:into|inside|in|within|under)\s+(?:the\s+)?(?<container>.+?)$/i],
+    toOperation: (match) => ({ type: 'moveComponents', components: splitNames(match.groups!.names), into: match.groups!.container }),
+  },
+  // 6. COMPONENT REMOVAL - Remove blocks/components
+  {
+    patterns: [
+      /remove\s+(?:the\s+)?(.+?)(?:\s+block|\s+component)?$/i,
+      /delete\s+(?:the\s+)?(.+?)(?:\s+block|\s+component)?$/i,
+      /take\s+out\s+(?:the\s+)?(.+?)$/i,
+      /eliminate\s+(?:the\s+)?(.+?)$/i,
+    ],
+    toOperation: (match) => ({ type: 'removeComponent', component: match[1] }),
+  },
+  // 7. COMPONENT RENAMING/REPLACEMENT
+  {
+    patterns: [
+      /(?:change|rename|replace|convert|switch|update|make|turn)\s+(?:the\s+)?(.+?)(?:\s+(?:to|as|into|with|by))\s+(?:a\s+|an\s+)?(.+?)$/i,
+      /(.+?)\s+(?:to|as|into|→|->)\s+(.+?)$/i,
+      /replace\s+(.+?)\s+with\s+(.+?)$/i,
+    ],
+    toOperation: (match) => ({ type: 'renameComponent', from: match[1], to: match[2] }),
+  },
+  // 8. COMPONENT ADDITION
+  {
+    patterns: [
+      /^(?:add|insert|create|put|place)\s+(?:a\s+|an\s+)?(.+?)(?:\s+(?:component|block))?\s+((?:to\s+the\s+)?(?:right|left)\s+of|above|over|below|under|beneath|underneath|inside|in|into|within)\s+(?:the\s+)?(.+?)(?:,?\s+(?:and\s+)?(?:connected|linked|attached|wired)\s+(?:to|with)\s+(?:the\s+)?(.+?))?$/i,
+    ],
+    toOperation: (match) => ({ type: 'addComponent', name: match[1], position: toRelation(match[2]), relativeTo: match[3], connectTo: match[4] }),
+  },
+  {
+    patterns: [
+      /(?:add|insert|create)\s+(?:a\s+|an\s+)?(.+?)(?:\s+(?:component|block))?\s+(?:connected|linked|attached|wired)\s+(?:to|with)\s+(?:the\s+)?(.+?)$/i,
+    ],
+    toOperation: (match) => ({ type: 'addComponent', name: match[1], connectTo: match[2] }),
+  },
+  {
+    patterns: [
+      /add\s+(?:a\s+|an\s+)?(.+?)(?:\s+(?:component|block))?(?:\s+(?:to|into)\s+(?:the\s+)?(?:diagram|architecture))?$/i,
+      /insert\s+(?:a\s+|an\s+)?(.+?)$/i,
+      /create\s+(?:a\s+|an\s+)?(.+?)$/i,
+    ],
+    toOperation: (match) => ({ type: 'addComponent', name: match[1] }),
+  },
+  // 9. PROPERTY MODIFICATIONS
+  {
+    patterns: [
+      /(?:make|set|change)\s+(.+?)\s+(?:size|width|height)\s+(?:to\s+)?(\d+)/i,
+      /resize\s+(.+?)\s+to\s+(\d+)/i,
+    ],
+    toOperation: (match) => ({ type: 'setSize', component: match[1], size: parseFloat(match[2]) }),
+  },
+  {
+    patterns: [
+      /(?:make|set)\s+(.+?)\s+(?:color|colour)\s+(?:to\s+)?(\w+)/i,
+      /(?:make|color|colour|paint)\s+(.+?)\s+(red|blue|green|yellow|orange|purple|pink|gray|#[0-9a-f]{6})$/i,
+    ],
+    toOperation: (match) => ({ type: 'setColor', component: match[1], color: match[2] }),
+  },
+];
+
+const STOP_WORDS = ['the', 'and', 'or', 'to', 'from', 'with', 'by', 'as', 'into', 'remove', 'add', 'change', 'make'];
+
+// 10. SMART CONTEXTUAL CHANGES - "make memory bigger" resizes every component mentioned.
+const contextualOperations = (xml: string, userInput: string): EditOperation[] => {
+  const lowerInput = userInput.toLowerCase();
+  const size = lowerInput.includes('bigger') || lowerInput.includes('larger') ? 150 : lowerInput.includes('smaller') ? 80 : undefined;
+  if (!size) return [];
+
+  const labelKeys = getVertices(parseDiagram(xml)).map(getCellSearchKey);
+  return lowerInput
+    .split(/\s+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.includes(word))
+    .filter((word) => {
+      const key = toSearchKey(word);
+      return key.length > 0 && labelKeys.some((label) => label.includes(key));
+    })
+    .map((component) => ({ type: 'setSize', component, size }));
+};
+
+const COMMAND_VERBS = 'remove|delete|take\\s+out|eliminate|add|insert|create|rename|change|replace|convert|switch|update|make|turn|set|resize|colou?r|paint|disconnect|connect|link|route|put|place|auto-?\\s*layout|layout|arrange|rearrange|tidy|declutter|organi[sz]e|align|distribute|space|match|snap|group|ungroup|move|nest';
+
+// "remove GPU and add a DSP, then make it blue" -> three commands. "and" only
+// splits before a verb, so "the arrow between CPU and GPU" stays whole.
+const COMMAND_SEPARATOR = new RegExp(`\\s*(?:;|\\.\\s+|,?\\s+(?:and\\s+)?then\\s+|,\\s*(?:and\\s+)?(?=(?:${COMMAND_VERBS})\\b)|\\s+and\\s+(?=(?:${COMMAND_VERBS})\\b))`, 'i');
+
+export const splitCommand = (input: string): string[] =>
+  input
+    .trim()
+    .replace(/[.!?]+$/, '')
+    .split(COMMAND_SEPARATOR)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+type EditSession = ReturnType<typeof createEditSession>;
+
+// Tries the rules in order and keeps the first operation that changes the
+// diagram, so a pattern that matches the wording but no component falls
+// through. Failing that, the first one whose names were only ambiguous, so
+// the user is asked which block they meant; failing that too, the first match,
+// so the failure is reported for that step.
+const interpretClause = (clause: string, session: EditSession): EditOperation[] => {
+  let ambiguous: EditOperation | undefined;
+  let fallback: EditOperation | undefined;
+  for (const rule of RULES) {
+    for (const pattern of rule.patterns) {
+      const match = clause.match(pattern);
+      if (!match) continue;
+      const operation = rule.toOperation(match);
+      const plan = session.plan(operation);
+      if (plan.success) return [operation];
+      if (plan.ambiguity) ambiguous ??= operation;
+      fallback ??= operation;
+    }
+  }
+  if (ambiguous) return [ambiguous];
+  const contextual = contextualOperations(session.xml, clause);
+  if (contextual.length > 0) return contextual;
+  return fallback ? [fallback] : [];
+};
+
+// Interprets each part of the message against the page as the earlier parts
+// left it, with "these" meaning the selected cells. `unmatched` lists the
+// parts no pattern understood.
+export const interpretMessage = (
+  input: string,
+  xml: string,
+  selection: string[] = [],
+): { operations: EditOperation[]; clauses: string[]; unmatched: string[] } => {
+  const clauses = splitCommand(input);
+  const unmatched: string[] = [];
+  try {
+    const session = createEditSession(xml, {}, selection);
+    const operations = clauses.flatMap((clause) => {
+      const found = interpretClause(clause, session);
+      if (found.length === 0) unmatched.push(clause);
+      found.forEach((operation) => session.apply(operation));
+      return found;
+    });
+    return { operations, clauses, unmatched };
+  } catch (error) {
+    console.error('Error in XML processing:', error);
+    return { operations: [], clauses, unmatched: clauses };
+  }
+};
+
+export const interpretCommand = (input: string, xml: string): EditOperation[] => interpretMessage(input, xml).operations;
+
+// Works without any model configured, and is what the assistant falls back to
+// when the configured one cannot be reached.
+export const regexProvider: AssistantProvider = {
+  id: 'regex',
+  label: 'Built-in command patterns',
+  complete: async ({ prompt, diagram }) => {
+    const { operations, clauses, unmatched } = interpretMessage(prompt, diagram.xml, diagram.selection.map((cell) => cell.id));
+    // A lone unknown command gets the canned help instead.
+    if (clauses.length < 2 || unmatched.length === 0) return { operations };
+    return { operations, reply: `I didn't understand ${unmatched.map((clause) => `"${clause}"`).join(', ')}.` };
+  },
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { PatchError, type DiagramPatch, type PatchOperation } from "@/lib/diagram/patch";
+import { reviewPatch } from "./review";
+
+const xml = `<mxGraphModel><root>
+  <mxCell id="0" />
+  <mxCell id="1" parent="0" />
+  <mxCell id="cpu" value="CPU" vertex="1" parent="1"><mxGeometry x="0" y="0" width="80" height="40" as="geometry" /></mxCell>
+  <mxCell id="gpu" value="GPU" vertex="1" parent="1"><mxGeometry x="200" y="0" width="80" height="40" as="geometry" /></mxCell>
+  <mxCell id="bus" edge="1" source="cpu" target="gpu" parent="1"><mxGeometry relative="1" as="geometry" /></mxCell>
+</root></mxGraphModel>`;
+
+const patch = (...operations: PatchOperation[]): DiagramPatch => ({ source: 'chat', summary: 'test', operations });
+
+describe('reviewPatch', () => {
+  it('treats renames, restyles and resizing one block as safe', () => {
+    expect(reviewPatch(xml, patch({ op: 'setLabel', id: 'cpu', label: 'Core' }, { op: 'setStyle', id: 'cpu', changes: { fillColor: '#ff0000' } })).safe).toBe(true);
+    expect(reviewPatch(xml, patch({ op: 'setGeometry', id: 'cpu', geometry: { width: 120 } }, { op: 'setLabel', id: 'cpu', label: 'Core' })).safe).toBe(true);
+  });
+
+  it('holds back removals, additions and edits that move several blocks', () => {
+    expect(reviewPatch(xml, patch({ op: 'removeCell', id: 'cpu' })).safe).toBe(false);
+    expect(reviewPatch(xml, patch({ op: 'addVertex', id: 'dma', label: 'DMA', style: '', geometry: { x: 0, y: 100, width: 80, height: 40 } })).safe).toBe(false);
+    expect(reviewPatch(xml, patch({ op: 'setGeometry', id: 'cpu', geometry: { y: 10 } }, { op: 'setGeometry', id: 'gpu', geometry: { y: 10 } })).safe).toBe(false);
+    expect(reviewPatch(xml, patch()).safe).toBe(false);
+  });
+
+  it('lists what a removal takes along', () => {
+    const review = reviewPatch(xml, patch({ op: 'removeCell', id: 'gpu' }));
+    expect(review.changes.map((change) => [change.id, change.kind])).toEqual(expect.arrayContaining([['gpu', 'removed'], ['bus', 'removed']]));
+    expect(review.cascaded.map((change) => change.id)).toEqual(['bus']);
+  });
+
+  it('throws when the patch does not apply', () => {
+    expect(() => reviewPatch(xml, patch({ op: 'setLabel', id: 'tpu', label: 'x' }))).toThrow(PatchError);
+  });
+});
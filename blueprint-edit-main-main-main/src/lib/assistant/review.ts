@@ -0,0 +1,41 @@
+import { diffCells, type CellChange } from "@/lib/diagram/diff";
+import { applyPatch, type DiagramPatch, type PatchOperation } from "@/lib/diagram/patch";
+
+// Operations that only restyle or rename a cell in place. Anything else
+// waits for the user even with auto-apply on.
+const SAFE_OPERATIONS: PatchOperation['op'][] = ['setLabel', 'setStyle'];
+
+export interface PatchReview {
+  before: string;
+  after: string;
+  // Every cell the patch touches, including ones a removal cascades to.
+  changes: CellChange[];
+  // Removed cells that no operation named directly, e.g. attached connections.
+  cascaded: CellChange[];
+  safe: boolean;
+}
+
+export const isSafeOperation = (operation: PatchOperation): boolean => SAFE_OPERATIONS.includes(operation.op);
+
+// Resizing or moving one block is safe too; a layout or snap that moves many
+// is not.
+const isSafePatch = (operations: PatchOperation[]): boolean => {
+  const moved = new Set(operations.flatMap((operation) => (operation.op === 'setGeometry' ? [operation.id] : [])));
+  return operations.length > 0 && moved.size <= 1 && operations.every((operation) => isSafeOperation(operation) || operation.op === 'setGeometry');
+};
+
+// Throws PatchError when the patch does not apply to `xml`.
+export const reviewPatch = (xml: string, patch: DiagramPatch): PatchReview => {
+  const after = applyPatch(xml, patch);
+  const changes = diffCells(xml, after);
+  const named = new Set(patch.operations.map((operation) => ('id' in operation ? operation.id : undefined)));
+  const cascaded = changes.filter((change) => change.kind === 'removed' && !named.has(change.id));
+
+  return {
+    before: xml,
+    after,
+    changes,
+    cascaded,
+    safe: isSafePatch(patch.operations),
+  };
+};
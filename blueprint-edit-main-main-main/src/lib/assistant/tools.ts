@@ -0,0 +1,224 @@
+import { z } from "zod";
+import { describeDiagram } from "./context";
+import type { AssistantRequest, EditOperation, ToolDefinition } from "./types";
+
+const text = (description: string) => ({ type: 'string', description });
+const names = (description: string) => ({ type: 'array', items: { type: 'string' }, description });
+
+export const EDIT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'removeComponent',
+    description: 'Remove a component, its children and every connection attached to it.',
+    parameters: { type: 'object', properties: { component: text('Name of the component as shown on the diagram') }, required: ['component'] },
+  },
+  {
+    name: 'renameComponent',
+    description: 'Replace a word or phrase in component labels, keeping their formatting.',
+    parameters: {
+      type: 'object',
+      properties: { from: text('Text to replace'), to: text('Replacement text') },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'removeConnections',
+    description: 'Remove connections between two components, all connections of one component, or every connection when no names are given.',
+    parameters: {
+      type: 'object',
+      properties: { from: text('First component, optional'), to: text('Second component, optional') },
+      required: [],
+    },
+  },
+  {
+    name: 'addComponent',
+    description: 'Add a new component block to the diagram, optionally connected to an existing one.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: text('Label of the new component'),
+        connectTo: text('Existing component to connect it to, optional'),
+        position: text('Where to put it relative to `relativeTo`: right, left, above, below or inside, optional'),
+        relativeTo: text('Existing component the position refers to, optional'),
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'connectComponents',
+    description: 'Draw a connection from one existing component to another, optionally labelled or with arrowheads at both ends.',
+    parameters: {
+      type: 'object',
+      properties: {
+        from: text('Component the connection starts at'),
+        to: text('Component the connection ends at'),
+        bidirectional: { type: 'boolean', description: 'Arrowheads at both ends, optional' },
+        label: text('Text shown on the connection, e.g. a bus name, optional'),
+      },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'setSize',
+    description: 'Resize a component to a square of the given size in pixels.',
+    parameters: {
+      type: 'object',
+      properties: { component: text('Name of the component'), size: { type: 'number', description: 'Width and height in pixels' } },
+      required: ['component', 'size'],
+    },
+  },
+  {
+    name: 'setColor',
+    description: 'Change the fill colour of a component. Accepts a colour name or a #rrggbb value.',
+    parameters: {
+      type: 'object',
+      properties: { component: text('Name of the component'), color: text('Colour name or hex code') },
+      required: ['component', 'color'],
+    },
+  },
+  {
+    name: 'layoutDiagram',
+    description: 'Rearrange blocks to tidy the diagram: layered (follows the connections), grid, compact (closes gaps, squares off connections) or declutter (only removes overlaps). Pinned blocks stay put.',
+    parameters: {
+      type: 'object',
+      properties: {
+        algorithm: text('layered, grid, compact or declutter'),
+        scope: text('Components to rearrange, or a container whose contents to rearrange; the whole page when omitted'),
+      },
+      required: ['algorithm'],
+    },
+  },
+  {
+    name: 'alignComponents',
+    description: 'Line components up on one edge or centre line. center lines up vertical centre lines, middle horizontal ones.',
+    parameters: {
+      type: 'object',
+      properties: { components: names('Components to align, at least two'), edge: text('left, right, center, top, bottom or middle') },
+      required: ['components', 'edge'],
+    },
+  },
+  {
+    name: 'distributeComponents',
+    description: 'Space components evenly between the first and the last one.',
+    parameters: {
+      type: 'object',
+      properties: {
+        components: names('Components to space out, at least three'),
+        axis: text('horizontal or vertical, optional; defaults to the direction they are spread out in'),
+      },
+      required: ['components'],
+    },
+  },
+  {
+    name: 'matchSize',
+    description: 'Give components the width, height or both of the largest one.',
+    parameters: {
+      type: 'object',
+      properties: { components: names('Components to resize, at least two'), dimension: text('width, height or both') },
+      required: ['components', 'dimension'],
+    },
+  },
+  {
+    name: 'snapToGrid',
+    description: "Snap positions and sizes to the diagram's grid.",
+    parameters: {
+      type: 'object',
+      properties: { components: names('Components to snap, optional; every block when omitted') },
+      required: [],
+    },
+  },
+  {
+    name: 'groupComponents',
+    description: 'Put components in a new container box sized to fit them.',
+    parameters: {
+      type: 'object',
+      properties: { components: names('Components to group'), name: text('Title of the new container, optional') },
+      required: ['components'],
+    },
+  },
+  {
+    name: 'ungroupComponent',
+    description: 'Remove a container box, leaving the blocks inside it where they are.',
+    parameters: {
+      type: 'object',
+      properties: { component: text('Name of the container to dissolve') },
+      required: ['component'],
+    },
+  },
+  {
+    name: 'moveComponents',
+    description: 'Move components into a container, or out of one. Connections stay attached.',
+    parameters: {
+      type: 'object',
+      properties: {
+        components: names('Components to move'),
+        into: text('Container to move them into, optional'),
+        outOf: text('Container to move them out of, optional; without into or outOf they go onto the page'),
+      },
+      required: ['components'],
+    },
+  },
+];
+
+const name = z.string().trim().min(1);
+
+const editOperationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('removeComponent'), component: name }),
+  z.object({ type: z.literal('renameComponent'), from: name, to: name }),
+  z.object({ type: z.literal('removeConnections'), from: name.optional(), to: name.optional() }),
+  z.object({
+    type: z.literal('addComponent'),
+    name,
+    connectTo: name.optional(),
+    position: z.enum(['right', 'left', 'above', 'below', 'inside']).optional(),
+    relativeTo: name.optional(),
+  }),
+  z.object({ type: z.literal('connectComponents'), from: name, to: name, bidirectional: z.boolean().optional(), label: name.optional() }),
+  z.object({ type: z.literal('setSize'), component: name, size: z.coerce.number().positive() }),
+  z.object({ type: z.literal('setColor'), component: name, color: name }),
+  z.object({ type: z.literal('alignComponents'), components: z.array(name).min(1), edge: z.enum(['left', 'center', 'right', 'top', 'middle', 'bottom']) }),
+  z.object({ type: z.literal('distributeComponents'), components: z.array(name).min(1), axis: z.enum(['horizontal', 'vertical']).optional() }),
+  z.object({ type: z.literal('matchSize'), components: z.array(name).min(1), dimension: z.enum(['width', 'height', 'both']) }),
+  z.object({ type: z.literal('snapToGrid'), components: z.array(name).optional() }),
+  z.object({ type: z.literal('groupComponents'), components: z.array(name).min(1), name: name.optional() }),
+  z.object({ type: z.literal('ungroupComponent'), component: name }),
+  z.object({ type: z.literal('moveComponents'), components: z.array(name).min(1), into: name.optional(), outOf: name.optional() }),
+  z.object({ type: z.literal('layoutDiagram'), algorithm: z.enum(['layered', 'grid', 'compact', 'declutter']), scope: name.optional() }),
+]);
+
+const safeJson = (value: string): unknown => {
+  try {
+    return JSON.parse(value || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export interface ToolCall {
+  name: string;
+  arguments: unknown;
+}
+
+// Turns tool calls from a model into operations, dropping any that do not fit
+// the schema rather than failing the whole reply.
+export const toEditOperations = (calls: ToolCall[]): EditOperation[] =>
+  calls.flatMap((call) => {
+    const args = typeof call.arguments === 'string' ? safeJson(call.arguments) : call.arguments;
+    const parsed = editOperationSchema.safeParse({ ...(args as object), type: call.name });
+    if (!parsed.success) {
+      console.warn(`Ignoring invalid ${call.name} tool call:`, parsed.error.issues);
+      return [];
+    }
+    return [parsed.data as EditOperation];
+  });
+
+export const buildSystemPrompt = (request: AssistantRequest): string =>
+  [
+    'You edit draw.io architecture diagrams. Use the tools to make the changes the user asks for,',
+    'referring to components by the names listed below. Call several tools, in order, when the',
+    'request has several steps; later calls may refer to a component an earlier call added or',
+    'changed as "it". When cells are selected and the user says "this" or "these", pass "the',
+    'selection" as the component name. If the request is unclear or needs no change, answer in',
+    'one or two sentences without calling a tool.',
+    '',
+    describeDiagram(request.diagram),
+  ].join('\n');
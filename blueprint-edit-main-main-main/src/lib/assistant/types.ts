@@ -0,0 +1,64 @@
+import type { AlignEdge, DistributeAxis, SizeDimension } from "@/lib/diagram/arrange";
+import type { LayoutAlgorithm } from "@/lib/diagram/layout";
+import type { PlacementRelation } from "@/lib/diagram/placement";
+
+// Edits the assistant can ask for. Components are referred to by name, the
+// way the user wrote them; the applier resolves names to cells, and "it" or
+// "the new block" to cells an earlier operation in the same reply touched.
+export type EditOperation =
+  | { type: 'removeComponent'; component: string }
+  | { type: 'renameComponent'; from: string; to: string }
+  | { type: 'removeConnections'; from?: string; to?: string }
+  // `position` places the new block next to or inside `relativeTo`.
+  | { type: 'addComponent'; name: string; connectTo?: string; position?: PlacementRelation; relativeTo?: string }
+  | { type: 'connectComponents'; from: string; to: string; bidirectional?: boolean; label?: string }
+  | { type: 'setSize'; component: string; size: number }
+  | { type: 'setColor'; component: string; color: string }
+  // Without `scope` the whole page is rearranged.
+  | { type: 'layoutDiagram'; algorithm: LayoutAlgorithm; scope?: string }
+  | { type: 'alignComponents'; components: string[]; edge: AlignEdge }
+  | { type: 'distributeComponents'; components: string[]; axis?: DistributeAxis }
+  | { type: 'matchSize'; components: string[]; dimension: SizeDimension }
+  // Without components, every block on the page.
+  | { type: 'snapToGrid'; components?: string[] }
+  | { type: 'groupComponents'; components: string[]; name?: string }
+  | { type: 'ungroupComponent'; component: string }
+  // With neither `into` nor `outOf`, out of any container onto the page.
+  | { type: 'moveComponents'; components: string[]; into?: string; outOf?: string };
+
+export interface DiagramContext {
+  xml: string;
+  components: Array<{ id: string; name: string }>;
+  connections: Array<{ id: string; label: string; source?: string; target?: string }>;
+  // Cells picked in the viewer, which "these" and "the selection" refer to.
+  selection: Array<{ id: string; name: string }>;
+}
+
+// JSON schema description of one edit tool, in the shape most chat APIs accept.
+export interface ToolDefinition {
+  name: EditOperation['type'];
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, { type: string; description: string; items?: { type: string } }>;
+    required: string[];
+  };
+}
+
+export interface AssistantRequest {
+  prompt: string;
+  diagram: DiagramContext;
+  tools: ToolDefinition[];
+}
+
+export interface AssistantResponse {
+  operations: EditOperation[];
+  // Free text from the model; canned replies are used when it is missing.
+  reply?: string;
+}
+
+export interface AssistantProvider {
+  id: string;
+  label: string;
+  complete: (request: AssistantRequest, signal?: AbortSignal) => Promise<AssistantResponse>;
+}
@@ -0,0 +1,143 @@
+import type { CSSProperties } from "react";
+import { getStyleNumber, isStyleFlagSet, type StyleMap } from "./style";
+
+export type Direction = 'east' | 'south' | 'west' | 'north';
+
+export interface VertexAppearance {
+  shape: string;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  dashArray?: string;
+  opacity: number;
+  rounded: boolean;
+  arcSize: number;
+  direction: Direction;
+  label: LabelAppearance;
+}
+
+export interface EdgeAppearance {
+  stroke: string;
+  strokeWidth: number;
+  dashArray?: string;
+  opacity: number;
+  rounded: boolean;
+  edgeStyle: string;
+  startArrow: string;
+  endArrow: string;
+  label: LabelAppearance;
+}
+
+export interface LabelAppearance {
+  html: boolean;
+  fontSize: number;
+  fontColor: string;
+  fontFamily: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  align: 'left' | 'center' | 'right';
+  verticalAlign: 'top' | 'middle' | 'bottom';
+  whiteSpace: 'wrap' | 'nowrap';
+  background?: string;
+  spacing: number;
+}
+
+// Base style names that select a shape when written as a bare token, e.g. `ellipse;`.
+const BASE_SHAPES = ['ellipse', 'rhombus', 'triangle', 'hexagon', 'cylinder', 'cloud', 'text', 'label', 'swimlane', 'line', 'image'];
+
+const color = (value: string | undefined, fallback: string): string => {
+  if (value === undefined || value === '' || value === 'default') return fallback;
+  return value === 'none' ? 'none' : value;
+};
+
+// draw.io scales the dash pattern with the stroke width.
+const dashArray = (style: StyleMap, strokeWidth: number): string | undefined => {
+  if (!isStyleFlagSet(style, 'dashed')) return undefined;
+  const pattern = (style.dashPattern || '3 3').split(/\s+/).map((part) => parseFloat(part) * strokeWidth);
+  return pattern.join(' ');
+};
+
+export const resolveShape = (style: StyleMap): string => {
+  if (style.shape) return style.shape;
+  const base = BASE_SHAPES.find((name) => name in style && style[name] === '');
+  return base || 'rectangle';
+};
+
+export const resolveLabelAppearance = (style: StyleMap): LabelAppearance => {
+  const fontStyle = getStyleNumber(style, 'fontStyle', 0);
+  return {
+    html: isStyleFlagSet(style, 'html'),
+    fontSize: getStyleNumber(style, 'fontSize', 12),
+    fontColor: color(style.fontColor, '#000000'),
+    fontFamily: style.fontFamily || 'Helvetica, Arial, sans-serif',
+    bold: (fontStyle & 1) !== 0,
+    italic: (fontStyle & 2) !== 0,
+    underline: (fontStyle & 4) !== 0,
+    align: (['left', 'right'].includes(style.align) ? style.align : 'center') as LabelAppearance['align'],
+    verticalAlign: (['top', 'bottom'].includes(style.verticalAlign) ? style.verticalAlign : 'middle') as LabelAppearance['verticalAlign'],
+    whiteSpace: style.whiteSpace === 'wrap' ? 'wrap' : 'nowrap',
+    background: style.labelBackgroundColor && style.labelBackgroundColor !== 'none' ? style.labelBackgroundColor : undefined,
+    spacing: getStyleNumber(style, 'spacing', 2),
+  };
+};
+
+export const resolveVertexAppearance = (style: StyleMap): VertexAppearance => {
+  const shape = resolveShape(style);
+  const strokeWidth = getStyleNumber(style, 'strokeWidth', 1);
+  const textOnly = shape === 'text' || shape === 'label';
+  const direction = (['south', 'west', 'north'].includes(style.direction) ? style.direction : 'east') as Direction;
+
+  return {
+    shape,
+    fill: textOnly ? color(style.fillColor, 'none') : color(style.fillColor, '#ffffff'),
+    stroke: textOnly ? color(style.strokeColor, 'none') : color(style.strokeColor, '#000000'),
+    strokeWidth,
+    dashArray: dashArray(style, strokeWidth),
+    opacity: getStyleNumber(style, 'opacity', 100) / 100,
+    rounded: isStyleFlagSet(style, 'rounded'),
+    arcSize: getStyleNumber(style, 'arcSize', 15),
+    direction,
+    label: resolveLabelAppearance(style),
+  };
+};
+
+export const resolveEdgeAppearance = (style: StyleMap): EdgeAppearance => {
+  const strokeWidth = getStyleNumber(style, 'strokeWidth', 1);
+  return {
+    stroke: color(style.strokeColor, '#000000'),
+    strokeWidth,
+    dashArray: dashArray(style, strokeWidth),
+    opacity: getStyleNumber(style, 'opacity', 100) / 100,
+    rounded: isStyleFlagSet(style, 'rounded'),
+    edgeStyle: style.edgeStyle || 'none',
+    startArrow: style.startArrow || 'none',
+    endArrow: style.endArrow || 'classic',
+    label: {
+      ...resolveLabelAppearance(style),
+      background: style.labelBackgroundColor === 'none' ? undefined : style.labelBackgroundColor || '#ffffff',
+    },
+  };
+};
+
+// CSS for the box that holds a label, shared by the SVG and ReactFlow renderers.
+export const labelContainerStyle = (label: LabelAppearance): CSSProperties => ({
+  display: 'flex',
+  width: '100%',
+  height: '100%',
+  boxSizing: 'border-box',
+  padding: label.spacing,
+  alignItems: label.verticalAlign === 'top' ? 'flex-start' : label.verticalAlign === 'bottom' ? 'flex-end' : 'center',
+  justifyContent: label.align === 'left' ? 'flex-start' : label.align === 'right' ? 'flex-end' : 'center',
+  textAlign: label.align,
+  fontSize: label.fontSize,
+  fontFamily: label.fontFamily,
+  color: label.fontColor,
+  fontWeight: label.bold ? 'bold' : 'normal',
+  fontStyle: label.italic ? 'italic' : 'normal',
+  textDecoration: label.underline ? 'underline' : 'none',
+  whiteSpace: label.html ? (label.whiteSpace === 'wrap' ? 'normal' : 'nowrap') : 'pre-wrap',
+  overflowWrap: 'break-word',
+  lineHeight: 1.2,
+  overflow: 'visible',
+});
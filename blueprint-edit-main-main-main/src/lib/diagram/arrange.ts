@@ -0,0 +1,141 @@
+import { getCells, type DiagramCell, type DiagramGeometry } from "./model";
+import type { PatchBuilder } from "./patch";
+import { isPinned, rerouteEdges } from "./layout";
+import { getGridSize } from "./placement";
+import { createGeometryResolver, type Bounds } from "./render";
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type SizeDimension = 'width' | 'height' | 'both';
+
+export type ArrangeAction =
+  | { kind: 'align'; edge: AlignEdge }
+  // Without an axis, the one the cells are spread out along.
+  | { kind: 'distribute'; axis?: DistributeAxis }
+  | { kind: 'matchSize'; dimension: SizeDimension }
+  | { kind: 'snap' };
+
+// Fewest cells each action makes sense for.
+export const MINIMUM_CELLS: Record<ArrangeAction['kind'], number> = { align: 2, distribute: 3, matchSize: 2, snap: 1 };
+
+export const describeArrangeAction = (action: ArrangeAction): string => {
+  switch (action.kind) {
+    case 'align':
+      return `Align ${action.edge === 'center' || action.edge === 'middle' ? `${action.edge}s` : `${action.edge} edges`}`;
+    case 'distribute':
+      return action.axis ? `Distribute ${action.axis}ly` : 'Distribute evenly';
+    case 'matchSize':
+      return action.dimension === 'both' ? 'Match sizes' : `Match ${action.dimension}s`;
+    case 'snap':
+      return 'Snap to grid';
+  }
+};
+
+interface Item {
+  cell: DiagramCell;
+  geometry: DiagramGeometry;
+  // In page coordinates, so cells in different containers line up on screen.
+  bounds: Bounds;
+  pinned: boolean;
+}
+
+const start = (bounds: Bounds, axis: 'x' | 'y') => bounds[axis];
+const size = (bounds: Bounds, axis: 'x' | 'y') => (axis === 'x' ? bounds.width : bounds.height);
+const middle = (bounds: Bounds, axis: 'x' | 'y') => start(bounds, axis) + size(bounds, axis) / 2;
+const end = (bounds: Bounds, axis: 'x' | 'y') => start(bounds, axis) + size(bounds, axis);
+
+const ALIGNMENTS: Record<AlignEdge, { axis: 'x' | 'y'; at: typeof start; pick: (values: number[]) => number }> = {
+  left: { axis: 'x', at: start, pick: (values) => Math.min(...values) },
+  right: { axis: 'x', at: end, pick: (values) => Math.max(...values) },
+  center: { axis: 'x', at: middle, pick: (values) => (Math.min(...values) + Math.max(...values)) / 2 },
+  top: { axis: 'y', at: start, pick: (values) => Math.min(...values) },
+  bottom: { axis: 'y', at: end, pick: (values) => Math.max(...values) },
+  middle: { axis: 'y', at: middle, pick: (values) => (Math.min(...values) + Math.max(...values)) / 2 },
+};
+
+// How far each cell should move along `axis`.
+const alignOffsets = (items: Item[], edge: AlignEdge): Map<Item, number> => {
+  const { axis, at, pick } = ALIGNMENTS[edge];
+  // Pinned cells cannot move, so the others line up with them.
+  const reference = items.some((item) => item.pinned) ? items.filter((item) => item.pinned) : items;
+  const target = pick(reference.map((item) => at(item.bounds, axis)));
+  return new Map(items.map((item) => [item, target - at(item.bounds, axis)]));
+};
+
+// Equal gaps between the first and last cell; equal spacing of centres when
+// the cells are too wide for gaps.
+const distributeOffsets = (items: Item[], requested?: DistributeAxis): { axis: 'x' | 'y'; offsets: Map<Item, number> } => {
+  const spread = (axis: 'x' | 'y') => Math.max(...items.map((item) => middle(item.bounds, axis))) - Math.min(...items.map((item) => middle(item.bounds, axis)));
+  const axis = requested ? (requested === 'horizontal' ? 'x' : 'y') : spread('x') >= spread('y') ? 'x' : 'y';
+  const sorted = [...items].sort((a, b) => middle(a.bounds, axis) - middle(b.bounds, axis));
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const gap = (end(last, axis) - start(first, axis) - sorted.reduce((sum, item) => sum + size(item.bounds, axis), 0)) / (sorted.length - 1);
+  const step = (middle(last, axis) - middle(first, axis)) / (sorted.length - 1);
+
+  const offsets = new Map<Item, number>();
+  let cursor = start(first, axis);
+  sorted.forEach((item, index) => {
+    const target = gap >= 0 ? cursor : middle(first, axis) + step * index - size(item.bounds, axis) / 2;
+    offsets.set(item, target - start(item.bounds, axis));
+    cursor += size(item.bounds, axis) + gap;
+  });
+  return { axis, offsets };
+};
+
+// Lines up, spaces out, resizes or snaps the cells. Cells in containers are
+// moved in their container's coordinates; pinned cells are never changed.
+// Returns the ids of the cells that changed.
+export const arrangeCells = (builder: PatchBuilder, ids: string[], action: ArrangeAction): string[] => {
+  const cells = getCells(builder.diagram);
+  const resolver = createGeometryResolver(cells);
+  const items: Item[] = ids
+    .map((id) => resolver.byId.get(id))
+    .filter((cell): cell is DiagramCell => !!cell?.vertex && !!cell.geometry && !cell.geometry.relative && !resolver.byId.get(cell.parent ?? '')?.edge)
+    .map((cell) => ({ cell, geometry: cell.geometry!, bounds: resolver.boundsOf(cell), pinned: isPinned(cell) }));
+
+  const updates = new Map<string, Partial<DiagramGeometry>>();
+  const update = (item: Item, geometry: Partial<DiagramGeometry>) => {
+    if (item.pinned) return;
+    const changed = Object.entries(geometry).filter(([key, value]) => Math.abs(Number(item.geometry[key as keyof DiagramGeometry]) - Number(value)) > 0.01);
+    if (changed.length > 0) updates.set(item.cell.id, Object.fromEntries(changed));
+  };
+
+  switch (action.kind) {
+    case 'align': {
+      const { axis } = ALIGNMENTS[action.edge];
+      alignOffsets(items, action.edge).forEach((offset, item) => update(item, { [axis]: item.geometry[axis] + offset }));
+      break;
+    }
+    case 'distribute': {
+      if (items.length < 2) break;
+      const { axis, offsets } = distributeOffsets(items, action.axis);
+      offsets.forEach((offset, item) => update(item, { [axis]: item.geometry[axis] + offset }));
+      break;
+    }
+    case 'matchSize': {
+      const width = Math.max(...items.map((item) => item.geometry.width));
+      const height = Math.max(...items.map((item) => item.geometry.height));
+      items.forEach((item) => update(item, {
+        ...(action.dimension !== 'height' && { width }),
+        ...(action.dimension !== 'width' && { height }),
+      }));
+      break;
+    }
+    case 'snap': {
+      const grid = getGridSize(builder.diagram);
+      const snap = (value: number) => Math.round(value / grid) * grid;
+      items.forEach((item) => update(item, {
+        x: snap(item.geometry.x),
+        y: snap(item.geometry.y),
+        width: Math.max(grid, snap(item.geometry.width)),
+        height: Math.max(grid, snap(item.geometry.height)),
+      }));
+      break;
+    }
+  }
+
+  updates.forEach((geometry, id) => builder.add({ op: 'setGeometry', id, geometry }));
+  if (updates.size > 0) rerouteEdges(builder, resolver, false);
+  return [...updates.keys()];
+};
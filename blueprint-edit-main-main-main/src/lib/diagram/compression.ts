@@ -0,0 +1,89 @@
+import { deflateRaw, inflateRaw } from 'pako';
+import { parseDiagram, serializeDiagram, serializeNode, markDirty } from "./model";
+import { createPageId } from "./pages";
+
+// Convert Uint8Array to base64 string
+export function uint8ToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    const sub = bytes.subarray(i, i + chunk);
+    binary += String.fromCharCode.apply(null, Array.from(sub));
+  }
+  return btoa(binary);
+}
+
+const base64ToUint8 = (base64: string): Uint8Array => {
+  const binary = atob(base64.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// draw.io stores compressed pages as base64(deflateRaw(encodeURIComponent(xml))).
+export const decodeDiagramPayload = (payload: string): string =>
+  decodeURIComponent(inflateRaw(base64ToUint8(payload), { to: 'string' }));
+
+export const encodeDiagramPayload = (xml: string): string =>
+  uint8ToBase64(deflateRaw(encodeURIComponent(xml), { level: 9 }));
+
+const isCompressedPage = (diagramElement: Element): boolean =>
+  diagramElement.childElementCount === 0 && !!diagramElement.textContent?.trim();
+
+export const isCompressedDiagram = (xml: string): boolean => {
+  try {
+    const diagram = parseDiagram(xml);
+    return Array.from(diagram.doc.getElementsByTagName('diagram')).some(isCompressedPage);
+  } catch {
+    return false;
+  }
+};
+
+// Replaces every compressed `<diagram>` payload with its inline `<mxGraphModel>`.
+// Files without compressed pages are returned unchanged.
+export const inflateDiagramXml = (xml: string): { xml: string; compressed: boolean } => {
+  const diagram = parseDiagram(xml);
+  const pages = Array.from(diagram.doc.getElementsByTagName('diagram')).filter(isCompressedPage);
+  if (pages.length === 0) return { xml, compressed: false };
+
+  pages.forEach((page) => {
+    const payload = page.textContent || '';
+    const inner = new DOMParser().parseFromString(decodeDiagramPayload(payload), 'text/xml');
+    if (inner.getElementsByTagName('parsererror')[0]) {
+      throw new Error(`Page "${page.getAttribute('name') || page.getAttribute('id')}" could not be decompressed`);
+    }
+    while (page.firstChild) page.removeChild(page.firstChild);
+    page.appendChild(diagram.doc.importNode(inner.documentElement, true));
+  });
+
+  markDirty(diagram);
+  return { xml: serializeDiagram(diagram), compressed: true };
+};
+
+// The inverse of inflateDiagramXml: every inline `<mxGraphModel>` page is
+// replaced with a compressed payload, as diagrams.net does when compression is on.
+export const deflateDiagramXml = (xml: string): string => {
+  const diagram = parseDiagram(xml);
+  const root = diagram.doc.documentElement;
+
+  // A bare graph model has no page to hold the payload, so wrap it in one.
+  if (root.tagName === 'mxGraphModel') {
+    const payload = encodeDiagramPayload(serializeNode(root, diagram.format));
+    return `${diagram.prolog}<mxfile><diagram name="Page-1" id="${createPageId()}">${payload}</diagram></mxfile>${diagram.epilogue}`;
+  }
+
+  const pages = Array.from(diagram.doc.getElementsByTagName('diagram'));
+
+  pages.forEach((page) => {
+    const model = Array.from(page.children).find((child) => child.tagName === 'mxGraphModel');
+    if (!model) return;
+    const payload = encodeDiagramPayload(serializeNode(model, diagram.format));
+    while (page.firstChild) page.removeChild(page.firstChild);
+    page.appendChild(diagram.doc.createTextNode(payload));
+    markDirty(diagram);
+  });
+
+  return serializeDiagram(diagram);
+};
@@ -0,0 +1,91 @@
+import { getCells, parseDiagram, type DiagramCell, type DiagramDocument } from "./model";
+import { getCellReferenceName } from "./labels";
+
+export type CellChangeKind = 'added' | 'removed' | 'modified';
+
+// What happened to a cell that exists in both versions. Moving into another
+// container counts as moved; new waypoints on an edge do too.
+export type CellAspect = 'renamed' | 'restyled' | 'moved' | 'resized' | 'reconnected';
+
+export interface CellChange {
+  id: string;
+  // Display name in whichever version still has the cell.
+  name: string;
+  edge: boolean;
+  kind: CellChangeKind;
+  aspects: CellAspect[];
+  // Name before a rename.
+  previousName?: string;
+}
+
+const sameJson = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const sortedStyle = (cell: DiagramCell) => Object.entries(cell.style).sort(([a], [b]) => a.localeCompare(b));
+
+const changedAspects = (before: DiagramCell, after: DiagramCell): CellAspect[] => {
+  const aspects: CellAspect[] = [];
+  const from = before.geometry;
+  const to = after.geometry;
+  if (before.value !== after.value) aspects.push('renamed');
+  if (!sameJson(sortedStyle(before), sortedStyle(after))) aspects.push('restyled');
+  if (
+    before.parent !== after.parent ||
+    from?.x !== to?.x ||
+    from?.y !== to?.y ||
+    !sameJson([from?.points ?? [], from?.sourcePoint, from?.targetPoint, from?.offset], [to?.points ?? [], to?.sourcePoint, to?.targetPoint, to?.offset])
+  ) {
+    aspects.push('moved');
+  }
+  if (from?.width !== to?.width || from?.height !== to?.height) aspects.push('resized');
+  if (before.source !== after.source || before.target !== after.target) aspects.push('reconnected');
+  return aspects;
+};
+
+const nameOf = (cell: DiagramCell, cells: Map<string, DiagramCell>): string => getCellReferenceName(cell, (id) => cells.get(id));
+
+const shapeCells = (diagram: DiagramDocument) =>
+  new Map(getCells(diagram).filter((cell) => cell.vertex || cell.edge).map((cell) => [cell.id, cell]));
+
+// Cell-level differences between two versions of a page, matched by id, in
+// the order the cells appear (removed cells last).
+export const diffCells = (before: string, after: string): CellChange[] => {
+  const beforeCells = shapeCells(parseDiagram(before));
+  const afterCells = shapeCells(parseDiagram(after));
+  const changes: CellChange[] = [];
+
+  afterCells.forEach((cell, id) => {
+    const previous = beforeCells.get(id);
+    if (!previous) {
+      changes.push({ id, name: nameOf(cell, afterCells), edge: cell.edge, kind: 'added', aspects: [] });
+      return;
+    }
+    const aspects = changedAspects(previous, cell);
+    if (aspects.length > 0) {
+      const previousName = aspects.includes('renamed') ? nameOf(previous, beforeCells) : undefined;
+      changes.push({ id, name: nameOf(cell, afterCells), edge: cell.edge, kind: 'modified', aspects, previousName });
+    }
+  });
+
+  beforeCells.forEach((cell, id) => {
+    if (!afterCells.has(id)) {
+      changes.push({ id, name: nameOf(cell, beforeCells), edge: cell.edge, kind: 'removed', aspects: [] });
+    }
+  });
+  return changes;
+};
+
+// The one word used to colour and group a change.
+export type ChangeCategory = Exclude<CellChangeKind, 'modified'> | CellAspect;
+
+export const changeCategory = (change: CellChange): ChangeCategory =>
+  change.kind === 'modified' ? change.aspects[0] : change.kind;
+
+export const describeCellChange = (change: CellChange): string => {
+  const subject = change.edge ? `connection ${change.name}` : change.name;
+  if (change.kind !== 'modified') return `${change.kind === 'added' ? 'Added' : 'Removed'} ${subject}`;
+  const aspects = change.aspects.filter((aspect) => aspect !== 'renamed');
+  const renamed = change.previousName !== undefined ? `Renamed ${change.previousName} to ${change.name}` : '';
+  if (aspects.length === 0) return renamed;
+  const rest = aspects.join(', ');
+  return renamed ? `${renamed}; ${rest}` : `${rest.charAt(0).toUpperCase()}${rest.slice(1)} ${subject}`;
+};
@@ -0,0 +1,551 @@
+import {
+  createCellId,
+  getCell,
+  getCells,
+  getChildren,
+  getDefaultParent,
+  getEdges,
+  type DiagramCell,
+  type DiagramDocument,
+  type DiagramGeometry,
+  type DiagramPoint,
+} from "./model";
+import { arrangeCells, describeArrangeAction, MINIMUM_CELLS, type ArrangeAction } from "./arrange";
+import { groupCells, isInside, moveIntoContainer, ungroupCell } from "./grouping";
+import { getCellDisplayName, getCellReferenceName, labelToText, phrasePattern, replaceLabelText, textToLabel } from "./labels";
+import { LAYOUT_ALGORITHMS, layoutCells, type LayoutAlgorithm } from "./layout";
+import { resolveComponentName, type Ambiguity } from "./matching";
+import { createPatchBuilder, type PatchBuilder, type PatchOperation } from "./patch";
+import { createPlacer, placementTemplate, type PlacementRelation } from "./placement";
+import { createGeometryResolver, facingPorts } from "./render";
+import { isStyleFlagSet, type StyleMap } from "./style";
+
+// What a chat command would do to a page, as patch operations that have not
+// been applied yet.
+export interface EditPlan {
+  success: boolean;
+  operations: PatchOperation[];
+  message: string;
+  // Cells the edit created or changed, which later steps can call "it".
+  subjects: string[];
+  // Set instead of any operations when a name fits several components.
+  ambiguity?: Ambiguity;
+}
+
+// A component as the user named it, or cells an earlier step of the same
+// command already pinned down.
+export type ComponentRef = string | { name: string; ids: string[] };
+
+const failed = (message: string): EditPlan => ({ success: false, operations: [], message, subjects: [] });
+
+const refName = (ref: ComponentRef): string => (typeof ref === 'string' ? ref : ref.name);
+
+// Compares plain text, so "memory protection unit" finds a label written as
+// `<font ...>Memory Protection<br>Unit</font>`. Only the best kind of match
+// is used: "Unit" alone does not reach "Memory Protection Unit" when there is
+// a block called Unit.
+const findVerticesByName = (diagram: DiagramDocument, name: string): DiagramCell[] => {
+  const resolution = resolveComponentName(diagram, name, true);
+  return resolution.status === 'found' ? resolution.candidates.map((candidate) => getCell(diagram, candidate.id)!) : [];
+};
+
+// Names only ever find blocks; pinned-down cells, e.g. a selection, may
+// include connections where the edit allows them.
+const findComponents = (diagram: DiagramDocument, ref: ComponentRef, edges = false): DiagramCell[] =>
+  typeof ref === 'string'
+    ? findVerticesByName(diagram, ref)
+    : ref.ids.map((id) => getCell(diagram, id)).filter((cell): cell is DiagramCell => !!cell && (cell.vertex || (edges && cell.edge)));
+
+// Removes every vertex whose label mentions `component`, along with its
+// children and any edges attached to it. Connections pinned down by id, e.g.
+// selected ones, go on their own.
+export const removeComponent = (xml: string, component: ComponentRef): EditPlan => {
+  const componentName = refName(component);
+  try {
+    const builder = createPatchBuilder(xml);
+    findComponents(builder.diagram, component, true).forEach((cell) => {
+      // A match inside another match is already gone.
+      if (getCell(builder.diagram, cell.id)) builder.add({ op: 'removeCell', id: cell.id });
+    });
+    if (builder.operations.length > 0) {
+      return { success: true, operations: builder.operations, message: `Removed ${componentName.toUpperCase()} component and its connections`, subjects: [] };
+    }
+  } catch (error) {
+    console.error('Error removing component:', error);
+  }
+  return failed(`No component named ${componentName} found`);
+};
+
+// Renames whole-word occurrences inside labels only; ids and styles are never
+// touched, and HTML labels keep their formatting. Resolved cells get their
+// whole label replaced.
+export const replaceComponent = (xml: string, from: ComponentRef, toComponent: string): EditPlan => {
+  const fromComponent = refName(from);
+  try {
+    const builder = createPatchBuilder(xml);
+    const cells = typeof from === 'string' ? getCells(builder.diagram) : findComponents(builder.diagram, from);
+    const subjects: string[] = [];
+    let count = 0;
+
+    cells.forEach((cell) => {
+      const name = getCellDisplayName(cell);
+      if (typeof from !== 'string' && !name) {
+        builder.add({ op: 'setLabel', id: cell.id, label: toComponent });
+        subjects.push(cell.id);
+        count++;
+        return;
+      }
+      const regex = phrasePattern(typeof from === 'string' ? from : name);
+      const result = replaceLabelText(cell.value, isStyleFlagSet(cell.style, 'html'), regex, toComponent);
+      if (result.count === 0) return;
+      count += result.count;
+      subjects.push(cell.id);
+      builder.add({ op: 'setLabel', id: cell.id, label: result.value });
+    });
+
+    if (count > 0) {
+      return {
+        success: true,
+        operations: builder.operations,
+        message: `Changed ${count} instance(s) of "${fromComponent.toUpperCase()}" to "${toComponent.toUpperCase()}"`,
+        subjects,
+      };
+    }
+  } catch (error) {
+    console.error('Error replacing component:', error);
+  }
+  return failed(`No label mentions ${fromComponent}`);
+};
+
+export const removeConnections = (xml: string, first?: ComponentRef, second?: ComponentRef): EditPlan => {
+  const component1 = first && refName(first);
+  const component2 = second && refName(second);
+  try {
+    const builder = createPatchBuilder(xml);
+    const diagram = builder.diagram;
+    const edges = getEdges(diagram);
+    const removeAll = (doomed: DiagramCell[]) => doomed.forEach((edge) => builder.add({ op: 'removeCell', id: edge.id }));
+
+    if (first && second) {
+      const firstIds = new Set(findComponents(diagram, first).map((cell) => cell.id));
+      const secondIds = new Set(findComponents(diagram, second).map((cell) => cell.id));
+      removeAll(edges.filter((edge) =>
+        (firstIds.has(edge.source) && secondIds.has(edge.target)) || (secondIds.has(edge.source) && firstIds.has(edge.target)),
+      ));
+
+      return {
+        success: builder.operations.length > 0,
+        operations: builder.operations,
+        message: `Removed ${builder.operations.length} connection(s) between ${component1.toUpperCase()} and ${component2.toUpperCase()}`,
+        subjects: [],
+      };
+    }
+
+    if (first) {
+      const ids = new Set(findComponents(diagram, first).map((cell) => cell.id));
+      removeAll(edges.filter((edge) => ids.has(edge.source) || ids.has(edge.target)));
+      if (builder.operations.length > 0) {
+        return {
+          success: true,
+          operations: builder.operations,
+          message: `Removed ${builder.operations.length} connection(s) from ${component1.toUpperCase()}`,
+          subjects: [],
+        };
+      }
+      return failed('No connections found to remove');
+    }
+
+    if (edges.length > 0) {
+      removeAll(edges);
+      return {
+        success: true,
+        operations: builder.operations,
+        message: `Removed ${edges.length} arrow(s)/connection(s) from the diagram`,
+        subjects: [],
+      };
+    }
+  } catch (error) {
+    console.error('Error removing connections:', error);
+  }
+  return failed('No connections found to remove');
+};
+
+const connectorStyle = (exit: DiagramPoint, entry: DiagramPoint, bidirectional: boolean): string =>
+  'edgeStyle=orthogonalEdgeStyle;rounded=0;orthogonalLoop=1;jettySize=auto;html=1;' +
+  `exitX=${exit.x};exitY=${exit.y};exitDx=0;exitDy=0;entryX=${entry.x};entryY=${entry.y};entryDx=0;entryDy=0;` +
+  `endArrow=classic;${bidirectional ? 'startArrow=classic;' : ''}`;
+
+// Adds an edge anchored to the facing sides of both cells and returns its id.
+const addConnector = (builder: PatchBuilder, source: DiagramCell, target: DiagramCell, options: { label?: string; bidirectional?: boolean } = {}): string => {
+  const resolver = createGeometryResolver(getCells(builder.diagram));
+  const { exit, entry } = facingPorts(resolver.boundsOf(source), resolver.boundsOf(target));
+  const id = createCellId(builder.diagram);
+  builder.add({
+    op: 'connect',
+    id,
+    source: source.id,
+    target: target.id,
+    label: options.label,
+    style: connectorStyle(exit, entry, !!options.bidirectional),
+  });
+  return id;
+};
+
+export interface ConnectOptions {
+  // Arrowheads at both ends.
+  bidirectional?: boolean;
+  label?: string;
+}
+
+// Connects the first component matching each name. An identical connection
+// that is already there is reported instead of drawn twice.
+export const connectComponents = (xml: string, from: ComponentRef, to: ComponentRef, options: ConnectOptions = {}): EditPlan => {
+  try {
+    const builder = createPatchBuilder(xml);
+    const [source] = findComponents(builder.diagram, from);
+    const [target] = findComponents(builder.diagram, to);
+    if (!source || !target) return failed(`No component named ${refName(source ? to : from)} found`);
+    if (source.id === target.id) return failed(`Cannot connect ${refName(from)} to itself`);
+
+    const sourceName = getCellDisplayName(source) || refName(from);
+    const targetName = getCellDisplayName(target) || refName(to);
+    const duplicate = getEdges(builder.diagram).some((edge) =>
+      edge.source === source.id && edge.target === target.id && (!options.label || edge.value === options.label),
+    );
+    if (duplicate && !options.bidirectional) return failed(`${sourceName} is already connected to ${targetName}`);
+
+    addConnector(builder, source, target, options);
+    const arrow = options.bidirectional ? '↔' : '→';
+    return {
+      success: true,
+      operations: builder.operations,
+      message: `Connected ${sourceName} ${arrow} ${targetName}${options.label ? ` labelled "${options.label}"` : ''}`,
+      subjects: [],
+    };
+  } catch (error) {
+    console.error('Error connecting components:', error);
+  }
+  return failed('Connecting the components failed');
+};
+
+const DEFAULT_COMPONENT_STYLE = 'rounded=1;whiteSpace=wrap;html=1;fillColor=#dae8fc;strokeColor=#6c8ebf;';
+const DEFAULT_COMPONENT_SIZE = { width: 120, height: 60 };
+
+const RELATION_PHRASES: Record<PlacementRelation, string> = {
+  right: 'to the right of',
+  left: 'to the left of',
+  above: 'above',
+  below: 'below',
+  inside: 'inside',
+};
+
+export interface AddComponentOptions {
+  // Also draws an edge from the new component to this one.
+  connectTo?: ComponentRef;
+  position?: { relation: PlacementRelation; of: ComponentRef };
+}
+
+// Puts the new block in free space on the grid, next to or inside another
+// component when asked, growing containers that become too small.
+export const addComponent = (xml: string, componentName: string, options: AddComponentOptions = {}): EditPlan => {
+  const { connectTo, position } = options;
+  const label = componentName.toUpperCase();
+  try {
+    const builder = createPatchBuilder(xml);
+    const target = connectTo ? findComponents(builder.diagram, connectTo)[0] : undefined;
+    if (connectTo && !target) {
+      return failed(`No component named ${refName(connectTo)} to connect ${label} to`);
+    }
+    const anchor = position ? findComponents(builder.diagram, position.of)[0] : undefined;
+    if (position && !anchor) {
+      return failed(`No component named ${refName(position.of)} to put ${label} ${RELATION_PHRASES[position.relation]}`);
+    }
+
+    const hint = anchor && { relation: position!.relation, anchor: anchor.id };
+    const template = placementTemplate(builder.diagram, hint);
+    const placement = createPlacer(builder.diagram).place(DEFAULT_COMPONENT_SIZE, hint);
+
+    const id = createCellId(builder.diagram);
+    builder.add({
+      op: 'addVertex',
+      id,
+      label,
+      style: template?.rawStyle || DEFAULT_COMPONENT_STYLE,
+      geometry: placement.geometry,
+      parent: placement.parent,
+    });
+    placement.grow.forEach((grow) => builder.add({ op: 'setGeometry', id: grow.id, geometry: grow.geometry }));
+    // So draw.io also lets blocks be dropped into it.
+    if (anchor && position!.relation === 'inside' && !isStyleFlagSet(anchor.style, 'container')) {
+      builder.add({ op: 'setStyle', id: anchor.id, changes: { container: '1' } });
+    }
+
+    const where = anchor ? ` ${RELATION_PHRASES[position!.relation]} ${getCellDisplayName(anchor) || refName(position!.of)}` : '';
+    if (target) {
+      addConnector(builder, getCell(builder.diagram, id)!, target);
+      return {
+        success: true,
+        operations: builder.operations,
+        message: `Added new ${label} component${where} connected to ${getCellDisplayName(target) || refName(connectTo!)}`,
+        subjects: [id],
+      };
+    }
+    return { success: true, operations: builder.operations, message: `Added new ${label} component${where || ' to the architecture'}`, subjects: [id] };
+  } catch (error) {
+    console.error('Error adding component:', error);
+  }
+  return failed('Adding the component failed');
+};
+
+export const COLOR_NAMES: { [key: string]: string } = {
+  'red': '#ff0000', 'blue': '#0000ff', 'green': '#00ff00', 'yellow': '#ffff00',
+  'orange': '#ffa500', 'purple': '#800080', 'pink': '#ffc0cb', 'gray': '#808080'
+};
+
+export const modifyComponentProperty = (xml: string, ref: ComponentRef, value: string, userInput: string): EditPlan => {
+  const component = refName(ref);
+  try {
+    const lowerInput = userInput.toLowerCase();
+    const builder = createPatchBuilder(xml);
+    const matches = findComponents(builder.diagram, ref, true);
+    const subjects = matches.map((cell) => cell.id);
+    if (matches.length === 0) {
+      return failed(`No component named ${component} found`);
+    }
+
+    if (lowerInput.includes('size') || lowerInput.includes('width') || lowerInput.includes('height') || lowerInput.includes('bigger') || lowerInput.includes('smaller')) {
+      const size = parseFloat(value);
+      const blocks = matches.filter((cell) => cell.vertex);
+      if (blocks.length === 0) return failed('Connections have no size to change');
+      blocks.forEach((cell) => builder.add({ op: 'setGeometry', id: cell.id, geometry: { width: size, height: size } }));
+      return { success: true, operations: builder.operations, message: `Changed ${component.toUpperCase()} size to ${value}x${value}`, subjects: blocks.map((cell) => cell.id) };
+    }
+
+    if (lowerInput.includes('color') || lowerInput.includes('colour')) {
+      const colorCode = COLOR_NAMES[value.toLowerCase()] || value;
+      // Connections are coloured by their line.
+      matches.forEach((cell) => builder.add({ op: 'setStyle', id: cell.id, changes: cell.edge ? { strokeColor: colorCode } : { fillColor: colorCode } }));
+      return { success: true, operations: builder.operations, message: `Changed ${component.toUpperCase()} color to ${value}`, subjects };
+    }
+  } catch (error) {
+    console.error('Error modifying component property:', error);
+  }
+  return failed('Property modification failed');
+};
+
+// Tidies the whole page, or only the components matching `scope`.
+export const layoutComponents = (xml: string, algorithm: LayoutAlgorithm, scope?: ComponentRef): EditPlan => {
+  const label = LAYOUT_ALGORITHMS[algorithm].label.toLowerCase();
+  try {
+    const builder = createPatchBuilder(xml);
+    const cells = scope ? findComponents(builder.diagram, scope) : undefined;
+    if (scope && cells!.length === 0) return failed(`No component named ${refName(scope)} found`);
+
+    const moved = layoutCells(builder, algorithm, cells?.map((cell) => cell.id));
+    const what = scope ? refName(scope) : 'diagram';
+    if (moved.length === 0) {
+      return failed(algorithm === 'declutter' ? `Nothing in the ${what} overlaps` : `The ${what} already fits the ${label} layout`);
+    }
+    return {
+      success: true,
+      operations: builder.operations,
+      message: algorithm === 'declutter'
+        ? `Moved ${moved.length} overlapping block(s) apart`
+        : `Arranged ${moved.length} block(s)${scope ? ` of ${refName(scope)}` : ''} with the ${label} layout`,
+      subjects: moved,
+    };
+  } catch (error) {
+    console.error('Error laying out the diagram:', error);
+  }
+  return failed('Laying out the diagram failed');
+};
+
+// Aligns, distributes, sizes or snaps the named components as one change.
+// Snapping with no names covers the whole page.
+export const arrangeComponents = (xml: string, action: ArrangeAction, components: ComponentRef[]): EditPlan => {
+  const what = describeArrangeAction(action);
+  try {
+    const builder = createPatchBuilder(xml);
+    const missing = components.filter((ref) => findComponents(builder.diagram, ref).length === 0);
+    if (missing.length > 0) return failed(`No component named ${missing.map(refName).join(', ')} found`);
+
+    const cells = components.length > 0
+      ? components.flatMap((ref) => findComponents(builder.diagram, ref))
+      : action.kind === 'snap' ? getCells(builder.diagram).filter((cell) => cell.vertex) : [];
+    const ids = cells.map((cell) => cell.id).filter((id, index, all) => all.indexOf(id) === index);
+    if (ids.length < MINIMUM_CELLS[action.kind]) {
+      return failed(`${what} needs at least ${MINIMUM_CELLS[action.kind]} components`);
+    }
+
+    const changed = arrangeCells(builder, ids, action);
+    const names = components.length > 0 ? components.map(refName).join(', ') : 'every block';
+    if (changed.length === 0) return failed(`${what}: ${names} already line up`);
+    return {
+      success: true,
+      operations: builder.operations,
+      message: `${what}: ${names} (${changed.length} block(s) changed)`,
+      subjects: ids,
+    };
+  } catch (error) {
+    console.error('Error arranging components:', error);
+  }
+  return failed(`${what} failed`);
+};
+
+// Puts the named components in a new container called `name`.
+export const groupComponents = (xml: string, components: ComponentRef[], name?: string): EditPlan => {
+  try {
+    const builder = createPatchBuilder(xml);
+    const missing = components.filter((ref) => findComponents(builder.diagram, ref).length === 0);
+    if (missing.length > 0) return failed(`No component named ${missing.map(refName).join(', ')} found`);
+
+    const ids = components.flatMap((ref) => findComponents(builder.diagram, ref)).map((cell) => cell.id);
+    const id = groupCells(builder, ids.filter((cell, index) => ids.indexOf(cell) === index), name);
+    return {
+      success: true,
+      operations: builder.operations,
+      message: `Grouped ${components.map(refName).join(', ')}${name ? ` into "${name}"` : ''}`,
+      subjects: [id],
+    };
+  } catch (error) {
+    console.error('Error grouping components:', error);
+  }
+  return failed('Grouping the components failed');
+};
+
+export interface MoveDestination {
+  into?: ComponentRef;
+  // Out to the parent of this container; with neither, onto the page itself.
+  outOf?: ComponentRef;
+}
+
+// Moves the named components into another one, or out of their container.
+export const moveComponents = (xml: string, components: ComponentRef[], destination: MoveDestination = {}): EditPlan => {
+  const { into, outOf } = destination;
+  const names = components.map(refName).join(', ');
+  try {
+    const builder = createPatchBuilder(xml);
+    const diagram = builder.diagram;
+    const missing = components.filter((ref) => findComponents(diagram, ref).length === 0);
+    if (missing.length > 0) return failed(`No component named ${missing.map(refName).join(', ')} found`);
+    const container = into ? findComponents(diagram, into)[0] : outOf ? findComponents(diagram, outOf)[0] : undefined;
+    if ((into || outOf) && !container) return failed(`No component named ${refName((into ?? outOf)!)} found`);
+
+    const containerName = container ? getCellDisplayName(container) || refName((into ?? outOf)!) : '';
+    let cells = components.flatMap((ref) => findComponents(diagram, ref)).filter((cell) => cell.id !== container?.id);
+    if (into) {
+      if (cells.some((cell) => isInside(diagram, container!.id, cell.id))) return failed(`Cannot move ${names} into something inside it`);
+      cells = cells.filter((cell) => cell.parent !== container!.id);
+      if (cells.length === 0) return failed(`${names} is already in ${containerName}`);
+    } else if (outOf) {
+      cells = cells.filter((cell) => isInside(diagram, cell.id, container!.id));
+      if (cells.length === 0) return failed(`${names} is not inside ${containerName}`);
+    } else {
+      cells = cells.filter((cell) => cell.parent !== getDefaultParent(diagram));
+      if (cells.length === 0) return failed(`${names} is not inside anything`);
+    }
+    // Blocks inside other ones being moved come along with them.
+    const ids = cells.map((cell) => cell.id).filter((id, index, all) => all.indexOf(id) === index);
+    const moving = ids.filter((id) => !ids.some((other) => other !== id && isInside(diagram, id, other)));
+
+    const target = into ? container!.id : outOf ? container!.parent : undefined;
+    moving.forEach((id) => moveIntoContainer(builder, id, target === getDefaultParent(builder.diagram) ? undefined : target));
+    return {
+      success: true,
+      operations: builder.operations,
+      message: into ? `Moved ${names} into ${containerName}` : outOf ? `Moved ${names} out of ${containerName}` : `Moved ${names} out onto the page`,
+      subjects: moving,
+    };
+  } catch (error) {
+    console.error('Error moving components:', error);
+  }
+  return failed('Moving the components failed');
+};
+
+// Dissolves every container matching `component`, leaving its contents in place.
+export const ungroupComponent = (xml: string, component: ComponentRef): EditPlan => {
+  const componentName = refName(component);
+  try {
+    const builder = createPatchBuilder(xml);
+    const matches = findComponents(builder.diagram, component);
+    if (matches.length === 0) return failed(`No component named ${componentName} found`);
+    const containers = matches.filter((cell) => getChildren(builder.diagram, cell.id).some((child) => child.vertex));
+    if (containers.length === 0) return failed(`${componentName} has nothing inside it to ungroup`);
+
+    const moved: string[] = [];
+    let removedEdges = 0;
+    containers.forEach((cell) => {
+      const result = ungroupCell(builder, cell.id);
+      moved.push(...result.moved);
+      removedEdges += result.removedEdges;
+    });
+    return {
+      success: true,
+      operations: builder.operations,
+      message: `Ungrouped ${componentName}: ${moved.length} block(s) moved out${removedEdges > 0 ? `, ${removedEdges} connection(s) to it removed` : ''}`,
+      subjects: moved,
+    };
+  } catch (error) {
+    console.error('Error ungrouping component:', error);
+  }
+  return failed('Ungrouping failed');
+};
+
+export interface CellProperties {
+  // Visible text; HTML labels are rewritten only when it differs.
+  label?: string;
+  // The whole style, replacing the current one.
+  style?: StyleMap;
+  geometry?: Partial<Pick<DiagramGeometry, 'x' | 'y' | 'width' | 'height'>>;
+}
+
+// Writes one cell's properties as edited in the inspector. Only what differs
+// from the page becomes an operation.
+export const editCellProperties = (xml: string, id: string, properties: CellProperties): EditPlan => {
+  try {
+    const builder = createPatchBuilder(xml);
+    const cell = getCell(builder.diagram, id);
+    if (!cell) return failed(`There is no cell ${id} on this page`);
+    const name = getCellReferenceName(cell, (other) => getCell(builder.diagram, other));
+    const html = isStyleFlagSet(cell.style, 'html');
+    const edited: string[] = [];
+
+    if (properties.label !== undefined && properties.label !== labelToText(cell.value, html)) {
+      builder.add({ op: 'setLabel', id, label: textToLabel(properties.label, html) });
+      edited.push('label');
+    }
+
+    if (properties.style) {
+      const next = properties.style;
+      const changes: Record<string, string | null> = {};
+      Object.keys(cell.style).forEach((key) => {
+        if (!(key in next)) changes[key] = null;
+      });
+      Object.entries(next).forEach(([key, value]) => {
+        if (cell.style[key] !== value) changes[key] = value;
+      });
+      if (Object.keys(changes).length > 0) {
+        builder.add({ op: 'setStyle', id, changes });
+        edited.push('style');
+      }
+    }
+
+    if (properties.geometry && cell.geometry) {
+      const current = cell.geometry;
+      const changes = Object.fromEntries(
+        Object.entries(properties.geometry).filter(([key, value]) => value !== undefined && current[key as keyof typeof properties.geometry] !== value),
+      );
+      if (Object.keys(changes).length > 0) {
+        builder.add({ op: 'setGeometry', id, geometry: changes });
+        edited.push('x' in changes || 'y' in changes ? ('width' in changes || 'height' in changes ? 'position and size' : 'position') : 'size');
+      }
+    }
+
+    if (edited.length === 0) return failed(`Nothing changed on ${name}`);
+    const what = edited.length > 1 ? `${edited.slice(0, -1).join(', ')} and ${edited[edited.length - 1]}` : edited[0];
+    return { success: true, operations: builder.operations, message: `Updated the ${what} of ${name}`, subjects: [id] };
+  } catch (error) {
+    console.error('Error editing cell properties:', error);
+  }
+  return failed('Editing the cell failed');
+};
@@ -0,0 +1,122 @@
+import { createCellId, getCell, getCells, getChildren, getConnectedEdges, getDefaultParent, getDescendants, getEdges, type DiagramDocument } from "./model";
+import { rerouteEdges } from "./layout";
+import type { PatchBuilder } from "./patch";
+import { createPlacer, getGridSize } from "./placement";
+import { createGeometryResolver, unionBounds, type Bounds } from "./render";
+import { isStyleFlagSet } from "./style";
+
+// A titled box, which draw.io treats as a container.
+const GROUP_STYLE = 'swimlane;startSize=30;rounded=1;arcSize=4;html=1;whiteSpace=wrap;fillColor=#f5f5f5;strokeColor=#666666;fontColor=#333333;';
+const GROUP_TITLE_HEIGHT = 30;
+// Room around the members, in grid steps.
+const GROUP_PADDING_STEPS = 2;
+
+// Containers of `id`, innermost first, ending with the layer and the root.
+const ancestors = (diagram: DiagramDocument, id: string): string[] => {
+  const chain: string[] = [];
+  let current = getCell(diagram, id);
+  while (current?.parent) {
+    chain.push(current.parent);
+    current = getCell(diagram, current.parent);
+  }
+  return chain;
+};
+
+export const isInside = (diagram: DiagramDocument, id: string, containerId: string): boolean => ancestors(diagram, id).includes(containerId);
+
+// The innermost container that holds all of the cells.
+const commonParent = (diagram: DiagramDocument, ids: string[]): string => {
+  const [first = [], ...rest] = ids.map((id) => ancestors(diagram, id));
+  return first.find((id) => rest.every((chain) => chain.includes(id))) ?? getDefaultParent(diagram);
+};
+
+const contains = (outer: Bounds, inner: Bounds): boolean =>
+  inner.x >= outer.x && inner.y >= outer.y && inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+
+// Puts every edge attached to the cells, or to anything inside them, into the
+// innermost container holding both of its ends, the way draw.io does when
+// blocks move between containers.
+export const reparentEdges = (builder: PatchBuilder, ids: string[]) => {
+  const moved = new Set(ids.flatMap((id) => [id, ...getDescendants(builder.diagram, id).map((cell) => cell.id)]));
+  getEdges(builder.diagram)
+    .filter((edge) => (edge.source && moved.has(edge.source)) || (edge.target && moved.has(edge.target)))
+    .forEach((edge) => {
+      const ends = [edge.source, edge.target].filter((end): end is string => !!end && !!getCell(builder.diagram, end));
+      const parent = commonParent(builder.diagram, ends);
+      if (parent !== edge.parent) builder.add({ op: 'reparent', id: edge.id, parent });
+    });
+};
+
+// Wraps the cells in a new titled container sized to fit them, in the
+// innermost container they share. Returns the container's id.
+export const groupCells = (builder: PatchBuilder, ids: string[], label = ''): string => {
+  // Cells inside other members come along with them.
+  const members = ids.filter((id) => !ids.some((other) => other !== id && isInside(builder.diagram, id, other)));
+  const parent = commonParent(builder.diagram, members);
+  members.forEach((id) => {
+    if (getCell(builder.diagram, id)?.parent !== parent) builder.add({ op: 'reparent', id, parent });
+  });
+
+  const cells = getCells(builder.diagram);
+  const resolver = createGeometryResolver(cells);
+  const container = resolver.byId.get(parent);
+  const origin = container?.vertex && container.geometry ? resolver.boundsOf(container) : { x: 0, y: 0 };
+  const bounds = unionBounds(members.map((id) => resolver.boundsOf(resolver.byId.get(id)!)));
+  const grid = getGridSize(builder.diagram);
+  const padding = grid * GROUP_PADDING_STEPS;
+  const left = Math.floor((bounds.x - origin.x - padding) / grid) * grid;
+  const top = Math.floor((bounds.y - origin.y - padding - GROUP_TITLE_HEIGHT) / grid) * grid;
+  const right = Math.ceil((bounds.x + bounds.width - origin.x + padding) / grid) * grid;
+  const bottom = Math.ceil((bounds.y + bounds.height - origin.y + padding) / grid) * grid;
+
+  const id = createCellId(builder.diagram);
+  // In page order, so the container is painted below all of them.
+  const children = cells.filter((cell) => members.includes(cell.id)).map((cell) => cell.id);
+  builder.add({ op: 'group', id, children, label, style: GROUP_STYLE, geometry: { x: left, y: top, width: right - left, height: bottom - top } });
+  reparentEdges(builder, children);
+  return id;
+};
+
+// Moves the cell into the container, or onto the page without one. It stays
+// where it is on screen when that is already inside the container; otherwise
+// it goes into the container's free space, which grows if needed.
+export const moveIntoContainer = (builder: PatchBuilder, id: string, containerId?: string) => {
+  const parent = containerId ?? getDefaultParent(builder.diagram);
+  const resolver = createGeometryResolver(getCells(builder.diagram));
+  const cell = resolver.byId.get(id);
+  const container = containerId ? resolver.byId.get(containerId) : undefined;
+  if (!cell) return;
+
+  const fits = !container?.geometry || !cell.geometry || contains(resolver.boundsOf(container), resolver.boundsOf(cell));
+  const placement = fits
+    ? undefined
+    : createPlacer(builder.diagram).place({ width: cell.geometry!.width, height: cell.geometry!.height }, { relation: 'inside', anchor: container!.id });
+
+  builder.add({ op: 'reparent', id, parent });
+  if (placement) {
+    builder.add({ op: 'setGeometry', id, geometry: { x: placement.geometry.x, y: placement.geometry.y } });
+    placement.grow.forEach((grow) => builder.add({ op: 'setGeometry', id: grow.id, geometry: grow.geometry }));
+  }
+  if (container && container.style.swimlane === undefined && !isStyleFlagSet(container.style, 'container')) {
+    builder.add({ op: 'setStyle', id: container.id, changes: { container: '1' } });
+  }
+  reparentEdges(builder, [id]);
+  if (placement) rerouteEdges(builder, resolver, false);
+};
+
+// Moves everything in the container out to the container's own parent without
+// moving it on screen, then removes the container and the edges attached to
+// it. Returns the blocks that moved out and how many edges went.
+export const ungroupCell = (builder: PatchBuilder, id: string): { moved: string[]; removedEdges: number } => {
+  const group = getCell(builder.diagram, id);
+  if (!group) return { moved: [], removedEdges: 0 };
+  const parent = group.parent ?? getDefaultParent(builder.diagram);
+  const children = getChildren(builder.diagram, id);
+  const removedEdges = getConnectedEdges(builder.diagram, id).length;
+
+  children.forEach((child) => builder.add({ op: 'reparent', id: child.id, parent }));
+  builder.add({ op: 'removeCell', id });
+  const moved = children.filter((child) => child.vertex).map((child) => child.id);
+  reparentEdges(builder, moved);
+  return { moved, removedEdges };
+};
@@ -0,0 +1,112 @@
+import { inflate } from 'pako';
+
+// diagrams.net "editable" exports keep the full diagram next to the picture:
+// PNGs in a tEXt/zTXt/iTXt chunk keyed `mxfile` (older versions: `mxGraphModel`),
+// SVGs in the `content` attribute of the root element.
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const DIAGRAM_KEYWORDS = ['mxfile', 'mxGraphModel'];
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const isPng = (bytes: Uint8Array): boolean => PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+// The text payload is URI-encoded by draw.io, but older exports stored it raw.
+const normalizePayload = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (trimmed.startsWith('<')) return trimmed;
+  try {
+    const decoded = decodeURIComponent(trimmed);
+    return decoded.trim().startsWith('<') ? decoded.trim() : null;
+  } catch {
+    return null;
+  }
+};
+
+const readTextChunk = (type: string, data: Uint8Array): { keyword: string; text: string } | null => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd <= 0) return null;
+  const keyword = latin1.decode(data.subarray(0, keywordEnd));
+
+  if (type === 'tEXt') {
+    return { keyword, text: latin1.decode(data.subarray(keywordEnd + 1)) };
+  }
+  if (type === 'zTXt') {
+    // One byte of compression method precedes the zlib stream.
+    return { keyword, text: latin1.decode(inflate(data.subarray(keywordEnd + 2))) };
+  }
+  if (type === 'iTXt') {
+    const compressed = data[keywordEnd + 1] === 1;
+    const languageEnd = data.indexOf(0, keywordEnd + 3);
+    const translatedEnd = data.indexOf(0, languageEnd + 1);
+    if (languageEnd < 0 || translatedEnd < 0) return null;
+    const body = data.subarray(translatedEnd + 1);
+    return { keyword, text: utf8.decode(compressed ? inflate(body) : body) };
+  }
+  return null;
+};
+
+export const extractDiagramFromPng = (buffer: ArrayBuffer): string | null => {
+  const bytes = new Uint8Array(buffer);
+  if (!isPng(bytes)) return null;
+
+  const view = new DataView(buffer);
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      try {
+        const chunk = readTextChunk(type, data);
+        if (chunk && DIAGRAM_KEYWORDS.includes(chunk.keyword)) {
+          const xml = normalizePayload(chunk.text);
+          if (xml) return xml;
+        }
+      } catch (error) {
+        console.error(`Failed to read PNG ${type} chunk:`, error);
+      }
+    }
+    if (type === 'IEND') break;
+
+    // length + type + data + crc
+    offset += 12 + length;
+  }
+
+  return null;
+};
+
+export const extractDiagramFromSvg = (svg: string): string | null => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  if (doc.getElementsByTagName('parsererror')[0]) return null;
+  const content = doc.documentElement.getAttribute('content');
+  if (!content) return null;
+
+  const xml = normalizePayload(content);
+  if (xml) return xml;
+
+  // Some exports base64-encode the attribute.
+  try {
+    return normalizePayload(atob(content));
+  } catch {
+    return null;
+  }
+};
+
+// Returns the embedded diagram XML, or null when the image is a plain picture.
+export const extractDiagramFromImage = async (file: File): Promise<string | null> => {
+  try {
+    if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) {
+      return extractDiagramFromSvg(await file.text());
+    }
+    if (file.type === 'image/png' || file.name.toLowerCase().endsWith('.png')) {
+      return extractDiagramFromPng(await file.arrayBuffer());
+    }
+  } catch (error) {
+    console.error('Failed to extract diagram from image:', error);
+  }
+  return null;
+};
@@ -0,0 +1,71 @@
+import { getCellReferenceName, labelToText } from "./labels";
+import { getCell, getCells, getConnectedEdges, parseDiagram, type DiagramCell, type DiagramDocument } from "./model";
+import { isStyleFlagSet } from "./style";
+
+export interface CellLink {
+  id: string;
+  name: string;
+}
+
+// Everything the inspector shows about one cell.
+export interface CellDetails {
+  id: string;
+  kind: 'vertex' | 'edge';
+  name: string;
+  // The label as text, and whether it is stored as HTML.
+  label: string;
+  html: boolean;
+  parent?: CellLink;
+  // In the order the style string lists them; base styles have an empty value.
+  style: Array<{ key: string; value: string }>;
+  geometry?: { x: number; y: number; width: number; height: number };
+  // For a block, the connections attached to it and what is at their other
+  // end; for a connection, its two ends.
+  connections: Array<CellLink & { direction: 'in' | 'out'; other?: CellLink }>;
+  source?: CellLink;
+  target?: CellLink;
+}
+
+const linkTo = (diagram: DiagramDocument, id: string | undefined): CellLink | undefined => {
+  const cell = id ? getCell(diagram, id) : undefined;
+  if (!cell) return id ? { id, name: id } : undefined;
+  return { id: cell.id, name: getCellReferenceName(cell, (other) => getCell(diagram, other)) };
+};
+
+const describe = (diagram: DiagramDocument, cell: DiagramCell): CellDetails => {
+  const name = (other: DiagramCell) => getCellReferenceName(other, (id) => getCell(diagram, id));
+  const { geometry } = cell;
+  return {
+    id: cell.id,
+    kind: cell.edge ? 'edge' : 'vertex',
+    name: name(cell),
+    label: labelToText(cell.value, isStyleFlagSet(cell.style, 'html')),
+    html: isStyleFlagSet(cell.style, 'html'),
+    parent: linkTo(diagram, cell.parent),
+    style: Object.entries(cell.style).map(([key, value]) => ({ key, value })),
+    geometry: cell.vertex && geometry ? { x: geometry.x, y: geometry.y, width: geometry.width, height: geometry.height } : undefined,
+    connections: cell.vertex
+      ? getConnectedEdges(diagram, cell.id).map((edge) => {
+          const direction = edge.target === cell.id ? 'in' : 'out';
+          return { id: edge.id, name: name(edge), direction, other: linkTo(diagram, direction === 'in' ? edge.source : edge.target) };
+        })
+      : [],
+    source: cell.edge ? linkTo(diagram, cell.source) : undefined,
+    target: cell.edge ? linkTo(diagram, cell.target) : undefined,
+  };
+};
+
+// The block or connection `id` on the page, or undefined if there is none.
+export const inspectCell = (xml: string, id: string): CellDetails | undefined => {
+  const diagram = parseDiagram(xml);
+  const cell = getCell(diagram, id);
+  return cell && (cell.vertex || cell.edge) ? describe(diagram, cell) : undefined;
+};
+
+// The page's blocks and connections, for picking one to inspect.
+export const listInspectableCells = (xml: string): CellLink[] => {
+  const diagram = parseDiagram(xml);
+  return getCells(diagram)
+    .filter((cell) => cell.vertex || cell.edge)
+    .map((cell) => ({ id: cell.id, name: getCellReferenceName(cell, (id) => getCell(diagram, id)) }));
+};
@@ -0,0 +1,157 @@
+import { isStyleFlagSet } from "./style";
+import type { DiagramCell } from "./model";
+
+// Labels with `html=1` hold markup written by diagrams.net. Only the
+// formatting subset it produces is kept; everything else is unwrapped.
+const ALLOWED_TAGS = new Set([
+  'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'sub', 'sup', 'br', 'hr',
+  'font', 'span', 'div', 'p', 'ul', 'ol', 'li', 'pre', 'code', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+const ALLOWED_ATTRIBUTES = new Set(['style', 'color', 'face', 'size', 'align']);
+
+const sanitizeNode = (node: Node, doc: Document): Node | null => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return doc.createTextNode(node.nodeValue || '');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'script' || tag === 'style') return null;
+
+  const children = Array.from(element.childNodes)
+    .map((child) => sanitizeNode(child, doc))
+    .filter((child): child is Node => child !== null);
+
+  if (!ALLOWED_TAGS.has(tag)) {
+    const fragment = doc.createDocumentFragment();
+    children.forEach((child) => fragment.appendChild(child));
+    return fragment;
+  }
+
+  const clean = doc.createElement(tag);
+  Array.from(element.attributes).forEach((attr) => {
+    const name = attr.name.toLowerCase();
+    if (!ALLOWED_ATTRIBUTES.has(name)) return;
+    if (name === 'style' && /url\s*\(|expression\s*\(/i.test(attr.value)) return;
+    clean.setAttribute(name, attr.value);
+  });
+  children.forEach((child) => clean.appendChild(child));
+  return clean;
+};
+
+export const sanitizeLabelHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const container = doc.createElement('div');
+  Array.from(doc.body.childNodes).forEach((child) => {
+    const clean = sanitizeNode(child, doc);
+    if (clean) container.appendChild(clean);
+  });
+  return container.innerHTML;
+};
+
+// Visible text of a label; `<br>` and block elements become line breaks.
+export const labelToText = (value: string, html: boolean): string => {
+  if (!html) return value;
+  const doc = new DOMParser().parseFromString(
+    `<body>${value.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p|li|h\d)>/gi, '\n$&')}</body>`,
+    'text/html',
+  );
+  return (doc.body.textContent || '').replace(/\u00a0/g, ' ').replace(/[ \t]+\n/g, '\n').trim();
+};
+
+// The other way round: visible text as a label value. HTML labels get their
+// line breaks as `<br>` and any markup characters escaped.
+export const textToLabel = (text: string, html: boolean): string =>
+  html ? text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>') : text;
+
+// Single-line name for lists and chat replies.
+export const labelDisplayName = (value: string, html: boolean): string =>
+  labelToText(value, html).replace(/\s+/g, ' ').trim();
+
+// Lower-case words separated by single spaces, for matching user input against labels.
+export const toSearchKey = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export const getCellDisplayName = (cell: DiagramCell): string =>
+  labelDisplayName(cell.value, isStyleFlagSet(cell.style, 'html'));
+
+export const getCellSearchKey = (cell: DiagramCell): string => toSearchKey(getCellDisplayName(cell));
+
+// Unlabelled edges are named after the cells they join; anything else
+// unlabelled, including a floating edge, goes by its id.
+export const getCellReferenceName = (cell: DiagramCell, getCell: (id: string) => DiagramCell | undefined): string => {
+  const name = getCellDisplayName(cell);
+  if (name || !cell.edge || (!cell.source && !cell.target)) return name || cell.id;
+  const end = (id?: string) => (id && getCell(id) ? getCellDisplayName(getCell(id)!) || id : '…');
+  return `${end(cell.source)} → ${end(cell.target)}`;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches `phrase` as whole words, allowing any whitespace or line break between them.
+export const phrasePattern = (phrase: string): RegExp =>
+  new RegExp(`\\b${phrase.trim().split(/\s+/).map(escapeRegExp).join('\\s+')}\\b`, 'gi');
+
+interface TextSegment {
+  node: Node;
+  start: number;
+  end: number;
+}
+
+const collectSegments = (root: Node, segments: TextSegment[], offset: number): number => {
+  Array.from(root.childNodes).forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      const length = (child.nodeValue || '').length;
+      segments.push({ node: child, start: offset, end: offset + length });
+      offset += length;
+    } else if (child.nodeName.toLowerCase() === 'br') {
+      segments.push({ node: child, start: offset, end: offset + 1 });
+      offset += 1;
+    } else {
+      offset = collectSegments(child, segments, offset);
+    }
+  });
+  return offset;
+};
+
+// Replaces `pattern` in the visible text of a label. HTML labels keep their
+// markup: the replacement goes into the text node where the match starts, and
+// text or line breaks covered by a match that spans several nodes are dropped.
+export const replaceLabelText = (value: string, html: boolean, pattern: RegExp, replacement: string): { value: string; count: number } => {
+  if (!html) {
+    const matches = value.match(pattern);
+    return matches ? { value: value.replace(pattern, replacement), count: matches.length } : { value, count: 0 };
+  }
+
+  const doc = new DOMParser().parseFromString(`<body>${value}</body>`, 'text/html');
+  const segments: TextSegment[] = [];
+  collectSegments(doc.body, segments, 0);
+  const text = segments.map((segment) => (segment.node.nodeType === Node.TEXT_NODE ? segment.node.nodeValue : '\n')).join('');
+  const matches = Array.from(text.matchAll(pattern));
+  if (matches.length === 0) return { value, count: 0 };
+
+  // Later matches first, so earlier offsets stay valid.
+  matches.reverse().forEach((match) => {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    let placed = false;
+    segments.forEach((segment) => {
+      if (segment.end <= start || segment.start >= end) return;
+      if (segment.node.nodeType !== Node.TEXT_NODE) {
+        segment.node.parentNode?.removeChild(segment.node);
+        return;
+      }
+      const current = segment.node.nodeValue || '';
+      const tail = end < segment.end ? current.slice(end - segment.start) : '';
+      if (!placed) {
+        segment.node.nodeValue = current.slice(0, Math.max(0, start - segment.start)) + replacement + tail;
+        placed = true;
+      } else {
+        segment.node.nodeValue = tail;
+      }
+    });
+  });
+
+  return { value: doc.body.innerHTML, count: matches.length };
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import sample from "@/assets/sample-architecture.xml?raw";
+import { getCell, getCells, getVertices, parseDiagram, type DiagramCell } from "./model";
+import { layoutCells } from "./layout";
+import { getPageXml, listPages } from "./pages";
+import { createPatchBuilder } from "./patch";
+import { createGeometryResolver, type Bounds } from "./render";
+import { validateDiagramXml } from "./validation";
+
+const block = (id: string, x: number, y: number, extra = '') =>
+  `<mxCell id="${id}" value="${id.toUpperCase()}" vertex="1" parent="1"${extra}><mxGeometry x="${x}" y="${y}" width="80" height="40" as="geometry" /></mxCell>`;
+const link = (id: string, source: string, target: string, geometry = '') =>
+  `<mxCell id="${id}" edge="1" source="${source}" target="${target}" parent="1"><mxGeometry relative="1" as="geometry">${geometry}</mxGeometry></mxCell>`;
+const page = (...cells: string[]) => `<mxGraphModel gridSize="10"><root><mxCell id="0" /><mxCell id="1" parent="0" />${cells.join('')}</root></mxGraphModel>`;
+
+const chain = page(
+  block('a', 300, 300),
+  block('b', 0, 0),
+  block('c', 500, 20),
+  link('ab', 'a', 'b', '<Array as="points"><mxPoint x="1" y="2" /></Array>'),
+  link('bc', 'b', 'c'),
+);
+
+const boundsOf = (xml: string) => {
+  const cells = getCells(parseDiagram(xml));
+  const resolver = createGeometryResolver(cells);
+  return new Map(cells.filter((cell) => cell.vertex).map((cell) => [cell.id, resolver.boundsOf(cell)]));
+};
+const overlaps = (a: Bounds, b: Bounds) => a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+const hasOverlaps = (xml: string, ids: string[]) => {
+  const bounds = boundsOf(xml);
+  return ids.some((a, index) => ids.slice(index + 1).some((b) => overlaps(bounds.get(a)!, bounds.get(b)!)));
+};
+
+describe('layoutCells', () => {
+  it('puts connected blocks in rows that follow the connections', () => {
+    const builder = createPatchBuilder(chain);
+    layoutCells(builder, 'layered');
+    const bounds = boundsOf(builder.xml());
+    expect(bounds.get('a')!.y).toBeLessThan(bounds.get('b')!.y);
+    expect(bounds.get('b')!.y).toBeLessThan(bounds.get('c')!.y);
+    expect(getCell(builder.diagram, 'ab')?.geometry?.points).toEqual([]);
+  });
+
+  it('snaps to the grid without overlaps', () => {
+    for (const algorithm of ['layered', 'grid', 'compact'] as const) {
+      const builder = createPatchBuilder(chain);
+      layoutCells(builder, algorithm);
+      expect(hasOverlaps(builder.xml(), ['a', 'b', 'c'])).toBe(false);
+      getVertices(builder.diagram).forEach((cell) => {
+        expect(cell.geometry!.x % 10).toBe(0);
+        expect(cell.geometry!.y % 10).toBe(0);
+      });
+    }
+  });
+
+  it('squares off connections in the compact layout', () => {
+    const builder = createPatchBuilder(chain);
+    layoutCells(builder, 'compact');
+    expect(getCell(builder.diagram, 'bc')?.style.edgeStyle).toBe('orthogonalEdgeStyle');
+  });
+
+  it('leaves pinned blocks where they are', () => {
+    const builder = createPatchBuilder(page(block('a', 0, 0), block('b', 20, 10), block('p', 40, 20, ' style="locked=1;"')));
+    const moved = layoutCells(builder, 'declutter');
+    expect(moved).not.toContain('p');
+    expect(getCell(builder.diagram, 'p')?.geometry).toMatchObject({ x: 40, y: 20 });
+    expect(hasOverlaps(builder.xml(), ['a', 'b', 'p'])).toBe(false);
+  });
+
+  it('only arranges what is in scope', () => {
+    const builder = createPatchBuilder(chain);
+    expect(layoutCells(builder, 'grid', ['b', 'c'])).toEqual(['c']);
+    expect(getCell(builder.diagram, 'a')?.geometry).toMatchObject({ x: 300, y: 300 });
+  });
+
+  it('moves loose connection ends and waypoints with the block they are drawn on', () => {
+    const xml = page(
+      block('a', 0, 0),
+      block('b', 20, 10),
+      `<mxCell id="stub" edge="1" parent="1"><mxGeometry relative="1" as="geometry"><mxPoint x="100" y="45" as="sourcePoint" /><mxPoint x="100" y="80" as="targetPoint" /><Array as="points"><mxPoint x="100" y="60" /></Array></mxGeometry></mxCell>`,
+    );
+    const builder = createPatchBuilder(xml);
+    layoutCells(builder, 'declutter');
+    const before = boundsOf(xml).get('b')!;
+    const after = boundsOf(builder.xml()).get('b')!;
+    const shift = { x: after.x - before.x, y: after.y - before.y };
+    expect(shift).not.toEqual({ x: 0, y: 0 });
+    expect(getCell(builder.diagram, 'stub')?.geometry).toMatchObject({
+      sourcePoint: { x: 100 + shift.x, y: 45 + shift.y },
+      targetPoint: { x: 100 + shift.x, y: 80 + shift.y },
+      points: [{ x: 100 + shift.x, y: 60 + shift.y }],
+    });
+  });
+
+  it('keeps the sample valid and its loose arrows on their blocks', () => {
+    const xml = getPageXml(sample, listPages(sample)[0].id);
+    const builder = createPatchBuilder(xml);
+    layoutCells(builder, 'grid');
+    expect(validateDiagramXml(builder.xml())).toEqual([]);
+
+    // EQVulbTW3wnQUEHRVnnI-14 starts on NVIC.
+    const nvic = (source: string) => boundsOf(source).get('EQVulbTW3wnQUEHRVnnI-15')!;
+    const start = (source: string) => (getCell(parseDiagram(source), 'EQVulbTW3wnQUEHRVnnI-14') as DiagramCell).geometry!.sourcePoint!;
+    expect(start(builder.xml()).x - nvic(builder.xml()).x).toBe(start(xml).x - nvic(xml).x);
+    expect(start(builder.xml()).y - nvic(builder.xml()).y).toBe(start(xml).y - nvic(xml).y);
+  });
+});
@@ -0,0 +1,403 @@
+import { getCells, type DiagramCell, type DiagramGeometry } from "./model";
+import type { PatchBuilder, PatchOperation } from "./patch";
+import { getGridSize } from "./placement";
+import { createGeometryResolver, facingPorts, hasFixedPorts, type Bounds, type GeometryResolver } from "./render";
+import { isStyleFlagSet } from "./style";
+
+export type LayoutAlgorithm = 'layered' | 'grid' | 'compact' | 'declutter';
+
+export const LAYOUT_ALGORITHMS: Record<LayoutAlgorithm, { label: string; description: string }> = {
+  layered: { label: 'Layered', description: 'Rows that follow the direction of the connections' },
+  grid: { label: 'Grid', description: 'Evenly spaced rows and columns in reading order' },
+  compact: { label: 'Orthogonal compact', description: 'Keeps the arrangement, closes the gaps and squares off connections' },
+  declutter: { label: 'Remove overlaps', description: 'Keeps positions and only pushes overlapping blocks apart' },
+};
+
+type Point = { x: number; y: number };
+
+interface LayoutNode {
+  id: string;
+  bounds: Bounds;
+}
+
+interface Spacing {
+  gap: number;
+  margin: number;
+}
+
+// Cells draw.io will not move: locked, or with moving turned off.
+export const isPinned = (cell: DiagramCell): boolean =>
+  isStyleFlagSet(cell.style, 'locked') || cell.style.movable === '0' || isStyleFlagSet(cell.style, 'pinned');
+
+const boundsOf = (cell: DiagramCell): Bounds => {
+  const { x = 0, y = 0, width = 0, height = 0 } = cell.geometry ?? {};
+  return { x, y, width, height };
+};
+
+const overlapping = (a: Bounds, b: Bounds, margin: number): boolean =>
+  a.x < b.x + b.width + margin && b.x < a.x + a.width + margin && a.y < b.y + b.height + margin && b.y < a.y + a.height + margin;
+
+const topLeft = (nodes: LayoutNode[]): Point => ({
+  x: Math.min(...nodes.map((node) => node.bounds.x)),
+  y: Math.min(...nodes.map((node) => node.bounds.y)),
+});
+
+const readingOrder = (a: LayoutNode, b: LayoutNode) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x;
+
+// Rows and columns of equal slots; `maxWidth` caps a row, otherwise the grid is roughly square.
+const gridPositions = (nodes: LayoutNode[], { gap }: Spacing, maxWidth?: number): Map<string, Point> => {
+  const slot = {
+    width: Math.max(...nodes.map((node) => node.bounds.width)),
+    height: Math.max(...nodes.map((node) => node.bounds.height)),
+  };
+  const columns = maxWidth
+    ? Math.max(1, Math.floor((maxWidth + gap) / (slot.width + gap)))
+    : Math.ceil(Math.sqrt(nodes.length));
+  const positions = new Map<string, Point>();
+  [...nodes].sort(readingOrder).forEach((node, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    positions.set(node.id, {
+      x: column * (slot.width + gap) + (slot.width - node.bounds.width) / 2,
+      y: row * (slot.height + gap) + (slot.height - node.bounds.height) / 2,
+    });
+  });
+  return positions;
+};
+
+// Sugiyama-style: break cycles, rank by longest path, order each rank by the
+// average position of its neighbours, then stack the ranks top to bottom.
+// Blocks without connections go in a grid underneath.
+const layeredPositions = (nodes: LayoutNode[], links: Array<[string, string]>, spacing: Spacing): Map<string, Point> => {
+  const ordered = [...nodes].sort(readingOrder);
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const outgoing = new Map(nodes.map((node) => [node.id, [] as string[]]));
+  links.forEach(([source, target]) => outgoing.get(source)!.push(target));
+
+  // Depth-first from the top-left; edges back onto the current path are dropped.
+  const forward: Array<[string, string]> = [];
+  const state = new Map<string, 'active' | 'done'>();
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    outgoing.get(id)!.forEach((next) => {
+      if (state.get(next) === 'active') return;
+      forward.push([id, next]);
+      if (!state.has(next)) visit(next);
+    });
+    state.set(id, 'done');
+  };
+  ordered.forEach((node) => !state.has(node.id) && visit(node.id));
+
+  const linked = new Set(forward.flat());
+  const rank = new Map<string, number>();
+  const rankOf = (id: string): number => {
+    if (!rank.has(id)) {
+      rank.set(id, 0);
+      const predecessors = forward.filter(([, target]) => target === id).map(([source]) => source);
+      rank.set(id, predecessors.length === 0 ? 0 : Math.max(...predecessors.map(rankOf)) + 1);
+    }
+    return rank.get(id)!;
+  };
+
+  const layers: string[][] = [];
+  ordered.filter((node) => linked.has(node.id)).forEach((node) => {
+    const r = rankOf(node.id);
+    (layers[r] ??= []).push(node.id);
+  });
+
+  const indexIn = (layer: string[]) => new Map(layer.map((id, index) => [id, index]));
+  const sweep = (from: number, to: number, step: number) => {
+    for (let r = from; r !== to; r += step) {
+      const reference = indexIn(layers[r - step] ?? []);
+      const barycenter = (id: string) => {
+        const neighbours = forward
+          .filter(([source, target]) => source === id || target === id)
+          .map(([source, target]) => reference.get(source === id ? target : source))
+          .filter((index): index is number => index !== undefined);
+        return neighbours.length > 0 ? neighbours.reduce((sum, index) => sum + index, 0) / neighbours.length : undefined;
+      };
+      const current = indexIn(layers[r]);
+      layers[r] = [...layers[r]].sort((a, b) => (barycenter(a) ?? current.get(a)!) - (barycenter(b) ?? current.get(b)!));
+    }
+  };
+  for (let pass = 0; pass < 4 && layers.length > 1; pass++) {
+    sweep(1, layers.length, 1);
+    sweep(layers.length - 2, -1, -1);
+  }
+
+  const { gap } = spacing;
+  const layerGap = gap * 1.5;
+  const widthOf = (layer: string[]) => layer.reduce((sum, id) => sum + byId.get(id)!.bounds.width, 0) + gap * (layer.length - 1);
+  const widest = Math.max(0, ...layers.map(widthOf));
+  const positions = new Map<string, Point>();
+  let y = 0;
+  layers.forEach((layer) => {
+    const height = Math.max(...layer.map((id) => byId.get(id)!.bounds.height));
+    let x = (widest - widthOf(layer)) / 2;
+    layer.forEach((id) => {
+      const { width, height: nodeHeight } = byId.get(id)!.bounds;
+      positions.set(id, { x, y: y + (height - nodeHeight) / 2 });
+      x += width + gap;
+    });
+    y += height + layerGap;
+  });
+
+  const loose = nodes.filter((node) => !linked.has(node.id));
+  if (loose.length > 0) {
+    gridPositions(loose, spacing, widest || undefined).forEach((point, id) => positions.set(id, { x: point.x, y: point.y + y }));
+  }
+  return positions;
+};
+
+// Slides every block as far left, then as far up, as the blocks before it
+// allow, so the arrangement survives but the empty space does not.
+const compactPositions = (nodes: LayoutNode[], { gap }: Spacing): Map<string, Point> => {
+  const origin = topLeft(nodes);
+  const placed = new Map(nodes.map((node) => [node.id, { ...node.bounds }]));
+
+  const pass = (axis: 'x' | 'y') => {
+    const size = axis === 'x' ? 'width' : 'height';
+    const across = axis === 'x' ? 'y' : 'x';
+    const acrossSize = axis === 'x' ? 'height' : 'width';
+    const done: Bounds[] = [];
+    [...nodes].sort((a, b) => placed.get(a.id)![axis] - placed.get(b.id)![axis]).forEach((node) => {
+      const rect = placed.get(node.id)!;
+      const blockers = done.filter((other) => other[across] < rect[across] + rect[acrossSize] && rect[across] < other[across] + other[acrossSize]);
+      rect[axis] = Math.max(origin[axis], ...blockers.map((other) => other[axis] + other[size] + gap));
+      done.push(rect);
+    });
+  };
+  pass('x');
+  pass('y');
+  return new Map([...placed].map(([id, rect]) => [id, { x: rect.x - origin.x, y: rect.y - origin.y }]));
+};
+
+// Pushes overlapping blocks apart, `clearance` beyond touching, along
+// whichever axis needs the smaller move. Blocks that only sit close together
+// are left alone. Fixed blocks never move; two movable ones share the move.
+const separate = (movable: LayoutNode[], fixed: Bounds[], clearance: number): Map<string, Point> => {
+  const rects = movable.map((node) => ({ id: node.id, rect: { ...node.bounds } }));
+  const obstacles = [...rects.map(({ rect }) => ({ rect, fixed: false })), ...fixed.map((rect) => ({ rect, fixed: true }))];
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let moved = false;
+    for (let i = 0; i < obstacles.length; i++) {
+      for (let j = i + 1; j < obstacles.length; j++) {
+        const a = obstacles[i];
+        const b = obstacles[j];
+        if ((a.fixed && b.fixed) || !overlapping(a.rect, b.rect, 0)) continue;
+
+        const dx = Math.min(a.rect.x + a.rect.width, b.rect.x + b.rect.width) - Math.max(a.rect.x, b.rect.x) + clearance;
+        const dy = Math.min(a.rect.y + a.rect.height, b.rect.y + b.rect.height) - Math.max(a.rect.y, b.rect.y) + clearance;
+        const axis = dx <= dy ? 'x' : 'y';
+        const size = axis === 'x' ? 'width' : 'height';
+        const distance = axis === 'x' ? dx : dy;
+        // b goes the way it already leans; ties go right or down.
+        const sign = b.rect[axis] + b.rect[size] / 2 >= a.rect[axis] + a.rect[size] / 2 ? 1 : -1;
+        const share = a.fixed || b.fixed ? distance : distance / 2;
+        if (!a.fixed) a.rect[axis] -= sign * share;
+        if (!b.fixed) b.rect[axis] += sign * share;
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+  return new Map(rects.map(({ id, rect }) => [id, { x: rect.x, y: rect.y }]));
+};
+
+// The ancestor of `id` (or `id` itself) that is one of `members`.
+const memberOf = (byId: Map<string, DiagramCell>, members: Set<string>, id: string | undefined): string | undefined => {
+  let current = id ? byId.get(id) : undefined;
+  while (current && !members.has(current.id)) current = current.parent ? byId.get(current.parent) : undefined;
+  return current?.id;
+};
+
+const canLayOut = (byId: Map<string, DiagramCell>, cell: DiagramCell): boolean =>
+  cell.vertex && !!cell.geometry && !cell.geometry.relative && !byId.get(cell.parent ?? '')?.edge;
+
+const depth = (byId: Map<string, DiagramCell>, id: string): number => {
+  let level = 0;
+  for (let current = byId.get(id); current?.parent; current = byId.get(current.parent)) level++;
+  return level;
+};
+
+// Which cells to arrange, grouped by parent. With no scope that is every
+// level of the page, innermost containers first; a single container in scope
+// means its contents.
+const layoutGroups = (cells: DiagramCell[], scope?: string[]): string[][] => {
+  const byId = new Map(cells.map((cell) => [cell.id, cell]));
+  const hasChildren = (id: string) => cells.some((cell) => cell.parent === id && canLayOut(byId, cell));
+
+  let members: DiagramCell[];
+  if (!scope) {
+    members = cells.filter((cell) => canLayOut(byId, cell));
+  } else if (scope.length === 1 && hasChildren(scope[0])) {
+    members = cells.filter((cell) => cell.parent === scope[0] && canLayOut(byId, cell));
+  } else {
+    members = scope.map((id) => byId.get(id)).filter((cell): cell is DiagramCell => !!cell && canLayOut(byId, cell));
+  }
+
+  return members
+    .map((cell) => cell.parent ?? '')
+    .filter((parent, index, all) => all.indexOf(parent) === index)
+    .sort((a, b) => depth(byId, b) - depth(byId, a))
+    .map((parent) => members.filter((cell) => (cell.parent ?? '') === parent).map((cell) => cell.id));
+};
+
+// How far a loose connection end may sit outside a block and still count as
+// drawn on it.
+const TOUCH_DISTANCE = 10;
+
+// Where a point on a block ends up once the block has moved or resized.
+type Transform = { map: (point: Point) => Point; shift?: Point; moved: boolean };
+
+const transformOf = (from: Bounds, to: Bounds): Transform => {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const resized = to.width !== from.width || to.height !== from.height;
+  const shift = { x: to.x - from.x, y: to.y - from.y };
+  return {
+    map: (point) => ({ x: to.x + (point.x - from.x) * scaleX, y: to.y + (point.y - from.y) * scaleY }),
+    shift: resized ? undefined : shift,
+    moved: resized || shift.x !== 0 || shift.y !== 0,
+  };
+};
+
+const samePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+// Rewrites the edges whose ends moved since `before` was taken. Attached ends
+// get fixed ports re-picked; loose ends follow the block they were drawn on,
+// and an end drawn on nothing follows the other one. Waypoints move too when
+// both ends moved together, and are dropped otherwise.
+export const rerouteEdges = (builder: PatchBuilder, before: GeometryResolver, orthogonal: boolean) => {
+  const cells = getCells(builder.diagram);
+  const after = createGeometryResolver(cells);
+  const blocks = [...before.byId.values()].filter((cell) => cell.vertex && cell.geometry && after.byId.has(cell.id));
+
+  const transformFor = (id: string | undefined): Transform | undefined => {
+    const cell = id ? before.byId.get(id) : undefined;
+    return cell?.geometry && after.byId.has(cell.id) ? transformOf(before.boundsOf(cell), after.boundsOf(after.byId.get(cell.id)!)) : undefined;
+  };
+  // The innermost block the point was drawn on.
+  const touching = (point: Point): DiagramCell | undefined => {
+    const near = (bounds: Bounds) =>
+      point.x >= bounds.x - TOUCH_DISTANCE && point.x <= bounds.x + bounds.width + TOUCH_DISTANCE &&
+      point.y >= bounds.y - TOUCH_DISTANCE && point.y <= bounds.y + bounds.height + TOUCH_DISTANCE;
+    const area = (cell: DiagramCell) => before.boundsOf(cell).width * before.boundsOf(cell).height;
+    return blocks.filter((cell) => near(before.boundsOf(cell))).sort((a, b) => area(a) - area(b))[0];
+  };
+
+  const operations: PatchOperation[] = [];
+  cells.filter((cell) => cell.edge && before.byId.has(cell.id)).forEach((edge) => {
+    const old = before.byId.get(edge.id)!;
+    const geometry = old.geometry;
+    const sourcePoint = geometry?.sourcePoint && before.toAbsolute(old, geometry.sourcePoint);
+    const targetPoint = geometry?.targetPoint && before.toAbsolute(old, geometry.targetPoint);
+    const endOf = (terminal: string | undefined, point: Point | undefined) =>
+      terminal ? transformFor(terminal) : point ? transformFor(touching(point)?.id) : undefined;
+    const sourceEnd = endOf(edge.source, sourcePoint);
+    const targetEnd = endOf(edge.target, targetPoint);
+    if (!sourceEnd?.moved && !targetEnd?.moved) return;
+    const [source, target] = [sourceEnd ?? targetEnd!, targetEnd ?? sourceEnd!];
+
+    const changes: Partial<DiagramGeometry> = {};
+    const origin = after.toAbsolute(edge, { x: 0, y: 0 });
+    const toEdge = (point: Point) => ({ x: point.x - origin.x, y: point.y - origin.y });
+    const follow = (key: 'sourcePoint' | 'targetPoint', point: Point | undefined, transform: Transform) => {
+      if (!point) return;
+      const moved = toEdge(transform.map(point));
+      if (!samePoint(moved, edge.geometry?.[key] ?? point)) changes[key] = moved;
+    };
+    follow('sourcePoint', sourcePoint, source);
+    follow('targetPoint', targetPoint, target);
+
+    const points = (geometry?.points ?? []).map((point) => before.toAbsolute(old, point));
+    if (points.length > 0) {
+      const shift = source.shift && target.shift && samePoint(source.shift, target.shift) ? source.shift : undefined;
+      changes.points = shift ? points.map((point) => toEdge({ x: point.x + shift.x, y: point.y + shift.y })) : [];
+    }
+    if (Object.keys(changes).length > 0) operations.push({ op: 'setGeometry', id: edge.id, geometry: changes });
+
+    const style: Record<string, string | null> = {};
+    const sourceCell = after.byId.get(edge.source ?? '');
+    const targetCell = after.byId.get(edge.target ?? '');
+    if (hasFixedPorts(edge.style) && sourceCell && targetCell) {
+      const { exit, entry } = facingPorts(after.boundsOf(sourceCell), after.boundsOf(targetCell));
+      Object.assign(style, { exitX: String(exit.x), exitY: String(exit.y), entryX: String(entry.x), entryY: String(entry.y) });
+    }
+    if (orthogonal && edge.style.edgeStyle !== 'orthogonalEdgeStyle') style.edgeStyle = 'orthogonalEdgeStyle';
+    const changed = Object.entries(style).filter(([key, value]) => edge.style[key] !== value);
+    if (changed.length > 0) operations.push({ op: 'setStyle', id: edge.id, changes: Object.fromEntries(changed) });
+  });
+  operations.forEach((operation) => builder.add(operation));
+};
+
+// Rewrites positions (and the edges attached to what moved) with `algorithm`,
+// one parent at a time so nothing leaves its container; containers grow to
+// fit what was laid out in them. Returns the ids of the cells that moved.
+export const layoutCells = (builder: PatchBuilder, algorithm: LayoutAlgorithm, scope?: string[]): string[] => {
+  const grid = getGridSize(builder.diagram);
+  const spacing: Spacing = { gap: grid * 4, margin: grid * 2 };
+  const snap = (value: number) => Math.round(value / grid) * grid;
+  const before = createGeometryResolver(getCells(builder.diagram));
+  const moved = new Set<string>();
+
+  layoutGroups(getCells(builder.diagram), scope).forEach((ids) => {
+    const cells = getCells(builder.diagram);
+    const byId = new Map(cells.map((cell) => [cell.id, cell]));
+    const members = ids.map((id) => byId.get(id)!).filter((cell) => !!cell);
+    const nodes = members.filter((cell) => !isPinned(cell)).map((cell) => ({ id: cell.id, bounds: boundsOf(cell) }));
+    const fixed = members.filter(isPinned).map(boundsOf);
+    if (nodes.length === 0) return;
+
+    let positions: Map<string, Point>;
+    if (algorithm === 'declutter') {
+      positions = separate(nodes, fixed, grid);
+    } else {
+      const memberIds = new Set(nodes.map((node) => node.id));
+      const links = cells
+        .filter((cell) => cell.edge)
+        .map((edge): [string | undefined, string | undefined] => [memberOf(byId, memberIds, edge.source), memberOf(byId, memberIds, edge.target)])
+        .filter((link): link is [string, string] => !!link[0] && !!link[1] && link[0] !== link[1]);
+      const arranged = algorithm === 'layered'
+        ? layeredPositions(nodes, links, spacing)
+        : algorithm === 'grid'
+          ? gridPositions(nodes, spacing)
+          : compactPositions(nodes, spacing);
+      // Keep the group where it was, then step off pinned blocks.
+      const origin = topLeft(nodes);
+      const shifted = nodes.map((node) => {
+        const point = arranged.get(node.id)!;
+        return { id: node.id, bounds: { ...node.bounds, x: origin.x + point.x, y: origin.y + point.y } };
+      });
+      positions = fixed.length > 0 ? separate(shifted, fixed, grid) : new Map(shifted.map((node) => [node.id, { x: node.bounds.x, y: node.bounds.y }]));
+    }
+
+    // Nothing may be pushed out past a container's top or left edge.
+    const parent = byId.get(members[0].parent ?? '');
+    const isContainer = !!parent?.vertex && !!parent.geometry && !parent.geometry.relative;
+    const points = [...positions.values()];
+    const shift = isContainer
+      ? { x: Math.max(0, -Math.min(...points.map((point) => point.x))), y: Math.max(0, -Math.min(...points.map((point) => point.y))) }
+      : { x: 0, y: 0 };
+
+    nodes.forEach((node) => {
+      const target = positions.get(node.id)!;
+      const x = snap(target.x + shift.x);
+      const y = snap(target.y + shift.y);
+      if (x === node.bounds.x && y === node.bounds.y) return;
+      builder.add({ op: 'setGeometry', id: node.id, geometry: { x, y } });
+      moved.add(node.id);
+    });
+
+    if (isContainer) {
+      const children = getCells(builder.diagram).filter((cell) => cell.parent === parent.id && canLayOut(byId, cell)).map(boundsOf);
+      const width = Math.max(parent.geometry.width, snap(Math.max(...children.map((rect) => rect.x + rect.width)) + spacing.margin));
+      const height = Math.max(parent.geometry.height, snap(Math.max(...children.map((rect) => rect.y + rect.height)) + spacing.margin));
+      if (width !== parent.geometry.width || height !== parent.geometry.height) builder.add({ op: 'setGeometry', id: parent.id, geometry: { width, height } });
+    }
+  });
+
+  if (moved.size > 0) rerouteEdges(builder, before, algorithm === 'compact');
+  return [...moved];
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseDiagram } from "./model";
+import { AmbiguousComponentError, rankComponents, resolveComponentName } from "./matching";
+
+const diagram = parseDiagram(`<mxGraphModel><root>
+  <mxCell id="0" />
+  <mxCell id="1" parent="0" />
+  <mxCell id="nvic" value="NVIC" vertex="1" parent="1"><mxGeometry width="40" height="40" as="geometry" /></mxCell>
+  <mxCell id="unit" value="Unit" vertex="1" parent="1"><mxGeometry width="40" height="40" as="geometry" /></mxCell>
+  <mxCell id="fpu" value="Floating Point Unit" vertex="1" parent="1"><mxGeometry width="40" height="40" as="geometry" /></mxCell>
+  <mxCell id="dbg1" value="Debug &lt;b&gt;Port&lt;/b&gt;" style="html=1;" vertex="1" parent="1"><mxGeometry width="40" height="40" as="geometry" /></mxCell>
+  <mxCell id="dbg2" value="Debug Trace" vertex="1" parent="1"><mxGeometry width="40" height="40" as="geometry" /></mxCell>
+</root></mxGraphModel>`);
+
+const ids = (name: string, many = false) => {
+  const resolution = resolveComponentName(diagram, name, many);
+  return resolution.status === 'missing' ? resolution.status : { status: resolution.status, ids: resolution.candidates.map((c) => c.id) };
+};
+
+describe('resolveComponentName', () => {
+  it('prefers a whole-label match over blocks that contain the name', () => {
+    expect(ids('unit')).toEqual({ status: 'found', ids: ['unit'] });
+    expect(ids('floating point')).toEqual({ status: 'found', ids: ['fpu'] });
+  });
+
+  it('matches labels written as HTML', () => {
+    expect(ids('debug port')).toEqual({ status: 'found', ids: ['dbg1'] });
+  });
+
+  it('asks when several blocks match equally well, unless all of them are wanted', () => {
+    expect(ids('debug')).toEqual({ status: 'ambiguous', ids: ['dbg1', 'dbg2'] });
+    expect(ids('debug', true)).toEqual({ status: 'found', ids: ['dbg1', 'dbg2'] });
+  });
+
+  it('offers near misses but never uses them without asking', () => {
+    expect(ids('NVCI')).toEqual({ status: 'ambiguous', ids: ['nvic'] });
+    expect(ids('NVCI', true)).toBe('missing');
+    expect(ids('GPU')).toBe('missing');
+  });
+});
+
+describe('rankComponents', () => {
+  it('ranks better kinds of match first', () => {
+    expect(rankComponents(diagram, 'unit').map((candidate) => [candidate.id, candidate.kind])).toEqual([
+      ['unit', 'exact'],
+      ['fpu', 'words'],
+    ]);
+  });
+});
+
+describe('AmbiguousComponentError', () => {
+  it('names the candidates', () => {
+    const candidates = rankComponents(diagram, 'debug');
+    expect(new AmbiguousComponentError({ name: 'debug', candidates }).message).toBe('"debug" could mean Debug Port or Debug Trace. Which one?');
+    expect(new AmbiguousComponentError({ name: 'NVCI', candidates: rankComponents(diagram, 'NVCI') }).message).toBe('There is no "NVCI". Did you mean NVIC?');
+  });
+});
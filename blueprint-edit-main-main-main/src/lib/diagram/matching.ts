@@ -0,0 +1,94 @@
+import { getCellDisplayName, getCellSearchKey, toSearchKey } from "./labels";
+import { getVertices, type DiagramDocument } from "./model";
+
+// Best first: the whole label, whole words of it, part of a word, a near miss.
+export type MatchKind = 'exact' | 'words' | 'partial' | 'similar';
+
+export interface ComponentCandidate {
+  id: string;
+  name: string;
+  kind: MatchKind;
+  // 0-1; higher is a better match.
+  score: number;
+}
+
+export interface Ambiguity {
+  // As the user wrote it.
+  name: string;
+  // Ranked, best first.
+  candidates: ComponentCandidate[];
+}
+
+export class AmbiguousComponentError extends Error {
+  constructor(public readonly ambiguity: Ambiguity) {
+    const names = ambiguity.candidates.map((candidate) => candidate.name);
+    super(names.length === 1
+      ? `There is no "${ambiguity.name}". Did you mean ${names[0]}?`
+      : `"${ambiguity.name}" could mean ${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}. Which one?`);
+    this.name = 'AmbiguousComponentError';
+  }
+}
+
+const SIMILARITY_THRESHOLD = 0.7;
+const MAX_CANDIDATES = 8;
+
+// Edit distance counting a swap of neighbouring letters as one edit, so
+// "NVCI" is as close to "NVIC" as "NVIX".
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const similarity = (a: string, b: string): number => 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+// How well `key` matches `label`, both search keys, or undefined for no match.
+const matchLabel = (key: string, label: string): { kind: MatchKind; score: number } | undefined => {
+  if (label === key) return { kind: 'exact', score: 1 };
+  const words = key.split(' ');
+  const labelWords = label.split(' ');
+  // The more of the label the name covers, the better.
+  if (` ${label} `.includes(` ${key} `)) return { kind: 'words', score: 0.8 + 0.15 * (words.length / labelWords.length) };
+  if (label.includes(key)) return { kind: 'partial', score: 0.6 + 0.15 * (key.length / label.length) };
+
+  // Typos: the whole label, or any run of as many words as the name has.
+  const runs = labelWords.slice(0, Math.max(1, labelWords.length - words.length + 1)).map((_, start) => labelWords.slice(start, start + words.length).join(' '));
+  const best = Math.max(similarity(key, label), ...runs.map((run) => similarity(key, run)));
+  return best >= SIMILARITY_THRESHOLD ? { kind: 'similar', score: 0.5 * best } : undefined;
+};
+
+// Every vertex the name could refer to, best match first.
+export const rankComponents = (diagram: DiagramDocument, name: string): ComponentCandidate[] => {
+  const key = toSearchKey(name);
+  if (!key) return [];
+  return getVertices(diagram)
+    .flatMap((cell) => {
+      const match = matchLabel(key, getCellSearchKey(cell));
+      return match ? [{ id: cell.id, name: getCellDisplayName(cell), ...match }] : [];
+    })
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+};
+
+export type NameResolution =
+  | { status: 'found'; candidates: ComponentCandidate[] }
+  | { status: 'ambiguous'; candidates: ComponentCandidate[] }
+  | { status: 'missing' };
+
+// Only the best kind of match counts, so "Unit" means a block called Unit
+// rather than every "... Unit". Several matches of that kind are ambiguous
+// unless the caller wants all of them, e.g. for "the debug blocks". Near
+// misses are never used without asking.
+export const resolveComponentName = (diagram: DiagramDocument, name: string, many = false): NameResolution => {
+  const ranked = rankComponents(diagram, name);
+  if (ranked.length === 0) return { status: 'missing' };
+  if (ranked[0].kind === 'similar') return many ? { status: 'missing' } : { status: 'ambiguous', candidates: ranked.slice(0, MAX_CANDIDATES) };
+  const best = ranked.filter((candidate) => candidate.kind === ranked[0].kind);
+  if (best.length === 1 || many) return { status: 'found', candidates: best };
+  return { status: 'ambiguous', candidates: ranked.filter((candidate) => candidate.kind !== 'similar').slice(0, MAX_CANDIDATES) };
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { getCell, parseDiagram } from "./model";
+import { mergeDiagrams } from "./merge";
+import { getPageXml, listPages } from "./pages";
+import { validateDiagramXml } from "./validation";
+
+const block = (id: string, label: string, x: number, parent = '1', style = 'rounded=1;') => `
+    <mxCell id="${id}" value="${label}" style="${style}" vertex="1" parent="${parent}">
+      <mxGeometry x="${x}" y="0" width="40" height="40" as="geometry" />
+    </mxCell>`;
+const link = (id: string, source: string, target: string) => `
+    <mxCell id="${id}" edge="1" source="${source}" target="${target}" parent="1">
+      <mxGeometry relative="1" as="geometry" />
+    </mxCell>`;
+const page = (...cells: string[]) => `<mxGraphModel>
+  <root>
+    <mxCell id="0" />
+    <mxCell id="1" parent="0" />${cells.join('')}
+  </root>
+</mxGraphModel>`;
+const file = (...pages: [string, string][]) =>
+  `<mxfile>${pages.map(([id, xml]) => `<diagram name="${id.toUpperCase()}" id="${id}">${xml}</diagram>`).join('')}</mxfile>`;
+
+const cell = (xml: string, id: string) => getCell(parseDiagram(xml), id);
+
+const base = page(block('cpu', 'CPU', 0), block('gpu', 'GPU', 100), link('bus', 'cpu', 'gpu'));
+
+describe('mergeDiagrams', () => {
+  it('takes changes from both sides when they do not overlap', () => {
+    const ours = base.replace('value="CPU"', 'value="Core"');
+    const theirs = page(block('cpu', 'CPU', 0), block('gpu', 'GPU', 100, '1', 'rounded=1;fillColor=#ff0000;'), link('bus', 'cpu', 'gpu'), block('dma', 'DMA', 200));
+    const result = mergeDiagrams(base, ours, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(cell(result.xml, 'cpu')?.value).toBe('Core');
+    expect(cell(result.xml, 'gpu')?.style.fillColor).toBe('#ff0000');
+    expect(cell(result.xml, 'dma')?.value).toBe('DMA');
+    expect(result.merged).toContain('Added DMA');
+  });
+
+  it('merges different style keys of the same cell', () => {
+    const ours = base.replace('style="rounded=1;" vertex="1" parent="1">\n      <mxGeometry x="0"', 'style="rounded=1;fillColor=#00ff00;" vertex="1" parent="1">\n      <mxGeometry x="0"');
+    const theirs = base.replace('style="rounded=1;" vertex="1" parent="1">\n      <mxGeometry x="0"', 'style="rounded=0;" vertex="1" parent="1">\n      <mxGeometry x="0"');
+    const result = mergeDiagrams(base, ours, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(cell(result.xml, 'cpu')?.style).toMatchObject({ rounded: '0', fillColor: '#00ff00' });
+  });
+
+  it('raises a conflict for the same field changed differently and follows the resolution', () => {
+    const ours = base.replace('value="CPU"', 'value="Core A"');
+    const theirs = base.replace('value="CPU"', 'value="Core B"');
+    const result = mergeDiagrams(base, ours, theirs);
+    expect(result.conflicts).toMatchObject([{ key: 'page-1/cpu/label', aspect: 'label', ours: 'Core A', theirs: 'Core B', resolution: 'ours' }]);
+    expect(cell(result.xml, 'cpu')?.value).toBe('Core A');
+    expect(cell(mergeDiagrams(base, ours, theirs, { 'page-1/cpu/label': 'theirs' }).xml, 'cpu')?.value).toBe('Core B');
+  });
+
+  it('deletes cells the other side left alone and conflicts on ones it edited', () => {
+    const deleted = page(block('cpu', 'CPU', 0));
+    const removed = mergeDiagrams(base, base, deleted);
+    expect(removed.conflicts).toEqual([]);
+    expect(cell(removed.xml, 'gpu')).toBeUndefined();
+    expect(cell(removed.xml, 'bus')).toBeUndefined();
+
+    const edited = base.replace('value="GPU"', 'value="Graphics"');
+    const result = mergeDiagrams(base, edited, deleted);
+    expect(result.conflicts.map((conflict) => conflict.key)).toEqual(['page-1/gpu/cell']);
+    expect(cell(result.xml, 'gpu')?.value).toBe('Graphics');
+  });
+
+  it('conflicts when their delete would take what ours added inside the cell', () => {
+    const box = page(block('box', 'Cluster', 0, '1', 'container=1;'));
+    const ours = page(block('box', 'Cluster', 0, '1', 'container=1;'), block('core', 'Core', 5, 'box'));
+    const result = mergeDiagrams(box, ours, page());
+    expect(result.conflicts).toMatchObject([{ key: 'page-1/box/cell', ours: 'Cluster, with Core added' }]);
+    expect(cell(result.xml, 'core')).toBeDefined();
+  });
+
+  it('restores the containers a cell taken from theirs needs', () => {
+    const cluster = page(block('box', 'Cluster', 0, '1', 'container=1;'), block('core', 'Core', 5, 'box'), block('bus', 'Bus', 200));
+    const ours = page(block('bus', 'Bus', 200));
+    const theirs = page(
+      block('box', 'Cluster', 0, '1', 'container=1;'),
+      block('core', 'Core 2', 5, 'box'),
+      block('cache', 'Cache', 9, 'box'),
+      block('bus', 'Bus', 200),
+    );
+
+    const added = mergeDiagrams(cluster, ours, theirs);
+    expect(added.conflicts.map((conflict) => conflict.key)).toEqual(['page-1/core/cell']);
+    expect(cell(added.xml, 'cache')?.parent).toBe('box');
+    expect(cell(added.xml, 'box')).toBeDefined();
+    expect(validateDiagramXml(added.xml)).toEqual([]);
+
+    const kept = mergeDiagrams(cluster, ours, theirs, { 'page-1/core/cell': 'theirs' });
+    expect(cell(kept.xml, 'core')).toMatchObject({ value: 'Core 2', parent: 'box' });
+    expect(validateDiagramXml(kept.xml)).toEqual([]);
+  });
+});
+
+describe('mergeDiagrams with pages', () => {
+  const edited = page(block('cpu', 'CPU 2', 0));
+  const files = {
+    base: file(['p1', base], ['p2', base]),
+    deleted: file(['p1', base]),
+    edited: file(['p1', base], ['p2', edited]),
+  };
+
+  it('removes a page the other side left alone', () => {
+    const result = mergeDiagrams(files.base, files.deleted, files.base);
+    expect(result.conflicts).toEqual([]);
+    expect(listPages(result.xml).map((info) => info.id)).toEqual(['p1']);
+  });
+
+  it('conflicts when ours deleted a page theirs edited', () => {
+    const result = mergeDiagrams(files.base, files.deleted, files.edited);
+    expect(result.conflicts).toMatchObject([{ key: 'p2/page', aspect: 'page', ours: '(deleted)', theirs: 'P2 (edited)' }]);
+    expect(listPages(result.xml).map((info) => info.id)).toEqual(['p1']);
+
+    const restored = mergeDiagrams(files.base, files.deleted, files.edited, { 'p2/page': 'theirs' });
+    expect(listPages(restored.xml).map((info) => info.id)).toEqual(['p1', 'p2']);
+    expect(cell(getPageXml(restored.xml, 'p2'), 'cpu')?.value).toBe('CPU 2');
+  });
+
+  it('conflicts when theirs deleted a page ours edited', () => {
+    const result = mergeDiagrams(files.base, files.edited, files.deleted);
+    expect(result.conflicts).toMatchObject([{ key: 'p2/page', ours: 'P2 (edited)', theirs: '(deleted)' }]);
+    expect(listPages(result.xml).map((info) => info.id)).toEqual(['p1', 'p2']);
+    expect(listPages(mergeDiagrams(files.base, files.edited, files.deleted, { 'p2/page': 'theirs' }).xml).map((info) => info.id)).toEqual(['p1']);
+  });
+
+  it("adds theirs' new pages under their own id", () => {
+    const result = mergeDiagrams(files.deleted, files.deleted, file(['p1', base], ['p3', edited]));
+    expect(listPages(result.xml).map((info) => info.id)).toEqual(['p1', 'p3']);
+    expect(result.merged).toContain('Added page P3');
+  });
+});
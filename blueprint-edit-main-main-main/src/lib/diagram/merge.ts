@@ -0,0 +1,341 @@
+import {
+  getCell,
+  getCells,
+  getDescendants,
+  getEdges,
+  importCell,
+  moveCellBefore,
+  parseDiagram,
+  removeCells,
+  serializeDiagram,
+  setCellGeometry,
+  setCellParent,
+  setCellValue,
+  setEdgeTerminal,
+  updateCellStyle,
+  type DiagramCell,
+  type DiagramDocument,
+  type DiagramGeometry,
+} from "./model";
+import { inflateDiagramXml } from "./compression";
+import { getCellDisplayName, labelDisplayName } from "./labels";
+import { addPage, deletePage, getPageXml, listPages, setPageXml, type DiagramPageInfo } from "./pages";
+import { isStyleFlagSet } from "./style";
+
+// `cell` conflicts are one side deleting (or adding) a cell the other side
+// changed, and `page` ones the same for a whole page; the rest are edits to
+// the same part of a cell.
+export type MergeAspect = 'page' | 'cell' | 'label' | 'style' | 'geometry' | 'parent' | 'terminals';
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  // Stable between runs, so resolutions can be keyed on it.
+  key: string;
+  pageId: string;
+  pageName: string;
+  // Empty for page conflicts.
+  cellId: string;
+  name: string;
+  aspect: MergeAspect;
+  // Style keys or geometry fields both sides changed differently.
+  fields: string[];
+  base: string;
+  ours: string;
+  theirs: string;
+  resolution: MergeSide;
+}
+
+export type MergeResolutions = Record<string, MergeSide>;
+
+export interface MergeResult {
+  xml: string;
+  conflicts: MergeConflict[];
+  // Changes taken from theirs without a conflict, one line each.
+  merged: string[];
+}
+
+type Fields = Record<string, unknown>;
+
+interface PageContext {
+  pageId: string;
+  pageName: string;
+  resolutions: MergeResolutions;
+  conflicts: MergeConflict[];
+  merged: string[];
+}
+
+const same = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const GEOMETRY_FIELDS: (keyof DiagramGeometry)[] = ['x', 'y', 'width', 'height', 'relative', 'points', 'sourcePoint', 'targetPoint', 'offset'];
+
+type CellAspect = Exclude<MergeAspect, 'page' | 'cell'>;
+
+const ASPECTS: CellAspect[] = ['label', 'style', 'geometry', 'parent', 'terminals'];
+
+const fieldsOf = (cell: DiagramCell, aspect: CellAspect): Fields => {
+  switch (aspect) {
+    case 'label':
+      return { label: cell.value };
+    case 'style':
+      return { ...cell.style };
+    case 'geometry':
+      return cell.geometry ? Object.fromEntries(GEOMETRY_FIELDS.map((field) => [field, cell.geometry![field]])) : {};
+    case 'parent':
+      return { parent: cell.parent };
+    case 'terminals':
+      return { source: cell.source, target: cell.target };
+  }
+};
+
+const signature = (cell: DiagramCell) => ASPECTS.map((aspect) => {
+  const fields = fieldsOf(cell, aspect);
+  return Object.keys(fields).sort().map((key) => [key, fields[key]]);
+});
+
+const isUnchanged = (base: DiagramCell, other: DiagramCell): boolean => same(signature(base), signature(other));
+
+// Takes whichever side changed each field; fields both sides changed
+// differently are conflicts and follow `side`.
+const mergeFields = (base: Fields, ours: Fields, theirs: Fields, side: MergeSide) => {
+  const values: Fields = { ...ours };
+  const taken: string[] = [];
+  const conflicts: string[] = [];
+  new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)]).forEach((key) => {
+    if (same(ours[key], theirs[key]) || same(theirs[key], base[key])) return;
+    if (same(ours[key], base[key])) {
+      values[key] = theirs[key];
+      taken.push(key);
+      return;
+    }
+    conflicts.push(key);
+    if (side === 'theirs') values[key] = theirs[key];
+  });
+  return { values, taken, conflicts };
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === '') return '(none)';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const describeFields = (cell: DiagramCell | undefined, aspect: Exclude<MergeAspect, 'page'>, fields: string[]): string => {
+  if (!cell) return '(deleted)';
+  if (aspect === 'cell') return getCellDisplayName(cell) || cell.id;
+  if (aspect === 'label') return labelDisplayName(cell.value, isStyleFlagSet(cell.style, 'html')) || '(none)';
+  const values = fieldsOf(cell, aspect);
+  return fields.map((field) => `${field}=${formatValue(values[field])}`).join('; ');
+};
+
+const writeFields = (diagram: DiagramDocument, id: string, aspect: CellAspect, ours: Fields, values: Fields) => {
+  const changed = Object.keys({ ...ours, ...values }).filter((key) => !same(ours[key], values[key]));
+  if (changed.length === 0) return;
+
+  switch (aspect) {
+    case 'label':
+      setCellValue(diagram, id, String(values.label ?? ''));
+      break;
+    case 'style':
+      updateCellStyle(diagram, id, Object.fromEntries(changed.map((key) => [key, (values[key] as string | undefined) ?? null])));
+      break;
+    case 'geometry':
+      setCellGeometry(diagram, id, Object.fromEntries(changed.map((key) => [key, values[key]])) as Partial<DiagramGeometry>);
+      break;
+    case 'parent':
+      if (values.parent) setCellParent(diagram, id, String(values.parent));
+      break;
+    case 'terminals':
+      (['source', 'target'] as const).forEach((end) => {
+        if (changed.includes(end)) setEdgeTerminal(diagram, id, end, values[end] as string | undefined);
+      });
+      break;
+  }
+};
+
+// Copies a cell from theirs, keeping it in front of the cell that follows it
+// there. Containers ours deleted come back too, so the cell has a parent;
+// returns those.
+const copyFromTheirs = (result: DiagramDocument, theirs: DiagramDocument, cell: DiagramCell): DiagramCell[] => {
+  if (getCell(result, cell.id)) return [];
+  const parent = cell.parent ? getCell(theirs, cell.parent) : undefined;
+  const restored = parent && !getCell(result, parent.id) ? [...copyFromTheirs(result, theirs, parent), parent] : [];
+  importCell(result, cell);
+  const order = getCells(theirs).map((candidate) => candidate.id);
+  const next = order.slice(order.indexOf(cell.id) + 1).find((id) => id !== cell.id && getCell(result, id));
+  if (next) moveCellBefore(result, cell.id, next);
+  return restored;
+};
+
+// Cells ours put inside `id` and connections ours attached to it, by name.
+const addedAround = (base: DiagramDocument, ours: DiagramDocument, id: string): string[] => {
+  const inside = new Set(getDescendants(base, id).map((cell) => cell.id));
+  const attached = (diagram: DiagramDocument, edgeId: string) => {
+    const edge = getCell(diagram, edgeId);
+    return !!edge && (edge.source === id || edge.target === id);
+  };
+  return [
+    ...getDescendants(ours, id).filter((cell) => !inside.has(cell.id)),
+    ...getEdges(ours).filter((edge) => attached(ours, edge.id) && !attached(base, edge.id) && !inside.has(edge.id)),
+  ]
+    .filter((cell, index, all) => all.findIndex((other) => other.id === cell.id) === index)
+    .map((cell) => getCellDisplayName(cell) || cell.id);
+};
+
+const mergePage = (baseXml: string, oursXml: string, theirsXml: string, context: PageContext): string => {
+  const base = parseDiagram(baseXml);
+  const ours = parseDiagram(oursXml);
+  const theirs = parseDiagram(theirsXml);
+  const result = parseDiagram(oursXml);
+  const doomed: string[] = [];
+  // Deleted along with the connections still attached to them in ours.
+  const doomedWithEdges: string[] = [];
+
+  const conflict = (
+    cell: DiagramCell,
+    aspect: Exclude<MergeAspect, 'page'>,
+    fields: string[],
+    sides: { base?: DiagramCell; ours?: DiagramCell; theirs?: DiagramCell },
+    // What else ours has in the cell, for a delete that would take it along.
+    additions: string[] = [],
+  ): MergeSide => {
+    const key = `${context.pageId}/${cell.id}/${aspect}`;
+    const resolution = context.resolutions[key] ?? 'ours';
+    context.conflicts.push({
+      key,
+      pageId: context.pageId,
+      pageName: context.pageName,
+      cellId: cell.id,
+      name: getCellDisplayName(cell) || cell.id,
+      aspect,
+      fields,
+      base: describeFields(sides.base, aspect, fields),
+      ours: describeFields(sides.ours, aspect, fields) + (additions.length > 0 ? `, with ${additions.join(', ')} added` : ''),
+      theirs: describeFields(sides.theirs, aspect, fields),
+      resolution,
+    });
+    return resolution;
+  };
+
+  const restore = (cell: DiagramCell) => {
+    copyFromTheirs(result, theirs, cell).forEach((container) => {
+      context.merged.push(`Restored ${getCellDisplayName(container) || container.id} to hold ${getCellDisplayName(cell) || cell.id}`);
+    });
+  };
+
+  const ids = [...getCells(ours), ...getCells(theirs), ...getCells(base)]
+    .map((cell) => cell.id)
+    .filter((id, index, all) => all.indexOf(id) === index);
+
+  ids.forEach((id) => {
+    const b = getCell(base, id);
+    const o = getCell(ours, id);
+    const t = getCell(theirs, id);
+    const name = getCellDisplayName((o ?? t ?? b)!) || id;
+
+    if (!b) {
+      if (!t || (o && isUnchanged(o, t))) return;
+      if (!o) {
+        restore(t);
+        context.merged.push(`Added ${name}`);
+        return;
+      }
+      // Both sides added a different cell under the same id.
+      if (conflict(o, 'cell', [], { ours: o, theirs: t }) === 'theirs') {
+        removeCells(result, [id], { includeEdges: false });
+        restore(t);
+      }
+      return;
+    }
+
+    if (!o && !t) return;
+    if (!o) {
+      if (!isUnchanged(b, t!) && conflict(t!, 'cell', [], { base: b, theirs: t }) === 'theirs') restore(t!);
+      return;
+    }
+    if (!t) {
+      // Deleting takes the cell's children and connections with it, so what
+      // ours put inside or attached to it counts as a change too.
+      const additions = addedAround(base, ours, id);
+      if (isUnchanged(b, o) && additions.length === 0) {
+        doomed.push(id);
+        context.merged.push(`Removed ${name}`);
+      } else if (conflict(o, 'cell', [], { base: b, ours: o }, additions) === 'theirs') {
+        doomedWithEdges.push(id);
+      }
+      return;
+    }
+
+    ASPECTS.forEach((aspect) => {
+      const key = `${context.pageId}/${id}/${aspect}`;
+      const fields = mergeFields(fieldsOf(b, aspect), fieldsOf(o, aspect), fieldsOf(t, aspect), context.resolutions[key] ?? 'ours');
+      if (fields.conflicts.length > 0) conflict(o, aspect, fields.conflicts, { base: b, ours: o, theirs: t });
+      if (fields.taken.length > 0) context.merged.push(`${name}: ${aspect} (${fields.taken.join(', ')})`);
+      writeFields(result, id, aspect, fieldsOf(o, aspect), fields.values);
+    });
+  });
+
+  if (doomed.length > 0) removeCells(result, doomed, { includeEdges: false });
+  if (doomedWithEdges.length > 0) removeCells(result, doomedWithEdges);
+  return serializeDiagram(result);
+};
+
+// Three-way merge of two edited copies of the same file, cell by cell and
+// page by page. Ours is the starting point, so its formatting and cell order
+// survive; conflicts default to ours until `resolutions` says otherwise.
+export const mergeDiagrams = (base: string, ours: string, theirs: string, resolutions: MergeResolutions = {}): MergeResult => {
+  const [baseXml, oursXml, theirsXml] = [base, ours, theirs].map((xml) => inflateDiagramXml(xml).xml);
+  const basePages = new Map(listPages(baseXml).map((page) => [page.id, page]));
+  const theirPages = new Map(listPages(theirsXml).map((page) => [page.id, page]));
+  const ourPages = listPages(oursXml);
+  const conflicts: MergeConflict[] = [];
+  const merged: string[] = [];
+  let xml = oursXml;
+
+  // One side deleted a page the other side edited.
+  const pageConflict = (page: DiagramPageInfo, deletedBy: MergeSide): MergeSide => {
+    const key = `${page.id}/page`;
+    const resolution = resolutions[key] ?? 'ours';
+    conflicts.push({
+      key,
+      pageId: page.id,
+      pageName: page.name,
+      cellId: '',
+      name: page.name,
+      aspect: 'page',
+      fields: [],
+      base: page.name,
+      ours: deletedBy === 'ours' ? '(deleted)' : `${page.name} (edited)`,
+      theirs: deletedBy === 'theirs' ? '(deleted)' : `${page.name} (edited)`,
+      resolution,
+    });
+    return resolution;
+  };
+
+  ourPages.forEach((page) => {
+    const pageXml = getPageXml(oursXml, page.id);
+    if (theirPages.has(page.id)) {
+      // A page both sides added independently merges against an empty base.
+      const pageBase = basePages.has(page.id) ? getPageXml(baseXml, page.id) : '<mxGraphModel><root></root></mxGraphModel>';
+      const context = { pageId: page.id, pageName: page.name, resolutions, conflicts, merged };
+      xml = setPageXml(xml, page.id, mergePage(pageBase, pageXml, getPageXml(theirsXml, page.id), context));
+    } else if (basePages.has(page.id) && ourPages.length > 1) {
+      if (getPageXml(baseXml, page.id) === pageXml) {
+        xml = deletePage(xml, page.id);
+        merged.push(`Removed page ${page.name}`);
+      } else if (pageConflict(page, 'theirs') === 'theirs') {
+        xml = deletePage(xml, page.id);
+      }
+    }
+  });
+
+  theirPages.forEach((page) => {
+    if (ourPages.some((candidate) => candidate.id === page.id)) return;
+    const pageXml = getPageXml(theirsXml, page.id);
+    if (basePages.has(page.id) && (getPageXml(baseXml, page.id) === pageXml || pageConflict(page, 'ours') === 'ours')) return;
+    // Under theirs' id, so a later merge with theirs still pairs the pages.
+    const added = addPage(xml, page.name, page.id);
+    xml = setPageXml(added.xml, added.pageId, pageXml);
+    if (!basePages.has(page.id)) merged.push(`Added page ${page.name}`);
+  });
+
+  return { xml, conflicts, merged };
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import sample from "@/assets/sample-architecture.xml?raw";
+import {
+  DiagramParseError,
+  createCellId,
+  getCell,
+  getCells,
+  getDescendants,
+  insertCell,
+  parseDiagram,
+  removeCells,
+  serializeDiagram,
+  setCellGeometry,
+  setCellValue,
+  updateCellStyle,
+} from "./model";
+import { getPageXml, listPages } from "./pages";
+
+const page = getPageXml(sample, listPages(sample)[0].id);
+
+const diagram = (cells: string) => `<mxGraphModel><root>
+  <mxCell id="0" />
+  <mxCell id="1" parent="0" />
+${cells}
+</root></mxGraphModel>`;
+
+const nested = diagram(`  <mxCell id="box" value="Box" vertex="1" parent="1">
+    <mxGeometry x="100" y="100" width="200" height="200" as="geometry" />
+  </mxCell>
+  <mxCell id="inner" value="Inner" vertex="1" parent="box">
+    <mxGeometry x="10" y="10" width="40" height="40" as="geometry" />
+  </mxCell>
+  <mxCell id="out" value="Out" vertex="1" parent="1">
+    <mxGeometry x="400" y="100" width="40" height="40" as="geometry" />
+  </mxCell>
+  <mxCell id="e" edge="1" source="inner" target="out" parent="1">
+    <mxGeometry relative="1" as="geometry" />
+  </mxCell>`);
+
+// Lines that differ between two serializations of the same document.
+const changedLines = (before: string, after: string) => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  return b.filter((line, index) => line !== a[index]);
+};
+
+describe('parseDiagram and serializeDiagram', () => {
+  it('returns an untouched document byte for byte', () => {
+    expect(serializeDiagram(parseDiagram(sample))).toBe(sample);
+    expect(serializeDiagram(parseDiagram(page))).toBe(page);
+  });
+
+  it('only rewrites the edited cell', () => {
+    const model = parseDiagram(page);
+    setCellValue(model, 'EQVulbTW3wnQUEHRVnnI-15', 'Interrupts');
+    const changed = changedLines(page, serializeDiagram(model));
+    expect(changed).toHaveLength(1);
+    expect(changed[0]).toContain('value="Interrupts"');
+  });
+
+  it('keeps entities and line breaks in labels through an edit', () => {
+    const xml = diagram('  <mxCell id="a" value="A &amp;amp; B&#xa;&lt;b&gt;x&lt;/b&gt;" vertex="1" parent="1" />');
+    const model = parseDiagram(xml);
+    expect(getCell(model, 'a')?.value).toBe('A &amp; B\n<b>x</b>');
+    updateCellStyle(model, 'a', { fillColor: '#ff0000' });
+    expect(serializeDiagram(model)).toContain('value="A &amp;amp; B&#xa;&lt;b&gt;x&lt;/b&gt;"');
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseDiagram('<mxGraphModel><root>')).toThrow(DiagramParseError);
+  });
+});
+
+describe('cells', () => {
+  it('reads geometry, terminals and parents', () => {
+    const model = parseDiagram(nested);
+    expect(getCell(model, 'inner')).toMatchObject({ parent: 'box', vertex: true, geometry: { x: 10, y: 10, width: 40, height: 40 } });
+    expect(getCell(model, 'e')).toMatchObject({ edge: true, source: 'inner', target: 'out' });
+    expect(getDescendants(model, 'box').map((cell) => cell.id)).toEqual(['inner']);
+  });
+
+  it('removes descendants and the edges attached to them', () => {
+    const model = parseDiagram(nested);
+    expect(removeCells(model, ['box']).sort()).toEqual(['box', 'e', 'inner']);
+    expect(getCells(model).map((cell) => cell.id)).toEqual(['0', '1', 'out']);
+  });
+
+  it('can leave attached edges in place', () => {
+    const model = parseDiagram(nested);
+    removeCells(model, ['out'], { includeEdges: false });
+    expect(getCell(model, 'e')).toBeDefined();
+  });
+
+  it('gives new cells ids in the style of the existing ones', () => {
+    const model = parseDiagram(page);
+    const id = createCellId(model);
+    expect(id).toMatch(/^EQVulbTW3wnQUEHRVnnI-\d+$/);
+    expect(getCell(model, id)).toBeUndefined();
+
+    const cell = insertCell(model, { value: 'DMA', geometry: { x: 10, y: 20, width: 80, height: 40 } });
+    expect(cell.id).toBe(id);
+    expect(getCell(parseDiagram(serializeDiagram(model)), id)).toMatchObject({ value: 'DMA', vertex: true, geometry: { x: 10, y: 20 } });
+  });
+
+  it('writes waypoints and loose ends of edges', () => {
+    const model = parseDiagram(nested);
+    setCellGeometry(model, 'e', { points: [{ x: 5, y: 6 }], sourcePoint: { x: 1, y: 2 } });
+    expect(getCell(parseDiagram(serializeDiagram(model)), 'e')?.geometry).toMatchObject({
+      relative: true,
+      points: [{ x: 5, y: 6 }],
+      sourcePoint: { x: 1, y: 2 },
+    });
+  });
+});
@@ -0,0 +1,533 @@
+import { mergeStyle, parseStyle, serializeStyle, type StyleMap } from "./style";
+
+export interface DiagramPoint {
+  x: number;
+  y: number;
+}
+
+export interface DiagramGeometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  relative: boolean;
+  sourcePoint?: DiagramPoint;
+  targetPoint?: DiagramPoint;
+  points: DiagramPoint[];
+  offset?: DiagramPoint;
+}
+
+export interface DiagramCell {
+  id: string;
+  value: string;
+  style: StyleMap;
+  rawStyle: string;
+  parent?: string;
+  source?: string;
+  target?: string;
+  vertex: boolean;
+  edge: boolean;
+  geometry?: DiagramGeometry;
+  element: Element;
+}
+
+interface SerializeFormat {
+  selfClosing: string;
+  newlineEntity: string;
+}
+
+export interface DiagramDocument {
+  doc: XMLDocument;
+  source: string;
+  prolog: string;
+  epilogue: string;
+  format: SerializeFormat;
+  dirty: boolean;
+}
+
+export interface NewCell {
+  id?: string;
+  value?: string;
+  style?: StyleMap;
+  parent?: string;
+  vertex?: boolean;
+  edge?: boolean;
+  source?: string;
+  target?: string;
+  geometry?: Partial<DiagramGeometry>;
+}
+
+export class DiagramParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiagramParseError';
+  }
+}
+
+const WRAPPER_TAGS = ['UserObject', 'object'];
+
+// ---------------------------------------------------------------------------
+// Parsing and serialization
+// ---------------------------------------------------------------------------
+
+export const parseDiagram = (xml: string): DiagramDocument => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new DiagramParseError(error.textContent?.trim() || 'Invalid XML');
+  }
+
+  // DOMParser drops the XML declaration and the whitespace around the root
+  // element, so keep the raw text on either side to write it back untouched.
+  const rootStart = xml.search(/<(?![?!])/);
+  const rootEnd = xml.lastIndexOf('>');
+
+  return {
+    doc,
+    source: xml,
+    prolog: rootStart > 0 ? xml.slice(0, rootStart) : '',
+    epilogue: rootEnd >= 0 ? xml.slice(rootEnd + 1) : '',
+    format: {
+      selfClosing: /"\/>/.test(xml) && !/" \/>/.test(xml) ? '/>' : ' />',
+      newlineEntity: xml.includes('&#10;') ? '&#10;' : '&#xa;',
+    },
+    dirty: false,
+  };
+};
+
+const escapeAttribute = (value: string, format: SerializeFormat): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, format.newlineEntity)
+    .replace(/\r/g, '&#xd;')
+    .replace(/\t/g, '&#x9;');
+
+const escapeText = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const serializeNode = (node: Node, format: SerializeFormat = { selfClosing: ' />', newlineEntity: '&#xa;' }): string => {
+  switch (node.nodeType) {
+    case Node.ELEMENT_NODE: {
+      const element = node as Element;
+      const attrs = Array.from(element.attributes)
+        .map((attr) => ` ${attr.name}="${escapeAttribute(attr.value, format)}"`)
+        .join('');
+      if (!element.hasChildNodes()) {
+        return `<${element.tagName}${attrs}${format.selfClosing}`;
+      }
+      const children = Array.from(element.childNodes).map((child) => serializeNode(child, format)).join('');
+      return `<${element.tagName}${attrs}>${children}</${element.tagName}>`;
+    }
+    case Node.TEXT_NODE:
+      return escapeText(node.nodeValue || '');
+    case Node.CDATA_SECTION_NODE:
+      return `<![CDATA[${node.nodeValue}]]>`;
+    case Node.COMMENT_NODE:
+      return `<!--${node.nodeValue}-->`;
+    case Node.PROCESSING_INSTRUCTION_NODE: {
+      const pi = node as ProcessingInstruction;
+      return `<?${pi.target} ${pi.data}?>`;
+    }
+    default:
+      return '';
+  }
+};
+
+// Unmodified documents are returned byte for byte; edited ones are written in
+// the formatting conventions detected in the source.
+export const serializeDiagram = (diagram: DiagramDocument): string => {
+  if (!diagram.dirty) return diagram.source;
+  return diagram.prolog + serializeNode(diagram.doc.documentElement, diagram.format) + diagram.epilogue;
+};
+
+export const markDirty = (diagram: DiagramDocument) => {
+  diagram.dirty = true;
+};
+
+// ---------------------------------------------------------------------------
+// Reading cells
+// ---------------------------------------------------------------------------
+
+export const getGraphModel = (diagram: DiagramDocument): Element | null =>
+  diagram.doc.getElementsByTagName('mxGraphModel')[0] || null;
+
+export const getRootElement = (diagram: DiagramDocument): Element | null => {
+  const model = getGraphModel(diagram);
+  if (!model) return null;
+  return Array.from(model.children).find((child) => child.tagName === 'root') || null;
+};
+
+// The element that carries the id and label: a UserObject/object wrapper if present.
+const getHolder = (cellElement: Element): Element => {
+  const parent = cellElement.parentElement;
+  return parent && WRAPPER_TAGS.includes(parent.tagName) ? parent : cellElement;
+};
+
+const readNumber = (element: Element, name: string, fallback = 0): number => {
+  const parsed = parseFloat(element.getAttribute(name) || '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const readPoint = (element: Element): DiagramPoint => ({
+  x: readNumber(element, 'x'),
+  y: readNumber(element, 'y'),
+});
+
+const getGeometryElement = (cellElement: Element): Element | null =>
+  Array.from(cellElement.children).find((child) => child.tagName === 'mxGeometry') || null;
+
+const readGeometry = (geometryElement: Element): DiagramGeometry => {
+  const geometry: DiagramGeometry = {
+    x: readNumber(geometryElement, 'x'),
+    y: readNumber(geometryElement, 'y'),
+    width: readNumber(geometryElement, 'width'),
+    height: readNumber(geometryElement, 'height'),
+    relative: geometryElement.getAttribute('relative') === '1',
+    points: [],
+  };
+
+  Array.from(geometryElement.children).forEach((child) => {
+    const as = child.getAttribute('as');
+    if (child.tagName === 'mxPoint' && as === 'sourcePoint') geometry.sourcePoint = readPoint(child);
+    if (child.tagName === 'mxPoint' && as === 'targetPoint') geometry.targetPoint = readPoint(child);
+    if (child.tagName === 'mxPoint' && as === 'offset') geometry.offset = readPoint(child);
+    if (child.tagName === 'Array' && as === 'points') {
+      geometry.points = Array.from(child.children)
+        .filter((point) => point.tagName === 'mxPoint')
+        .map(readPoint);
+    }
+  });
+
+  return geometry;
+};
+
+export const readCell = (cellElement: Element): DiagramCell => {
+  const holder = getHolder(cellElement);
+  const rawStyle = cellElement.getAttribute('style') || '';
+  const geometryElement = getGeometryElement(cellElement);
+  const value = holder === cellElement
+    ? cellElement.getAttribute('value') || ''
+    : holder.getAttribute('label') || '';
+
+  return {
+    id: holder.getAttribute('id') || '',
+    value,
+    style: parseStyle(rawStyle),
+    rawStyle,
+    parent: cellElement.getAttribute('parent') || undefined,
+    source: cellElement.getAttribute('source') || undefined,
+    target: cellElement.getAttribute('target') || undefined,
+    vertex: cellElement.getAttribute('vertex') === '1',
+    edge: cellElement.getAttribute('edge') === '1',
+    geometry: geometryElement ? readGeometry(geometryElement) : undefined,
+    element: cellElement,
+  };
+};
+
+export const getCells = (diagram: DiagramDocument): DiagramCell[] => {
+  const root = getRootElement(diagram);
+  if (!root) return [];
+  return Array.from(root.getElementsByTagName('mxCell')).map(readCell);
+};
+
+export const getCell = (diagram: DiagramDocument, id: string): DiagramCell | undefined =>
+  getCells(diagram).find((cell) => cell.id === id);
+
+export const getVertices = (diagram: DiagramDocument): DiagramCell[] =>
+  getCells(diagram).filter((cell) => cell.vertex);
+
+export const getEdges = (diagram: DiagramDocument): DiagramCell[] =>
+  getCells(diagram).filter((cell) => cell.edge);
+
+export const getChildren = (diagram: DiagramDocument, parentId: string): DiagramCell[] =>
+  getCells(diagram).filter((cell) => cell.parent === parentId);
+
+export const getDescendants = (diagram: DiagramDocument, id: string): DiagramCell[] => {
+  const cells = getCells(diagram);
+  const result: DiagramCell[] = [];
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    cells
+      .filter((cell) => cell.parent === current)
+      .forEach((child) => {
+        result.push(child);
+        queue.push(child.id);
+      });
+  }
+  return result;
+};
+
+export const getConnectedEdges = (diagram: DiagramDocument, id: string): DiagramCell[] =>
+  getEdges(diagram).filter((edge) => edge.source === id || edge.target === id);
+
+// The layer new top-level cells go into: the first child of the root cell.
+export const getDefaultParent = (diagram: DiagramDocument): string => {
+  const cells = getCells(diagram);
+  const rootCell = cells.find((cell) => !cell.parent);
+  const layer = rootCell && cells.find((cell) => cell.parent === rootCell.id);
+  return layer?.id || '1';
+};
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+const requireCellElement = (diagram: DiagramDocument, id: string): Element => {
+  const cell = getCell(diagram, id);
+  if (!cell) {
+    throw new Error(`Cell "${id}" not found`);
+  }
+  return cell.element;
+};
+
+// Whitespace that precedes `node`, used to indent inserted siblings the same way.
+const leadingIndent = (node: Node): string => {
+  const previous = node.previousSibling;
+  if (previous && previous.nodeType === Node.TEXT_NODE && !previous.nodeValue?.trim()) {
+    return previous.nodeValue || '';
+  }
+  return '';
+};
+
+// Appends `child` using the indentation of its new siblings.
+export const appendIndented = (parent: Element, child: Element) => {
+  const doc = parent.ownerDocument;
+  const firstElement = parent.firstElementChild;
+  const parentIndent = leadingIndent(parent);
+  const childIndent = firstElement ? leadingIndent(firstElement) : parentIndent ? `${parentIndent}  ` : '';
+  const closingIndent = parentIndent || (childIndent ? '\n' : '');
+
+  const last = parent.lastChild;
+  const hasTrailingWhitespace = last && last.nodeType === Node.TEXT_NODE && !last.nodeValue?.trim();
+  if (childIndent) parent.insertBefore(doc.createTextNode(childIndent), hasTrailingWhitespace ? last : null);
+  parent.insertBefore(child, hasTrailingWhitespace ? last : null);
+  if (!hasTrailingWhitespace && closingIndent) parent.appendChild(doc.createTextNode(closingIndent));
+};
+
+export const removeIndented = (node: Element) => {
+  const previous = node.previousSibling;
+  if (previous && previous.nodeType === Node.TEXT_NODE && !previous.nodeValue?.trim()) {
+    previous.parentNode?.removeChild(previous);
+  }
+  node.parentNode?.removeChild(node);
+};
+
+const setOrRemoveAttribute = (element: Element, name: string, value: string | undefined) => {
+  if (value === undefined || value === '') {
+    element.removeAttribute(name);
+  } else {
+    element.setAttribute(name, value);
+  }
+};
+
+export const setCellValue = (diagram: DiagramDocument, id: string, value: string) => {
+  const element = requireCellElement(diagram, id);
+  const holder = getHolder(element);
+  holder.setAttribute(holder === element ? 'value' : 'label', value);
+  markDirty(diagram);
+};
+
+export const setCellStyle = (diagram: DiagramDocument, id: string, style: StyleMap) => {
+  const element = requireCellElement(diagram, id);
+  const raw = element.getAttribute('style') || '';
+  element.setAttribute('style', serializeStyle(style, raw === '' || raw.endsWith(';')));
+  markDirty(diagram);
+};
+
+export const updateCellStyle = (diagram: DiagramDocument, id: string, changes: Record<string, string | null>) => {
+  const element = requireCellElement(diagram, id);
+  setCellStyle(diagram, id, mergeStyle(parseStyle(element.getAttribute('style')), changes));
+};
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const writePoint = (doc: XMLDocument, point: DiagramPoint, as?: string): Element => {
+  const element = doc.createElement('mxPoint');
+  element.setAttribute('x', formatNumber(point.x));
+  element.setAttribute('y', formatNumber(point.y));
+  if (as) element.setAttribute('as', as);
+  return element;
+};
+
+const replacePointChild = (geometryElement: Element, as: string, point: DiagramPoint | undefined) => {
+  const existing = Array.from(geometryElement.children).find(
+    (child) => child.tagName === 'mxPoint' && child.getAttribute('as') === as,
+  );
+  if (existing && point) {
+    existing.setAttribute('x', formatNumber(point.x));
+    existing.setAttribute('y', formatNumber(point.y));
+  } else if (existing) {
+    removeIndented(existing);
+  } else if (point) {
+    appendIndented(geometryElement, writePoint(geometryElement.ownerDocument as XMLDocument, point, as));
+  }
+};
+
+const replacePoints = (geometryElement: Element, points: DiagramPoint[]) => {
+  const existing = Array.from(geometryElement.children).find(
+    (child) => child.tagName === 'Array' && child.getAttribute('as') === 'points',
+  );
+  if (existing) removeIndented(existing);
+  if (points.length === 0) return;
+
+  const doc = geometryElement.ownerDocument as XMLDocument;
+  const array = doc.createElement('Array');
+  array.setAttribute('as', 'points');
+  appendIndented(geometryElement, array);
+  points.forEach((point) => appendIndented(array, writePoint(doc, point)));
+};
+
+// Writes only the geometry fields that are present in `changes`, leaving the
+// remaining attributes and child points as they were.
+export const setCellGeometry = (diagram: DiagramDocument, id: string, changes: Partial<DiagramGeometry>) => {
+  const element = requireCellElement(diagram, id);
+  let geometryElement = getGeometryElement(element);
+  if (!geometryElement) {
+    geometryElement = diagram.doc.createElement('mxGeometry');
+    geometryElement.setAttribute('as', 'geometry');
+    appendIndented(element, geometryElement);
+  }
+
+  (['x', 'y', 'width', 'height'] as const).forEach((key) => {
+    const value = changes[key];
+    if (value === undefined) return;
+    if (value === 0 && (key === 'x' || key === 'y')) {
+      geometryElement.removeAttribute(key);
+    } else {
+      geometryElement.setAttribute(key, formatNumber(value));
+    }
+  });
+  if (changes.relative !== undefined) {
+    setOrRemoveAttribute(geometryElement, 'relative', changes.relative ? '1' : undefined);
+  }
+  if ('sourcePoint' in changes) replacePointChild(geometryElement, 'sourcePoint', changes.sourcePoint);
+  if ('targetPoint' in changes) replacePointChild(geometryElement, 'targetPoint', changes.targetPoint);
+  if ('offset' in changes) replacePointChild(geometryElement, 'offset', changes.offset);
+  if (changes.points) replacePoints(geometryElement, changes.points);
+
+  // Keep `as="geometry"` last, the way draw.io writes it.
+  const as = geometryElement.getAttribute('as');
+  if (as) {
+    geometryElement.removeAttribute('as');
+    geometryElement.setAttribute('as', as);
+  }
+  markDirty(diagram);
+};
+
+export const setCellParent = (diagram: DiagramDocument, id: string, parentId: string) => {
+  const element = requireCellElement(diagram, id);
+  element.setAttribute('parent', parentId);
+  markDirty(diagram);
+};
+
+// Moves a cell (with its wrapper, if any) in front of another one, which also
+// puts it underneath in draw.io's paint order.
+export const moveCellBefore = (diagram: DiagramDocument, id: string, beforeId: string) => {
+  const holder = getHolder(requireCellElement(diagram, id));
+  const before = getHolder(requireCellElement(diagram, beforeId));
+  if (holder === before || !before.parentNode) return;
+
+  const indent = leadingIndent(before);
+  removeIndented(holder);
+  before.parentNode.insertBefore(holder, before);
+  if (indent) before.parentNode.insertBefore(diagram.doc.createTextNode(indent), before);
+  markDirty(diagram);
+};
+
+export const setEdgeTerminal = (diagram: DiagramDocument, id: string, end: 'source' | 'target', terminalId: string | undefined) => {
+  const element = requireCellElement(diagram, id);
+  setOrRemoveAttribute(element, end, terminalId);
+  markDirty(diagram);
+};
+
+// New ids follow the prefix of the existing generated ids (e.g. `EQVulbTW3wnQUEHRVnnI-57`),
+// falling back to plain numbers for hand-written files.
+export const createCellId = (diagram: DiagramDocument): string => {
+  const ids = getCells(diagram).map((cell) => cell.id);
+  const taken = new Set(ids);
+  const prefixes = new Map<string, number>();
+
+  ids.forEach((id) => {
+    const match = id.match(/^(.*?)(\d+)$/);
+    if (!match) return;
+    const [, prefix, number] = match;
+    prefixes.set(prefix, Math.max(prefixes.get(prefix) ?? 0, parseInt(number, 10)));
+  });
+
+  const [prefix, max] = Array.from(prefixes.entries())
+    .filter(([key]) => key !== '')
+    .sort((a, b) => b[1] - a[1])[0] || ['', prefixes.get('') ?? 1];
+
+  let next = max + 1;
+  while (taken.has(`${prefix}${next}`)) next++;
+  return `${prefix}${next}`;
+};
+
+export const insertCell = (diagram: DiagramDocument, init: NewCell): DiagramCell => {
+  const root = getRootElement(diagram);
+  if (!root) {
+    throw new Error('Diagram has no <root> element');
+  }
+
+  const element = diagram.doc.createElement('mxCell');
+  element.setAttribute('id', init.id || createCellId(diagram));
+  if (init.value !== undefined) element.setAttribute('value', init.value);
+  if (init.style) element.setAttribute('style', serializeStyle(init.style));
+  element.setAttribute('parent', init.parent || getDefaultParent(diagram));
+  if (init.source) element.setAttribute('source', init.source);
+  if (init.target) element.setAttribute('target', init.target);
+  if (init.edge) element.setAttribute('edge', '1');
+  else if (init.vertex !== false) element.setAttribute('vertex', '1');
+
+  appendIndented(root, element);
+  markDirty(diagram);
+
+  const id = element.getAttribute('id') as string;
+  setCellGeometry(diagram, id, init.edge ? { relative: true, ...init.geometry } : { ...init.geometry });
+  return readCell(element);
+};
+
+// Copies a cell from another document, wrapper included, to the end of <root>.
+export const importCell = (diagram: DiagramDocument, cell: DiagramCell): DiagramCell => {
+  const root = getRootElement(diagram);
+  if (!root) {
+    throw new Error('Diagram has no <root> element');
+  }
+  if (getCell(diagram, cell.id)) {
+    throw new Error(`Cell "${cell.id}" already exists`);
+  }
+
+  appendIndented(root, diagram.doc.importNode(getHolder(cell.element), true) as Element);
+  markDirty(diagram);
+  return getCell(diagram, cell.id) as DiagramCell;
+};
+
+// Removes the cells, their descendants and (optionally) every edge attached to
+// any of them. Returns the ids that were actually removed.
+export const removeCells = (diagram: DiagramDocument, ids: string[], options: { includeEdges?: boolean } = {}): string[] => {
+  const includeEdges = options.includeEdges ?? true;
+  const doomed = new Set<string>();
+
+  ids.forEach((id) => {
+    if (!getCell(diagram, id)) return;
+    doomed.add(id);
+    getDescendants(diagram, id).forEach((cell) => doomed.add(cell.id));
+  });
+
+  if (includeEdges) {
+    getEdges(diagram)
+      .filter((edge) => (edge.source && doomed.has(edge.source)) || (edge.target && doomed.has(edge.target)))
+      .forEach((edge) => doomed.add(edge.id));
+  }
+
+  getCells(diagram)
+    .filter((cell) => doomed.has(cell.id))
+    .forEach((cell) => removeIndented(getHolder(cell.element)));
+
+  if (doomed.size > 0) markDirty(diagram);
+  return Array.from(doomed);
+};
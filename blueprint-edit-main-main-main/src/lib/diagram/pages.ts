@@ -0,0 +1,182 @@
+import {
+  appendIndented,
+  markDirty,
+  parseDiagram,
+  removeIndented,
+  serializeDiagram,
+  serializeNode,
+  type DiagramDocument,
+} from "./model";
+
+export interface DiagramPageInfo {
+  id: string;
+  name: string;
+  index: number;
+}
+
+// A file that is a bare `<mxGraphModel>` behaves as a single page with this id.
+export const SINGLE_PAGE_ID = 'page-1';
+
+const EMPTY_PAGE_MODEL =
+  '<mxGraphModel grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="827" pageHeight="1169" math="0" shadow="0"><root><mxCell id="0" /><mxCell id="1" parent="0" /></root></mxGraphModel>';
+
+const ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// Same shape as the 20 character page ids diagrams.net generates.
+export const createPageId = (): string =>
+  Array.from({ length: 20 }, () => ID_CHARS[Math.floor(Math.random() * ID_CHARS.length)]).join('');
+
+const getPageElements = (diagram: DiagramDocument): Element[] =>
+  Array.from(diagram.doc.documentElement.children).filter((child) => child.tagName === 'diagram');
+
+// Pages written by hand may lack an id; fall back to their position.
+const pageIdOf = (page: Element, index: number): string => page.getAttribute('id') || `page-${index + 1}`;
+
+const findPageElement = (diagram: DiagramDocument, pageId: string): Element => {
+  const page = getPageElements(diagram).find((element, index) => pageIdOf(element, index) === pageId);
+  if (!page) {
+    throw new Error(`Page "${pageId}" not found`);
+  }
+  return page;
+};
+
+const getPageModel = (page: Element): Element | undefined =>
+  Array.from(page.children).find((child) => child.tagName === 'mxGraphModel');
+
+const isBareModel = (diagram: DiagramDocument): boolean =>
+  diagram.doc.documentElement.tagName === 'mxGraphModel';
+
+export const listPages = (xml: string): DiagramPageInfo[] => {
+  try {
+    const diagram = parseDiagram(xml);
+    if (isBareModel(diagram)) {
+      return [{ id: SINGLE_PAGE_ID, name: 'Page-1', index: 0 }];
+    }
+    return getPageElements(diagram).map((page, index) => ({
+      id: pageIdOf(page, index),
+      name: page.getAttribute('name') || `Page-${index + 1}`,
+      index,
+    }));
+  } catch {
+    return [];
+  }
+};
+
+export const findPageByName = (xml: string, name: string): DiagramPageInfo | undefined => {
+  const wanted = name.trim().toLowerCase();
+  return listPages(xml).find((page) => page.name.toLowerCase() === wanted);
+};
+
+// The page's `<mxGraphModel>` as a standalone document that the model,
+// renderers and chat edits can work on without knowing about pages.
+export const getPageXml = (xml: string, pageId: string): string => {
+  const diagram = parseDiagram(xml);
+  if (isBareModel(diagram)) return xml;
+
+  const model = getPageModel(findPageElement(diagram, pageId));
+  if (!model) {
+    throw new Error(`Page "${pageId}" has no diagram model`);
+  }
+  return serializeNode(model, diagram.format);
+};
+
+export const setPageXml = (xml: string, pageId: string, pageXml: string): string => {
+  const diagram = parseDiagram(xml);
+  if (isBareModel(diagram)) return pageXml;
+  if (getPageXml(xml, pageId) === pageXml) return xml;
+
+  const page = findPageElement(diagram, pageId);
+  const replacement = diagram.doc.importNode(parseDiagram(pageXml).doc.documentElement, true);
+  const current = getPageModel(page);
+  if (current) {
+    page.replaceChild(replacement, current);
+  } else {
+    appendIndented(page, replacement);
+  }
+  markDirty(diagram);
+  return serializeDiagram(diagram);
+};
+
+// Bare models are wrapped in an `<mxfile>` the first time a page is added.
+const ensureMxFile = (xml: string): DiagramDocument => {
+  const diagram = parseDiagram(xml);
+  if (!isBareModel(diagram)) return diagram;
+
+  const model = serializeNode(diagram.doc.documentElement, diagram.format);
+  return parseDiagram(
+    `${diagram.prolog}<mxfile>\n  <diagram name="Page-1" id="${createPageId()}">\n    ${model}\n  </diagram>\n</mxfile>${diagram.epilogue}`,
+  );
+};
+
+const createPageElement = (diagram: DiagramDocument, name: string, model: Element, id = createPageId()): Element => {
+  const page = diagram.doc.createElement('diagram');
+  page.setAttribute('name', name);
+  page.setAttribute('id', id);
+  appendIndented(diagram.doc.documentElement, page);
+  appendIndented(page, model);
+  return page;
+};
+
+const uniquePageName = (diagram: DiagramDocument, base: string): string => {
+  const taken = new Set(getPageElements(diagram).map((page) => page.getAttribute('name')));
+  if (!taken.has(base)) return base;
+  let index = 2;
+  while (taken.has(`${base} ${index}`)) index++;
+  return `${base} ${index}`;
+};
+
+// `id` keeps a page's identity when it is copied in from another file.
+export const addPage = (xml: string, name?: string, id?: string): { xml: string; pageId: string } => {
+  const diagram = ensureMxFile(xml);
+  const pageName = uniquePageName(diagram, name?.trim() || `Page-${getPageElements(diagram).length + 1}`);
+  const model = diagram.doc.importNode(parseDiagram(EMPTY_PAGE_MODEL).doc.documentElement, true);
+  const page = createPageElement(diagram, pageName, model, id);
+  markDirty(diagram);
+  return { xml: serializeDiagram(diagram), pageId: page.getAttribute('id') as string };
+};
+
+export const renamePage = (xml: string, pageId: string, name: string): string => {
+  const diagram = ensureMxFile(xml);
+  const page = getPageElements(diagram).length === 1 ? getPageElements(diagram)[0] : findPageElement(diagram, pageId);
+  page.setAttribute('name', name.trim());
+  markDirty(diagram);
+  return serializeDiagram(diagram);
+};
+
+export const duplicatePage = (xml: string, pageId: string): { xml: string; pageId: string } => {
+  const diagram = ensureMxFile(xml);
+  const source = getPageElements(diagram).length === 1 ? getPageElements(diagram)[0] : findPageElement(diagram, pageId);
+  const model = getPageModel(source);
+  const copy = createPageElement(
+    diagram,
+    uniquePageName(diagram, `${source.getAttribute('name') || 'Page'} copy`),
+    model ? (model.cloneNode(true) as Element) : diagram.doc.importNode(parseDiagram(EMPTY_PAGE_MODEL).doc.documentElement, true),
+  );
+
+  // Place the copy straight after the page it was made from.
+  const indent = copy.previousSibling;
+  diagram.doc.documentElement.insertBefore(copy, source.nextSibling);
+  if (indent) diagram.doc.documentElement.insertBefore(indent, copy);
+
+  markDirty(diagram);
+  return { xml: serializeDiagram(diagram), pageId: copy.getAttribute('id') as string };
+};
+
+export const deletePage = (xml: string, pageId: string): string => {
+  const diagram = parseDiagram(xml);
+  const pages = getPageElements(diagram);
+  if (isBareModel(diagram) || pages.length <= 1) {
+    throw new Error('A diagram must keep at least one page');
+  }
+  removeIndented(findPageElement(diagram, pageId));
+  markDirty(diagram);
+  return serializeDiagram(diagram);
+};
+
+// Splits a chat message like "on page Memory Map, remove DMA" into the page
+// name and the command that should run against it.
+export const parsePageDirective = (input: string): { pageName?: string; command: string } => {
+  const match = input.match(/^\s*(?:on|in)\s+(?:the\s+)?page\s+["']?(.+?)["']?\s*[,:]\s*(.+)$/is);
+  if (!match) return { command: input };
+  return { pageName: match[1].trim(), command: match[2].trim() };
+};
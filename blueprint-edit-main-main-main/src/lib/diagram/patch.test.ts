@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import { getCell, getCells, parseDiagram, type DiagramCell } from "./model";
+import { PatchError, applyPatch, createPatchBuilder, diffPatch, type PatchOperation } from "./patch";
+import { createGeometryResolver } from "./render";
+
+const base = `<mxGraphModel><root>
+  <mxCell id="0" />
+  <mxCell id="1" parent="0" />
+  <mxCell id="cpu" value="CPU" style="rounded=1;" vertex="1" parent="1">
+    <mxGeometry x="40" y="40" width="80" height="40" as="geometry" />
+  </mxCell>
+  <mxCell id="gpu" value="GPU" vertex="1" parent="1">
+    <mxGeometry x="200" y="40" width="80" height="40" as="geometry" />
+  </mxCell>
+  <mxCell id="bus" edge="1" source="cpu" target="gpu" parent="1">
+    <mxGeometry relative="1" as="geometry" />
+  </mxCell>
+</root></mxGraphModel>`;
+
+const cell = (xml: string, id: string) => getCell(parseDiagram(xml), id);
+const absolute = (xml: string, id: string) => {
+  const cells = getCells(parseDiagram(xml));
+  return createGeometryResolver(cells).boundsOf(cells.find((candidate) => candidate.id === id) as DiagramCell);
+};
+
+describe('applyPatch', () => {
+  it('runs operations in order', () => {
+    const xml = applyPatch(base, {
+      operations: [
+        { op: 'addVertex', id: 'dma', label: 'DMA', style: 'rounded=0;', geometry: { x: 40, y: 120, width: 80, height: 40 } },
+        { op: 'connect', id: 'e2', source: 'dma', target: 'cpu', label: 'AXI' },
+        { op: 'setLabel', id: 'cpu', label: 'Core' },
+        { op: 'setStyle', id: 'cpu', changes: { fillColor: '#ff0000', rounded: null } },
+        { op: 'setGeometry', id: 'gpu', geometry: { width: 120 } },
+      ],
+    });
+    expect(cell(xml, 'dma')).toMatchObject({ value: 'DMA', vertex: true });
+    expect(cell(xml, 'e2')).toMatchObject({ edge: true, source: 'dma', target: 'cpu', value: 'AXI' });
+    expect(cell(xml, 'cpu')).toMatchObject({ value: 'Core', style: { fillColor: '#ff0000' } });
+    expect(cell(xml, 'cpu')?.style.rounded).toBeUndefined();
+    expect(cell(xml, 'gpu')?.geometry).toMatchObject({ x: 200, width: 120 });
+  });
+
+  it('replays to the same document', () => {
+    const operations: PatchOperation[] = [
+      { op: 'group', id: 'g', children: ['cpu', 'gpu'], label: 'SoC' },
+      { op: 'disconnect', id: 'bus', end: 'target' },
+    ];
+    expect(applyPatch(base, { operations })).toBe(applyPatch(base, { operations }));
+  });
+
+  it('removes children and attached edges with a cell', () => {
+    const xml = applyPatch(base, { operations: [{ op: 'removeCell', id: 'gpu' }] });
+    expect(cell(xml, 'gpu')).toBeUndefined();
+    expect(cell(xml, 'bus')).toBeUndefined();
+    expect(cell(xml, 'cpu')).toBeDefined();
+  });
+
+  it('keeps grouped and reparented blocks where they are on screen', () => {
+    const grouped = applyPatch(base, { operations: [{ op: 'group', id: 'g', children: ['cpu', 'gpu'] }] });
+    expect(cell(grouped, 'cpu')?.parent).toBe('g');
+    expect(absolute(grouped, 'cpu')).toEqual(absolute(base, 'cpu'));
+
+    const moved = applyPatch(grouped, { operations: [{ op: 'reparent', id: 'gpu', parent: '1' }] });
+    expect(cell(moved, 'gpu')?.parent).toBe('1');
+    expect(absolute(moved, 'gpu')).toEqual(absolute(base, 'gpu'));
+  });
+
+  it('rejects a patch with a missing cell or a taken id', () => {
+    expect(() => applyPatch(base, { operations: [{ op: 'setLabel', id: 'nope', label: 'x' }] })).toThrow(PatchError);
+    expect(() =>
+      applyPatch(base, { operations: [{ op: 'addVertex', id: 'cpu', label: 'CPU', style: '', geometry: { x: 0, y: 0, width: 10, height: 10 } }] }),
+    ).toThrow(/already exists/);
+  });
+
+  it('lets a builder see its earlier operations', () => {
+    const builder = createPatchBuilder(base);
+    builder.add({ op: 'addVertex', id: 'dma', label: 'DMA', style: '', geometry: { x: 0, y: 0, width: 10, height: 10 } });
+    builder.add({ op: 'connect', id: 'e2', source: 'dma', target: 'cpu' });
+    expect(builder.operations).toHaveLength(2);
+    expect(applyPatch(base, builder)).toBe(builder.xml());
+  });
+});
+
+describe('diffPatch', () => {
+  it('describes a hand edit as cell operations that reproduce it', () => {
+    const after = base.replace('value="CPU"', 'value="Core"').replace('x="200"', 'x="240"').replace('target="gpu"', 'target="cpu"');
+    const patch = diffPatch(base, after, 'editor', 'Hand edit');
+    expect(patch.operations.map((operation) => operation.op).sort()).toEqual(['connect', 'setGeometry', 'setLabel']);
+    expect(cell(applyPatch(base, patch), 'gpu')?.geometry?.x).toBe(240);
+    expect(cell(applyPatch(base, patch), 'bus')?.target).toBe('cpu');
+  });
+
+  it('picks up added and removed cells', () => {
+    const after = applyPatch(base, {
+      operations: [
+        { op: 'removeCell', id: 'gpu' },
+        { op: 'addVertex', id: 'dma', label: 'DMA', style: 'rounded=1;', geometry: { x: 0, y: 0, width: 10, height: 10 } },
+      ],
+    });
+    const patch = diffPatch(base, after, 'editor', 'Hand edit');
+    expect(patch.operations.some((operation) => operation.op === 'replaceDocument')).toBe(false);
+    expect(getCells(parseDiagram(applyPatch(base, patch))).map((c) => c.id).sort()).toEqual(['0', '1', 'cpu', 'dma']);
+  });
+
+  it('is empty for no change and replaces the page when it cannot be expressed', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(diffPatch(base, base, 'editor', 'Nothing').operations).toEqual([]);
+    expect(diffPatch(base, '<mxGraphModel><root>', 'editor', 'Broken').operations).toEqual([{ op: 'replaceDocument', xml: '<mxGraphModel><root>' }]);
+  });
+});
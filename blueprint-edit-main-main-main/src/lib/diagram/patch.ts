@@ -0,0 +1,425 @@
+import {
+  getCell,
+  getCells,
+  getGraphModel,
+  getRootElement,
+  insertCell,
+  moveCellBefore,
+  parseDiagram,
+  removeCells,
+  serializeDiagram,
+  serializeNode,
+  setCellGeometry,
+  setCellParent,
+  setCellValue,
+  setEdgeTerminal,
+  updateCellStyle,
+  type DiagramCell,
+  type DiagramDocument,
+  type DiagramGeometry,
+  type DiagramPoint,
+} from "./model";
+import { createGeometryResolver, unionBounds } from "./render";
+import { parseStyle } from "./style";
+
+// Every change to a page is expressed as one of these. Ids are always explicit
+// so a patch replays to the same result on the same input.
+export type PatchOperation =
+  | { op: 'addVertex'; id: string; label: string; style: string; geometry: { x: number; y: number; width: number; height: number }; parent?: string }
+  // Also removes the cell's children and every edge attached to it.
+  | { op: 'removeCell'; id: string }
+  | { op: 'setLabel'; id: string; label: string }
+  // `null` removes a key.
+  | { op: 'setStyle'; id: string; changes: Record<string, string | null> }
+  | { op: 'setGeometry'; id: string; geometry: Partial<DiagramGeometry> }
+  // Creates edge `id`, or re-attaches the given ends when it already exists.
+  | { op: 'connect'; id: string; source?: string; target?: string; label?: string; style?: string; parent?: string; geometry?: Partial<DiagramGeometry> }
+  // Detaches one or both ends; a detached end stays where it was drawn.
+  | { op: 'disconnect'; id: string; end?: 'source' | 'target' }
+  // `geometry` is in the members' parent and defaults to their bounds.
+  | { op: 'group'; id: string; children: string[]; label?: string; style?: string; geometry?: { x: number; y: number; width: number; height: number } }
+  // Moves a cell into another container without moving it on screen.
+  | { op: 'reparent'; id: string; parent: string }
+  // For hand edits the other operations cannot express.
+  | { op: 'replaceDocument'; xml: string };
+
+// The XML editor and the toolbars count as `editor`.
+export type PatchSource = 'chat' | 'editor' | 'inspector';
+
+export interface DiagramPatch {
+  source: PatchSource;
+  // One line for history and review, e.g. the chat message that produced it.
+  summary: string;
+  operations: PatchOperation[];
+}
+
+export class PatchError extends Error {
+  constructor(message: string, public readonly operation?: PatchOperation) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+const requireCell = (diagram: DiagramDocument, id: string, operation: PatchOperation): DiagramCell => {
+  const cell = getCell(diagram, id);
+  if (!cell) throw new PatchError(`${operation.op}: cell "${id}" does not exist`, operation);
+  return cell;
+};
+
+const requireNewId = (diagram: DiagramDocument, id: string, operation: PatchOperation) => {
+  if (getCell(diagram, id)) throw new PatchError(`${operation.op}: cell "${id}" already exists`, operation);
+};
+
+// Top-left corner of `id` in page coordinates, or the origin for layers.
+const absoluteOrigin = (diagram: DiagramDocument, id: string | undefined): { x: number; y: number } => {
+  const cells = getCells(diagram);
+  const cell = cells.find((candidate) => candidate.id === id);
+  if (!cell?.vertex || !cell.geometry) return { x: 0, y: 0 };
+  const bounds = createGeometryResolver(cells).boundsOf(cell);
+  return { x: bounds.x, y: bounds.y };
+};
+
+const isAncestor = (diagram: DiagramDocument, ancestorId: string, id: string): boolean => {
+  let current = getCell(diagram, id);
+  while (current?.parent) {
+    if (current.parent === ancestorId) return true;
+    current = getCell(diagram, current.parent);
+  }
+  return false;
+};
+
+const reparent = (diagram: DiagramDocument, cell: DiagramCell, parentId: string) => {
+  const from = absoluteOrigin(diagram, cell.parent);
+  const to = absoluteOrigin(diagram, parentId);
+  const shift = (point: DiagramPoint): DiagramPoint => ({ x: point.x + from.x - to.x, y: point.y + from.y - to.y });
+  if (cell.vertex && cell.geometry && !cell.geometry.relative) {
+    setCellGeometry(diagram, cell.id, shift(cell.geometry));
+  } else if (cell.edge && cell.geometry) {
+    // Waypoints and loose ends are in the parent's coordinates as well.
+    const { points, sourcePoint, targetPoint } = cell.geometry;
+    setCellGeometry(diagram, cell.id, {
+      ...(points.length > 0 && { points: points.map(shift) }),
+      ...(sourcePoint && { sourcePoint: shift(sourcePoint) }),
+      ...(targetPoint && { targetPoint: shift(targetPoint) }),
+    });
+  }
+  setCellParent(diagram, cell.id, parentId);
+};
+
+export const applyOperation = (diagram: DiagramDocument, operation: PatchOperation) => {
+  switch (operation.op) {
+    case 'addVertex':
+      requireNewId(diagram, operation.id, operation);
+      insertCell(diagram, {
+        id: operation.id,
+        value: operation.label,
+        style: parseStyle(operation.style),
+        parent: operation.parent,
+        vertex: true,
+        geometry: operation.geometry,
+      });
+      return;
+    case 'removeCell':
+      requireCell(diagram, operation.id, operation);
+      removeCells(diagram, [operation.id]);
+      return;
+    case 'setLabel':
+      requireCell(diagram, operation.id, operation);
+      setCellValue(diagram, operation.id, operation.label);
+      return;
+    case 'setStyle':
+      requireCell(diagram, operation.id, operation);
+      updateCellStyle(diagram, operation.id, operation.changes);
+      return;
+    case 'setGeometry':
+      requireCell(diagram, operation.id, operation);
+      setCellGeometry(diagram, operation.id, operation.geometry);
+      return;
+    case 'connect': {
+      [operation.source, operation.target].forEach((terminal) => terminal && requireCell(diagram, terminal, operation));
+      const existing = getCell(diagram, operation.id);
+      if (existing) {
+        if (!existing.edge) throw new PatchError(`connect: cell "${operation.id}" is not an edge`, operation);
+        if (operation.source) setEdgeTerminal(diagram, operation.id, 'source', operation.source);
+        if (operation.target) setEdgeTerminal(diagram, operation.id, 'target', operation.target);
+        if (operation.label !== undefined) setCellValue(diagram, operation.id, operation.label);
+        if (operation.geometry) setCellGeometry(diagram, operation.id, operation.geometry);
+        return;
+      }
+      insertCell(diagram, {
+        id: operation.id,
+        value: operation.label ?? '',
+        style: parseStyle(operation.style ?? 'endArrow=classic;html=1;'),
+        parent: operation.parent,
+        edge: true,
+        source: operation.source,
+        target: operation.target,
+        geometry: operation.geometry,
+      });
+      return;
+    }
+    case 'disconnect': {
+      const edge = requireCell(diagram, operation.id, operation);
+      const cells = getCells(diagram);
+      const resolver = createGeometryResolver(cells);
+      const ends = operation.end ? [operation.end] : (['source', 'target'] as const);
+      ends.forEach((end) => {
+        const terminal = resolver.byId.get(edge[end]);
+        if (!terminal) return;
+        // Keep the loose end at the terminal's centre, in the edge's coordinates.
+        const bounds = resolver.boundsOf(terminal);
+        const origin = absoluteOrigin(diagram, edge.parent);
+        const point = { x: bounds.x + bounds.width / 2 - origin.x, y: bounds.y + bounds.height / 2 - origin.y };
+        setEdgeTerminal(diagram, edge.id, end, undefined);
+        setCellGeometry(diagram, edge.id, end === 'source' ? { sourcePoint: point } : { targetPoint: point });
+      });
+      return;
+    }
+    case 'group': {
+      requireNewId(diagram, operation.id, operation);
+      const children = operation.children.map((id) => requireCell(diagram, id, operation));
+      if (children.length === 0) throw new PatchError('group: no cells to group', operation);
+      const parent = children[0].parent;
+      if (children.some((child) => child.parent !== parent)) {
+        throw new PatchError('group: cells must share the same parent', operation);
+      }
+
+      const bounds = operation.geometry ?? unionBounds(
+        children.filter((child) => child.vertex && child.geometry).map((child) => child.geometry as DiagramGeometry),
+      );
+      insertCell(diagram, {
+        id: operation.id,
+        value: operation.label ?? '',
+        style: parseStyle(operation.style ?? 'group'),
+        parent,
+        vertex: true,
+        geometry: { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height },
+      });
+      // The group is painted below its members, so it goes in front of the first one.
+      moveCellBefore(diagram, operation.id, children[0].id);
+      children.forEach((child) => reparent(diagram, child, operation.id));
+      return;
+    }
+    case 'reparent': {
+      const cell = requireCell(diagram, operation.id, operation);
+      requireCell(diagram, operation.parent, operation);
+      if (operation.parent === operation.id || isAncestor(diagram, operation.id, operation.parent)) {
+        throw new PatchError(`reparent: "${operation.id}" cannot be moved into itself`, operation);
+      }
+      reparent(diagram, cell, operation.parent);
+      return;
+    }
+    case 'replaceDocument':
+      throw new PatchError('replaceDocument is applied to the whole page, not to a parsed diagram', operation);
+  }
+};
+
+// The one place page XML is changed. Operations run in order and the first
+// invalid one aborts the whole patch.
+export const applyPatch = (xml: string, patch: Pick<DiagramPatch, 'operations'>): string =>
+  patch.operations.reduce((current, operation) => {
+    if (operation.op === 'replaceDocument') return operation.xml;
+    const diagram = parseDiagram(current);
+    applyOperation(diagram, operation);
+    return serializeDiagram(diagram);
+  }, xml);
+
+// Builds a patch against a working copy so later operations can see earlier
+// ones, e.g. to pick the next free id or connect to a just-added vertex.
+export const createPatchBuilder = (xml: string) => {
+  let diagram = parseDiagram(xml);
+  const operations: PatchOperation[] = [];
+
+  return {
+    get diagram() {
+      return diagram;
+    },
+    operations,
+    add(operation: PatchOperation) {
+      if (operation.op === 'replaceDocument') {
+        diagram = parseDiagram(operation.xml);
+      } else {
+        applyOperation(diagram, operation);
+      }
+      operations.push(operation);
+    },
+    xml: () => serializeDiagram(diagram),
+  };
+};
+
+export type PatchBuilder = ReturnType<typeof createPatchBuilder>;
+
+export const describeOperation = (operation: PatchOperation): string => {
+  switch (operation.op) {
+    case 'addVertex':
+      return `Add vertex ${operation.id}${operation.label ? ` "${operation.label}"` : ''}`;
+    case 'removeCell':
+      return `Remove ${operation.id}`;
+    case 'setLabel':
+      return `Set label of ${operation.id} to "${operation.label}"`;
+    case 'setStyle':
+      return `Set ${Object.entries(operation.changes).map(([key, value]) => (value === null ? `-${key}` : `${key}=${value}`)).join(', ')} on ${operation.id}`;
+    case 'setGeometry':
+      return `Set ${Object.keys(operation.geometry).join(', ')} of ${operation.id}`;
+    case 'connect':
+      return `Connect ${operation.id}: ${operation.source ?? '…'} → ${operation.target ?? '…'}`;
+    case 'disconnect':
+      return `Disconnect ${operation.end ?? 'both ends'} of ${operation.id}`;
+    case 'group':
+      return `Group ${operation.children.join(', ')} into ${operation.id}`;
+    case 'reparent':
+      return `Move ${operation.id} into ${operation.parent}`;
+    case 'replaceDocument':
+      return 'Replace the page XML';
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Deriving a patch from two versions of a page
+// ---------------------------------------------------------------------------
+
+const sameJson = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const styleChanges = (before: DiagramCell, after: DiagramCell): Record<string, string | null> => {
+  const changes: Record<string, string | null> = {};
+  Object.keys(before.style).forEach((key) => {
+    if (!(key in after.style)) changes[key] = null;
+  });
+  Object.entries(after.style).forEach(([key, value]) => {
+    if (before.style[key] !== value) changes[key] = value;
+  });
+  return changes;
+};
+
+const geometryChanges = (before: DiagramGeometry | undefined, after: DiagramGeometry | undefined): Partial<DiagramGeometry> => {
+  if (!after) return {};
+  const changes: Partial<DiagramGeometry> = {};
+  (['x', 'y', 'width', 'height', 'relative'] as const).forEach((key) => {
+    if (before?.[key] !== after[key]) (changes as Record<string, unknown>)[key] = after[key];
+  });
+  (['sourcePoint', 'targetPoint', 'offset'] as const).forEach((key) => {
+    if (!sameJson(before?.[key], after[key])) changes[key] = after[key];
+  });
+  if (!sameJson(before?.points ?? [], after.points)) changes.points = after.points;
+  return changes;
+};
+
+// Everything about a cell that the operations can change, plus the attributes
+// they cannot, so unsupported edits are noticed.
+const cellSignature = (cell: DiagramCell) => {
+  const wrapper = cell.element.parentElement;
+  const holder = wrapper && ['UserObject', 'object'].includes(wrapper.tagName) ? wrapper : null;
+  const extra = (element: Element, skip: string[]) =>
+    Array.from(element.attributes)
+      .filter((attr) => !skip.includes(attr.name))
+      .map((attr) => `${attr.name}=${attr.value}`)
+      .sort();
+  return {
+    id: cell.id,
+    value: cell.value,
+    style: Object.entries(cell.style).sort(),
+    parent: cell.parent,
+    source: cell.source,
+    target: cell.target,
+    vertex: cell.vertex,
+    edge: cell.edge,
+    geometry: cell.geometry ?? null,
+    attributes: extra(cell.element, ['id', 'value', 'style', 'parent', 'source', 'target', 'vertex', 'edge']),
+    holder: holder ? extra(holder, ['id', 'label']) : [],
+  };
+};
+
+const modelSignature = (diagram: DiagramDocument) => {
+  const model = getGraphModel(diagram);
+  const root = getRootElement(diagram);
+  return {
+    attributes: model ? Array.from(model.attributes).map((attr) => `${attr.name}=${attr.value}`).sort() : [],
+    // Anything in <root> besides cells, e.g. comments, is compared as text.
+    others: root ? Array.from(root.children).filter((child) => !['mxCell', 'UserObject', 'object'].includes(child.tagName)).map((child) => serializeNode(child)) : [],
+    cells: getCells(diagram).map(cellSignature),
+  };
+};
+
+const diffOperations = (before: DiagramDocument, after: DiagramDocument): PatchOperation[] => {
+  const beforeCells = new Map(getCells(before).map((cell) => [cell.id, cell]));
+  const afterCells = getCells(after);
+  const afterIds = new Set(afterCells.map((cell) => cell.id));
+  const operations: PatchOperation[] = [];
+
+  afterCells.forEach((cell) => {
+    const previous = beforeCells.get(cell.id);
+    if (!previous) {
+      if (cell.edge) {
+        operations.push({
+          op: 'connect',
+          id: cell.id,
+          source: cell.source,
+          target: cell.target,
+          label: cell.value,
+          style: cell.rawStyle,
+          parent: cell.parent,
+          geometry: cell.geometry,
+        });
+      } else {
+        const { x = 0, y = 0, width = 0, height = 0 } = cell.geometry ?? {};
+        operations.push({ op: 'addVertex', id: cell.id, label: cell.value, style: cell.rawStyle, geometry: { x, y, width, height }, parent: cell.parent });
+        const extra = geometryChanges({ x, y, width, height, relative: false, points: [] }, cell.geometry);
+        if (Object.keys(extra).length > 0) operations.push({ op: 'setGeometry', id: cell.id, geometry: extra });
+      }
+      return;
+    }
+
+    if (previous.parent !== cell.parent && cell.parent) {
+      operations.push({ op: 'reparent', id: cell.id, parent: cell.parent });
+    }
+    if (previous.value !== cell.value) operations.push({ op: 'setLabel', id: cell.id, label: cell.value });
+    const style = styleChanges(previous, cell);
+    if (Object.keys(style).length > 0) operations.push({ op: 'setStyle', id: cell.id, changes: style });
+    if (cell.edge && (previous.source !== cell.source || previous.target !== cell.target)) {
+      (['source', 'target'] as const).forEach((end) => {
+        if (previous[end] === cell[end]) return;
+        operations.push(cell[end] ? { op: 'connect', id: cell.id, [end]: cell[end] } : { op: 'disconnect', id: cell.id, end });
+      });
+    }
+    // Always compared after reparenting, which may have shifted x/y.
+    operations.push({ op: 'setGeometry', id: cell.id, geometry: {} });
+  });
+
+  beforeCells.forEach((cell) => {
+    if (!afterIds.has(cell.id)) operations.push({ op: 'removeCell', id: cell.id });
+  });
+  return operations;
+};
+
+// Describes a hand edit as cell operations. When those do not reproduce the
+// edited page exactly (reordered cells, unsupported attributes, broken XML)
+// the patch falls back to replacing the page.
+export const diffPatch = (before: string, after: string, source: PatchSource, summary: string): DiagramPatch => {
+  const replace: DiagramPatch = { source, summary, operations: [{ op: 'replaceDocument', xml: after }] };
+  if (before === after) return { source, summary, operations: [] };
+
+  try {
+    const target = parseDiagram(after);
+    const builder = createPatchBuilder(before);
+    const afterCells = new Map(getCells(target).map((cell) => [cell.id, cell]));
+
+    diffOperations(builder.diagram, target).forEach((operation) => {
+      // Already gone if an earlier removal cascaded to it.
+      if (operation.op === 'removeCell' && !getCell(builder.diagram, operation.id)) return;
+      if (operation.op !== 'setGeometry' || Object.keys(operation.geometry).length > 0) {
+        builder.add(operation);
+        return;
+      }
+      const current = getCell(builder.diagram, operation.id);
+      const geometry = geometryChanges(current?.geometry, afterCells.get(operation.id)?.geometry);
+      if (Object.keys(geometry).length > 0) builder.add({ ...operation, geometry });
+    });
+
+    return sameJson(modelSignature(builder.diagram), modelSignature(target))
+      ? { source, summary, operations: builder.operations }
+      : replace;
+  } catch (error) {
+    console.warn('Falling back to a full page replacement:', error);
+    return replace;
+  }
+};
@@ -0,0 +1,183 @@
+import {
+  getCell,
+  getCells,
+  getGraphModel,
+  getDefaultParent,
+  type DiagramCell,
+  type DiagramDocument,
+  type DiagramGeometry,
+} from "./model";
+import type { Bounds } from "./render";
+import { getStyleNumber, isStyleFlagSet } from "./style";
+
+export type PlacementRelation = 'right' | 'left' | 'above' | 'below' | 'inside';
+
+// "to the right of NVIC" is `{ relation: 'right', anchor: <NVIC's id> }`.
+export interface PlacementHint {
+  relation: PlacementRelation;
+  anchor: string;
+}
+
+export interface Placement {
+  parent: string;
+  // In the parent's coordinates, snapped to the grid.
+  geometry: { x: number; y: number; width: number; height: number };
+  // Containers that have to grow to fit the new cell, innermost first.
+  grow: Array<{ id: string; geometry: Partial<DiagramGeometry> }>;
+}
+
+type Size = { width: number; height: number };
+
+const DEFAULT_GRID_SIZE = 10;
+
+// How far apart the search tries to keep blocks, in grid steps.
+const GAP_STEPS = 4;
+const MARGIN_STEPS = 2;
+
+export const getGridSize = (diagram: DiagramDocument): number => {
+  const size = Number(getGraphModel(diagram)?.getAttribute('gridSize'));
+  return size > 0 ? size : DEFAULT_GRID_SIZE;
+};
+
+const isGridEnabled = (diagram: DiagramDocument): boolean => getGraphModel(diagram)?.getAttribute('grid') !== '0';
+
+const overlaps = (a: Bounds, b: Bounds, margin: number): boolean =>
+  a.x < b.x + b.width + margin && b.x < a.x + a.width + margin && a.y < b.y + b.height + margin && b.y < a.y + a.height + margin;
+
+const boundsOf = (cell: DiagramCell): Bounds => {
+  const { x = 0, y = 0, width = 0, height = 0 } = cell.geometry ?? {};
+  return { x, y, width, height };
+};
+
+// Vertices laid out directly in `parentId`, i.e. what a new child must not cover.
+const siblingBounds = (cells: DiagramCell[], parentId: string): Bounds[] =>
+  cells.filter((cell) => cell.vertex && cell.parent === parentId && cell.geometry && !cell.geometry.relative).map(boundsOf);
+
+const isContainer = (cells: DiagramCell[], cell: DiagramCell): boolean => cell.vertex && !!cell.geometry && cells.some((other) => other.parent === cell.id);
+
+// Room a container keeps free around its children; swimlanes also keep their title bar.
+const containerInsets = (cell: DiagramCell, padding: number) => {
+  const swimlane = cell.style.swimlane !== undefined || cell.style.shape === 'swimlane';
+  return { left: padding, top: padding + (swimlane ? getStyleNumber(cell.style, 'startSize', 23) : 0) };
+};
+
+const DIRECTIONS: Record<Exclude<PlacementRelation, 'inside'>, { x: number; y: number }> = {
+  right: { x: 1, y: 0 },
+  left: { x: -1, y: 0 },
+  below: { x: 0, y: 1 },
+  above: { x: 0, y: -1 },
+};
+
+export const createPlacer = (diagram: DiagramDocument) => {
+  const cells = getCells(diagram);
+  const grid = getGridSize(diagram);
+  const snap = (value: number) => (isGridEnabled(diagram) ? Math.round(value / grid) * grid : Math.round(value));
+  const gap = grid * GAP_STEPS;
+  const margin = grid * MARGIN_STEPS;
+
+  const isFree = (rect: Bounds, obstacles: Bounds[]) => !obstacles.some((obstacle) => overlaps(rect, obstacle, margin));
+
+  // Next to the anchor, sliding sideways before moving further out, so the
+  // new block stays lined up with the anchor where possible.
+  const besideAnchor = (anchor: Bounds, size: Size, relation: keyof typeof DIRECTIONS, obstacles: Bounds[], min?: { x: number; y: number }): Bounds => {
+    const direction = DIRECTIONS[relation];
+    const horizontal = direction.x !== 0;
+    const start = {
+      x: horizontal ? (direction.x > 0 ? anchor.x + anchor.width + gap : anchor.x - gap - size.width) : anchor.x + (anchor.width - size.width) / 2,
+      y: horizontal ? anchor.y + (anchor.height - size.height) / 2 : direction.y > 0 ? anchor.y + anchor.height + gap : anchor.y - gap - size.height,
+    };
+    const sideways = (horizontal ? size.height : size.width) + margin;
+
+    const candidates: Array<{ rect: Bounds; cost: number }> = [];
+    for (let out = 0; out <= 30; out++) {
+      for (let side = -4; side <= 4; side++) {
+        const along = out * grid;
+        const across = side * sideways;
+        const rect = {
+          x: snap(start.x + direction.x * along + (horizontal ? 0 : across)),
+          y: snap(start.y + direction.y * along + (horizontal ? across : 0)),
+          ...size,
+        };
+        if (min && (rect.x < min.x || rect.y < min.y)) continue;
+        candidates.push({ rect, cost: along + Math.abs(across) * 1.5 });
+      }
+    }
+    candidates.sort((a, b) => a.cost - b.cost);
+    return candidates.find(({ rect }) => isFree(rect, obstacles))?.rect ?? candidates[0]?.rect ?? { ...start, ...size };
+  };
+
+  // First free spot reading left to right, top to bottom inside `area`;
+  // otherwise below everything at the area's left edge.
+  const firstFreeSpot = (area: Bounds, size: Size, obstacles: Bounds[]): Bounds => {
+    const step = grid * 2;
+    for (let y = area.y; y + size.height <= area.y + area.height; y += step) {
+      for (let x = area.x; x + size.width <= area.x + area.width; x += step) {
+        const rect = { x: snap(x), y: snap(y), ...size };
+        if (isFree(rect, obstacles)) return rect;
+      }
+    }
+    const bottom = Math.max(area.y, ...obstacles.map((obstacle) => obstacle.y + obstacle.height + gap));
+    return { x: snap(area.x), y: snap(bottom), ...size };
+  };
+
+  // Sizes containers up so `rect`, in `parentId`'s coordinates, fits inside,
+  // then does the same for their own containers.
+  const growToFit = (parentId: string, rect: Bounds): Placement['grow'] => {
+    const parent = cells.find((cell) => cell.id === parentId);
+    if (!parent?.vertex || !parent.geometry || parent.geometry.relative) return [];
+    const width = Math.max(parent.geometry.width, snap(rect.x + rect.width + margin));
+    const height = Math.max(parent.geometry.height, snap(rect.y + rect.height + margin));
+    if (width === parent.geometry.width && height === parent.geometry.height) return [];
+    const grown = { ...boundsOf(parent), width, height };
+    return [{ id: parent.id, geometry: { width, height } }, ...(parent.parent ? growToFit(parent.parent, grown) : [])];
+  };
+
+  const place = (size: Size, hint?: PlacementHint): Placement => {
+    const anchor = hint ? cells.find((cell) => cell.id === hint.anchor) : undefined;
+    const relation = hint?.relation;
+
+    if (anchor && relation === 'inside') {
+      const insets = containerInsets(anchor, margin);
+      const area = { x: insets.left, y: insets.top, width: (anchor.geometry?.width ?? 0) - insets.left - margin, height: (anchor.geometry?.height ?? 0) - insets.top - margin };
+      const rect = firstFreeSpot(area, size, siblingBounds(cells, anchor.id));
+      return { parent: anchor.id, geometry: rect, grow: growToFit(anchor.id, rect) };
+    }
+
+    if (anchor?.geometry && relation && relation !== 'inside') {
+      const parentId = anchor.parent ?? getDefaultParent(diagram);
+      const parent = cells.find((cell) => cell.id === parentId);
+      // Inside a container the block must not end up above or left of it.
+      const insets = parent?.vertex ? containerInsets(parent, margin) : undefined;
+      const rect = besideAnchor(boundsOf(anchor), size, relation, siblingBounds(cells, parentId), insets && { x: insets.left, y: insets.top });
+      return { parent: parentId, geometry: rect, grow: growToFit(parentId, rect) };
+    }
+
+    const layer = getDefaultParent(diagram);
+    const obstacles = siblingBounds(cells, layer);
+    if (obstacles.length === 0) return { parent: layer, geometry: { x: snap(gap), y: snap(gap), ...size }, grow: [] };
+    const extent = obstacles.reduce((all, rect) => ({
+      x: Math.min(all.x, rect.x),
+      y: Math.min(all.y, rect.y),
+      right: Math.max(all.right, rect.x + rect.width),
+      bottom: Math.max(all.bottom, rect.y + rect.height),
+    }), { x: Infinity, y: Infinity, right: -Infinity, bottom: -Infinity });
+    return {
+      parent: layer,
+      geometry: firstFreeSpot({ x: extent.x, y: extent.y, width: extent.right - extent.x, height: extent.bottom - extent.y }, size, obstacles),
+      grow: [],
+    };
+  };
+
+  return { place, gridSize: grid };
+};
+
+// Style for a new block: the block it is placed next to, or one already in
+// the container it goes into.
+export const placementTemplate = (diagram: DiagramDocument, hint?: PlacementHint): DiagramCell | undefined => {
+  if (!hint) return undefined;
+  const cells = getCells(diagram);
+  const usable = (cell: DiagramCell | undefined) =>
+    cell?.vertex && cell.geometry && !cell.geometry.relative && !isContainer(cells, cell) && !isStyleFlagSet(cell.style, 'container') ? cell : undefined;
+  if (hint.relation === 'inside') return cells.find((cell) => cell.parent === hint.anchor && usable(cell));
+  return usable(getCell(diagram, hint.anchor));
+};
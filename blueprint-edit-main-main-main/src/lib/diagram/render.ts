@@ -0,0 +1,279 @@
+import { getCells, parseDiagram, type DiagramCell, type DiagramGeometry, type DiagramPoint } from "./model";
+import { getStyleNumber, type StyleMap } from "./style";
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SceneVertex {
+  kind: 'vertex';
+  id: string;
+  cell: DiagramCell;
+  bounds: Bounds;
+}
+
+export interface SceneEdge {
+  kind: 'edge';
+  id: string;
+  cell: DiagramCell;
+  // Absolute polyline from the source end to the target end.
+  points: DiagramPoint[];
+}
+
+export interface Scene {
+  // Vertices and edges in document order, which is draw.io's paint order.
+  items: Array<SceneVertex | SceneEdge>;
+  bounds: Bounds;
+}
+
+export const center = (bounds: Bounds): DiagramPoint => ({
+  x: bounds.x + bounds.width / 2,
+  y: bounds.y + bounds.height / 2,
+});
+
+export const unionBounds = (all: Bounds[]): Bounds => {
+  if (all.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const minX = Math.min(...all.map((b) => b.x));
+  const minY = Math.min(...all.map((b) => b.y));
+  const maxX = Math.max(...all.map((b) => b.x + b.width));
+  const maxY = Math.max(...all.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Where the segment from the centre of `bounds` towards `toward` leaves the rectangle.
+export const clipToBounds = (bounds: Bounds, toward: DiagramPoint): DiagramPoint => {
+  const c = center(bounds);
+  const dx = toward.x - c.x;
+  const dy = toward.y - c.y;
+  if (dx === 0 && dy === 0) return c;
+
+  const scaleX = dx !== 0 ? bounds.width / 2 / Math.abs(dx) : Infinity;
+  const scaleY = dy !== 0 ? bounds.height / 2 / Math.abs(dy) : Infinity;
+  const scale = Math.min(scaleX, scaleY);
+  return { x: c.x + dx * scale, y: c.y + dy * scale };
+};
+
+// exitX/exitY and entryX/entryY for an edge from `from` to `to`: out of the
+// side facing the other block and into the opposite one, along whichever axis
+// they are further apart.
+export const facingPorts = (from: Bounds, to: Bounds): { exit: DiagramPoint; entry: DiagramPoint } => {
+  const a = center(from);
+  const b = center(to);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return { exit: { x: dx >= 0 ? 1 : 0, y: 0.5 }, entry: { x: dx >= 0 ? 0 : 1, y: 0.5 } };
+  }
+  return { exit: { x: 0.5, y: dy >= 0 ? 1 : 0 }, entry: { x: 0.5, y: dy >= 0 ? 0 : 1 } };
+};
+
+// Point at `fraction` (0..1) of the polyline's length, with the unit direction
+// of the segment it falls on.
+export const pointAlongPolyline = (points: DiagramPoint[], fraction: number): { point: DiagramPoint; direction: DiagramPoint } => {
+  if (points.length === 0) return { point: { x: 0, y: 0 }, direction: { x: 1, y: 0 } };
+  const lengths = points.slice(1).map((point, i) => Math.hypot(point.x - points[i].x, point.y - points[i].y));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) * Math.min(1, Math.max(0, fraction));
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      const direction = {
+        x: (points[i + 1].x - points[i].x) / lengths[i],
+        y: (points[i + 1].y - points[i].y) / lengths[i],
+      };
+      return {
+        point: { x: points[i].x + (points[i + 1].x - points[i].x) * t, y: points[i].y + (points[i + 1].y - points[i].y) * t },
+        direction,
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return { point: points[points.length - 1], direction: { x: 1, y: 0 } };
+};
+
+// Resolves parent-relative coordinates into absolute ones. Only vertices offset
+// their children; layers and the root cell sit at the origin.
+export const createGeometryResolver = (cells: DiagramCell[]) => {
+  const byId = new Map(cells.map((cell) => [cell.id, cell]));
+  const cache = new Map<string, Bounds>();
+
+  const origin = (parentId: string | undefined): DiagramPoint => {
+    const parent = parentId ? byId.get(parentId) : undefined;
+    if (!parent || !parent.vertex || !parent.geometry) return { x: 0, y: 0 };
+    const bounds = boundsOf(parent);
+    return { x: bounds.x, y: bounds.y };
+  };
+
+  const boundsOf = (cell: DiagramCell): Bounds => {
+    const cached = cache.get(cell.id);
+    if (cached) return cached;
+
+    const geometry = cell.geometry;
+    if (!geometry) return { x: 0, y: 0, width: 0, height: 0 };
+
+    let bounds: Bounds;
+    const parent = cell.parent ? byId.get(cell.parent) : undefined;
+    if (geometry.relative && parent?.vertex && parent.geometry) {
+      // Relative vertices are placed at a fraction of their parent's size.
+      const parentBounds = boundsOf(parent);
+      bounds = {
+        x: parentBounds.x + geometry.x * parentBounds.width + (geometry.offset?.x ?? 0),
+        y: parentBounds.y + geometry.y * parentBounds.height + (geometry.offset?.y ?? 0),
+        width: geometry.width,
+        height: geometry.height,
+      };
+    } else {
+      const o = origin(cell.parent);
+      bounds = { x: o.x + geometry.x, y: o.y + geometry.y, width: geometry.width, height: geometry.height };
+    }
+
+    cache.set(cell.id, bounds);
+    return bounds;
+  };
+
+  const toAbsolute = (cell: DiagramCell, point: DiagramPoint): DiagramPoint => {
+    const o = origin(cell.parent);
+    return { x: o.x + point.x, y: o.y + point.y };
+  };
+
+  return { byId, boundsOf, toAbsolute };
+};
+
+export type GeometryResolver = ReturnType<typeof createGeometryResolver>;
+
+type PortEnd = 'exit' | 'entry';
+type Axis = 'horizontal' | 'vertical';
+
+const ORTHOGONAL_EDGE_STYLES = new Set(['orthogonalEdgeStyle', 'elbowEdgeStyle', 'entityRelationEdgeStyle']);
+
+export const isOrthogonalEdge = (style: StyleMap): boolean => ORTHOGONAL_EDGE_STYLES.has(style.edgeStyle);
+
+// Edges pinned to a fixed point on a terminal with exitX/exitY or entryX/entryY.
+export const hasFixedPorts = (style: StyleMap): boolean =>
+  style.exitX !== undefined || style.entryX !== undefined;
+
+const portPoint = (bounds: Bounds, style: StyleMap, end: PortEnd): DiagramPoint | undefined => {
+  const fx = getStyleNumber(style, `${end}X`, NaN);
+  const fy = getStyleNumber(style, `${end}Y`, NaN);
+  if (isNaN(fx) || isNaN(fy)) return undefined;
+  return {
+    x: bounds.x + fx * bounds.width + getStyleNumber(style, `${end}Dx`, 0),
+    y: bounds.y + fy * bounds.height + getStyleNumber(style, `${end}Dy`, 0),
+  };
+};
+
+// Ports on the left/right side leave horizontally, ports on the top/bottom vertically.
+const portAxis = (style: StyleMap, end: PortEnd): Axis | undefined => {
+  const fx = getStyleNumber(style, `${end}X`, NaN);
+  const fy = getStyleNumber(style, `${end}Y`, NaN);
+  if (fx === 0 || fx === 1) return 'horizontal';
+  if (fy === 0 || fy === 1) return 'vertical';
+  return undefined;
+};
+
+// Orthogonal edges leave straight out of the side facing the next point when
+// that point lines up with the terminal, like draw.io does for waypoints.
+const orthogonalTerminalPoint = (bounds: Bounds, toward: DiagramPoint): DiagramPoint => {
+  const c = center(bounds);
+  if (toward.x >= bounds.x && toward.x <= bounds.x + bounds.width) {
+    return { x: toward.x, y: toward.y < c.y ? bounds.y : bounds.y + bounds.height };
+  }
+  if (toward.y >= bounds.y && toward.y <= bounds.y + bounds.height) {
+    return { x: toward.x < c.x ? bounds.x : bounds.x + bounds.width, y: toward.y };
+  }
+  return clipToBounds(bounds, toward);
+};
+
+// Inserts elbows so every segment is horizontal or vertical.
+const routeOrthogonal = (points: DiagramPoint[], style: StyleMap): DiagramPoint[] => {
+  const routed: DiagramPoint[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (a.x !== b.x && a.y !== b.y) {
+      const leaving = i === 1 ? portAxis(style, 'exit') : undefined;
+      const arriving = i === points.length - 1 ? portAxis(style, 'entry') : undefined;
+      const horizontalFirst = leaving
+        ? leaving === 'horizontal'
+        : arriving
+          ? arriving === 'vertical'
+          : style.elbow === 'vertical'
+            ? false
+            : Math.abs(b.x - a.x) >= Math.abs(b.y - a.y);
+      routed.push(horizontalFirst ? { x: b.x, y: a.y } : { x: a.x, y: b.y });
+    }
+    routed.push(b);
+  }
+  return routed;
+};
+
+export const resolveEdgePoints = (edge: DiagramCell, resolver: GeometryResolver): DiagramPoint[] => {
+  const geometry = edge.geometry;
+  const waypoints = (geometry?.points ?? []).map((point) => resolver.toAbsolute(edge, point));
+
+  const source = edge.source ? resolver.byId.get(edge.source) : undefined;
+  const target = edge.target ? resolver.byId.get(edge.target) : undefined;
+  const sourceBounds = source?.geometry ? resolver.boundsOf(source) : undefined;
+  const targetBounds = target?.geometry ? resolver.boundsOf(target) : undefined;
+
+  const floatingSource = geometry?.sourcePoint ? resolver.toAbsolute(edge, geometry.sourcePoint) : undefined;
+  const floatingTarget = geometry?.targetPoint ? resolver.toAbsolute(edge, geometry.targetPoint) : undefined;
+
+  const sourcePort = sourceBounds ? portPoint(sourceBounds, edge.style, 'exit') : undefined;
+  const targetPort = targetBounds ? portPoint(targetBounds, edge.style, 'entry') : undefined;
+
+  const sourceAnchor = sourcePort ?? (sourceBounds ? center(sourceBounds) : floatingSource);
+  const targetAnchor = targetPort ?? (targetBounds ? center(targetBounds) : floatingTarget);
+  if (!sourceAnchor || !targetAnchor) return [];
+
+  const orthogonal = isOrthogonalEdge(edge.style);
+  const attach = orthogonal ? orthogonalTerminalPoint : clipToBounds;
+  const start = sourcePort ?? (sourceBounds ? attach(sourceBounds, waypoints[0] ?? targetAnchor) : sourceAnchor);
+  const end = targetPort ?? (targetBounds ? attach(targetBounds, waypoints[waypoints.length - 1] ?? start) : targetAnchor);
+  const points = [start, ...waypoints, end];
+  return orthogonal ? routeOrthogonal(points, edge.style) : points;
+};
+
+// Where a label sits on an edge. In relative geometry x runs from -1 at the
+// source to 1 at the target and y is the distance off the edge.
+export const edgeLabelPoint = (geometry: DiagramGeometry | undefined, points: DiagramPoint[]): DiagramPoint => {
+  const relative = !!geometry?.relative;
+  const { point, direction } = pointAlongPolyline(points, relative ? (geometry.x + 1) / 2 : 0.5);
+  const distance = relative ? geometry.y : 0;
+  return {
+    x: point.x - direction.y * distance + (geometry?.offset?.x ?? 0),
+    y: point.y + direction.x * distance + (geometry?.offset?.y ?? 0),
+  };
+};
+
+// Vertices whose parent is an edge are labels placed along that edge.
+export const resolveVertexBounds = (cell: DiagramCell, resolver: GeometryResolver): Bounds => {
+  const parent = cell.parent ? resolver.byId.get(cell.parent) : undefined;
+  if (!parent?.edge || !cell.geometry) return resolver.boundsOf(cell);
+
+  const { width, height } = cell.geometry;
+  const anchor = edgeLabelPoint(cell.geometry, resolveEdgePoints(parent, resolver));
+  return { x: anchor.x - width / 2, y: anchor.y - height / 2, width, height };
+};
+
+export const buildScene = (xml: string): Scene => {
+  const cells = getCells(parseDiagram(xml));
+  const resolver = createGeometryResolver(cells);
+  const items: Scene['items'] = [];
+
+  cells.forEach((cell) => {
+    if (cell.vertex && cell.geometry) {
+      items.push({ kind: 'vertex', id: cell.id, cell, bounds: resolveVertexBounds(cell, resolver) });
+    } else if (cell.edge) {
+      const points = resolveEdgePoints(cell, resolver);
+      if (points.length >= 2) items.push({ kind: 'edge', id: cell.id, cell, points });
+    }
+  });
+
+  const bounds = unionBounds(
+    items.map((item) => (item.kind === 'vertex' ? item.bounds : unionBounds(item.points.map((p) => ({ ...p, width: 0, height: 0 }))))),
+  );
+  return { items, bounds };
+};
@@ -0,0 +1,43 @@
+// Where each cell is written in a page's XML text, so the text and the
+// drawing can point at the same cell.
+export interface CellSpan {
+  id: string;
+  // From the `<` of the cell's element to just past its closing tag.
+  start: number;
+  end: number;
+}
+
+// `object` and `UserObject` wrap an mxCell and carry its id; none of the
+// three nest inside their own kind, so the next closing tag is the right one.
+const CELL_ELEMENT = /<(mxCell|object|UserObject)\b([^>]*?)(\/?)>/g;
+// XML allows either quote around attribute values.
+const ID_ATTRIBUTE = /(?:^|\s)id\s*=\s*(["'])(.*?)\1/;
+
+export const findCellSpans = (text: string): CellSpan[] => {
+  const spans: CellSpan[] = [];
+  for (const match of text.matchAll(CELL_ELEMENT)) {
+    const id = match[2].match(ID_ATTRIBUTE)?.[2];
+    if (id === undefined) continue;
+    const start = match.index!;
+    const openEnd = start + match[0].length;
+    if (match[3]) {
+      spans.push({ id, start, end: openEnd });
+      continue;
+    }
+    const close = text.indexOf(`</${match[1]}>`, openEnd);
+    spans.push({ id, start, end: close < 0 ? text.length : close + match[1].length + 3 });
+  }
+  return spans;
+};
+
+// The cells a text selection touches; a bare caret picks the innermost cell
+// around it.
+export const cellsInRange = (spans: CellSpan[], start: number, end: number): string[] => {
+  if (start === end) {
+    const around = spans
+      .filter((span) => span.start <= start && start < span.end)
+      .sort((a, b) => a.end - a.start - (b.end - b.start));
+    return around.length > 0 ? [around[0].id] : [];
+  }
+  return spans.filter((span) => span.start < end && start < span.end).map((span) => span.id);
+};
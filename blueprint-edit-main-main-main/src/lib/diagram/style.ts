@@ -0,0 +1,48 @@
+// mxGraph style strings are `;`-separated `key=value` pairs. A token without
+// `=` (e.g. `ellipse` or `text`) names a base style and is kept with an empty value.
+export type StyleMap = Record<string, string>;
+
+export const parseStyle = (style: string | null | undefined): StyleMap => {
+  const map: StyleMap = {};
+  if (!style) return map;
+
+  style.split(';').forEach((token) => {
+    const trimmed = token.trim();
+    if (!trimmed) return;
+    const eq = trimmed.indexOf('=');
+    if (eq === -1) {
+      map[trimmed] = '';
+    } else {
+      map[trimmed.slice(0, eq)] = trimmed.slice(eq + 1);
+    }
+  });
+
+  return map;
+};
+
+export const serializeStyle = (map: StyleMap, trailingSemicolon = true): string => {
+  const body = Object.entries(map)
+    .map(([key, value]) => (value === '' ? key : `${key}=${value}`))
+    .join(';');
+  return body && trailingSemicolon ? `${body};` : body;
+};
+
+// Applies a partial update; `null` removes the key.
+export const mergeStyle = (map: StyleMap, changes: Record<string, string | null>): StyleMap => {
+  const next: StyleMap = { ...map };
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === null) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  });
+  return next;
+};
+
+export const getStyleNumber = (map: StyleMap, key: string, fallback: number): number => {
+  const parsed = parseFloat(map[key]);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const isStyleFlagSet = (map: StyleMap, key: string): boolean => map[key] === '1' || map[key] === 'true';
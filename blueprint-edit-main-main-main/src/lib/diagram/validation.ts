@@ -0,0 +1,97 @@
+import { findCellSpans } from "./source";
+
+// A problem in a page's XML text, located by character offsets.
+export interface XmlProblem {
+  from: number;
+  to: number;
+  message: string;
+}
+
+interface Attribute {
+  value: string;
+  // Offsets of the whole `name="value"`.
+  from: number;
+  to: number;
+}
+
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(["'])(.*?)\2/g;
+
+const lineOf = (text: string, offset: number): number => text.slice(0, offset).split('\n').length;
+
+const lineEnd = (text: string, offset: number): number => {
+  const end = text.indexOf('\n', offset);
+  return end < 0 ? text.length : end;
+};
+
+// Browsers report where parsing stopped as text, e.g. Chrome's "error on
+// line 4 at column 3: ..." or Firefox's "Line Number 4, Column 3".
+const locateParseError = (text: string, report: string): XmlProblem => {
+  const position = report.match(/line(?:\s+number)?\s+(\d+)(?:,|\s+at)?\s+column\s+(\d+)/i);
+  const reason = report.match(/column\s+\d+:\s*([^\n]+?)\s*(?:Below is|\n|$)/i)?.[1] ?? report.split('\n')[0];
+  const message = `The XML is not well-formed: ${reason.trim() || 'parsing failed'}`;
+  if (!position) return { from: 0, to: lineEnd(text, 0), message };
+
+  const lines = text.split('\n');
+  const line = Math.min(Number(position[1]), lines.length) - 1;
+  const lineStart = lines.slice(0, line).reduce((offset, current) => offset + current.length + 1, 0);
+  const from = Math.min(lineStart + Math.max(Number(position[2]) - 1, 0), lineEnd(text, lineStart));
+  return { from, to: Math.max(lineEnd(text, lineStart), from + 1), message };
+};
+
+// The attributes of the mxCell a cell element holds: its own, or those of
+// the mxCell inside an `object` or `UserObject` wrapper.
+const cellAttributes = (text: string, start: number, end: number): Map<string, Attribute> => {
+  const tagStart = text.slice(start, end).search(/<mxCell\b/);
+  const attributes = new Map<string, Attribute>();
+  if (tagStart < 0) return attributes;
+  const from = start + tagStart;
+  const tag = text.slice(from, text.indexOf('>', from) + 1);
+  for (const match of tag.matchAll(ATTRIBUTE)) {
+    attributes.set(match[1], { value: match[3], from: from + match.index!, to: from + match.index! + match[0].length });
+  }
+  return attributes;
+};
+
+// Checks that the text parses, is a page model, and that its cells hold
+// together: ids are unique, every cell but the root has a parent that exists,
+// and edges end on cells that exist.
+export const validateDiagramXml = (text: string): XmlProblem[] => {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) return [locateParseError(text, error.textContent || '')];
+
+  const rootTag = text.search(/<(?![?!])/);
+  const at = { from: Math.max(rootTag, 0), to: lineEnd(text, Math.max(rootTag, 0)) };
+  if (doc.documentElement.nodeName !== 'mxGraphModel') {
+    return [{ ...at, message: `The page must be an <mxGraphModel>, not <${doc.documentElement.nodeName}>` }];
+  }
+  if (!Array.from(doc.documentElement.children).some((child) => child.nodeName === 'root')) {
+    return [{ ...at, message: '<mxGraphModel> has no <root> holding the cells' }];
+  }
+
+  const problems: XmlProblem[] = [];
+  const cells = findCellSpans(text).map((span) => ({ ...span, attributes: cellAttributes(text, span.start, span.end) }));
+  const ids = new Set(cells.map((cell) => cell.id));
+  const firstUse = new Map<string, number>();
+
+  cells.forEach((cell, index) => {
+    const { attributes } = cell;
+    const tag = { from: cell.start, to: text.indexOf('>', cell.start) + 1 };
+    const earlier = firstUse.get(cell.id);
+    if (earlier === undefined) firstUse.set(cell.id, cell.start);
+    else problems.push({ ...tag, message: `Duplicate id "${cell.id}"; line ${lineOf(text, earlier)} already uses it` });
+
+    const parent = attributes.get('parent');
+    // The first cell is the model's root and has no parent.
+    if (!parent && index > 0) problems.push({ ...tag, message: `Cell "${cell.id}" has no parent` });
+    if (parent && !ids.has(parent.value)) problems.push({ ...parent, message: `Parent "${parent.value}" does not exist` });
+
+    (['source', 'target'] as const).forEach((end) => {
+      const attribute = attributes.get(end);
+      if (attribute && !ids.has(attribute.value)) {
+        problems.push({ ...attribute, message: `${end === 'source' ? 'Source' : 'Target'} "${attribute.value}" does not exist` });
+      }
+    });
+  });
+  return problems;
+};